@@ -1,64 +1,76 @@
 import { useCallback, useEffect, useState } from "react";
+import { Amrap } from "./components/Amrap";
 import { AppSettingsModal } from "./components/AppSettingsModal";
 import { BottomNav, type Mode } from "./components/BottomNav";
 import { BugReportDialog } from "./components/BugReportDialog";
 import { Controls } from "./components/Controls";
+import { Emom } from "./components/Emom";
+import { ForTime } from "./components/ForTime";
 import { ModeHeader } from "./components/ModeHeader";
-import { PresetSelector, type Preset } from "./components/PresetSelector";
+import { PresetSelector } from "./components/PresetSelector";
+import { ResumeBanner } from "./components/ResumeBanner";
 import { Sets } from "./components/Sets";
+import { type SharedWorkout, SharedWorkoutBanner } from "./components/SharedWorkoutBanner";
 import { TimerSettingsModal } from "./components/SettingsModal";
 import { Stopwatch } from "./components/Stopwatch";
 import { TimerDisplay } from "./components/TimerDisplay";
 import { TimerHeader } from "./components/TimerHeader";
 import { UpdateBanner } from "./components/UpdateBanner";
-import { type TimerProfile, useTimer } from "./hooks/useTimer";
+import { useMediaSession } from "./hooks/useMediaSession";
+import { usePresets } from "./hooks/usePresets";
+import { formatTime, type TimerProfile, useTimer } from "./hooks/useTimer";
 import { useWakeLock } from "./hooks/useWakeLock";
+import { clipLibrary } from "./services/clipLibrary";
+import { BUILT_IN_PRESETS, MAX_PRESET_NAME_LENGTH, presetLibrary } from "./services/presetLibrary";
+import { clearSharedPayload, readSharedWorkout } from "./services/workoutShare";
+import { findNextExercise, getSegmentLabel } from "./services/workoutProgram";
 
-const PRESETS: Preset[] = [
-	{ id: "30sec", name: "30 SEC", workTime: 30, restTime: 5, rounds: 6 },
-	{ id: "1min", name: "1 MIN", workTime: 60, restTime: 10, rounds: 5 },
-	{ id: "5-1", name: "5-1", workTime: 300, restTime: 60, rounds: 3 },
-];
-
-function formatTime(seconds: number): string {
-	const mins = Math.floor(seconds / 60);
-	const secs = seconds % 60;
-	return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+/** The workout in the address bar's hash, if the app was opened from a share link */
+function readLocationWorkout(): SharedWorkout | null {
+	try {
+		const profile = readSharedWorkout(window.location.hash);
+		return profile && { profile };
+	} catch (error) {
+		return { error: (error as Error).message };
+	}
 }
 
 export default function App() {
 	const [mode, setMode] = useState<Mode>("rounds");
-	const [activePreset, setActivePreset] = useState("30sec");
+	const [activePreset, setActivePreset] = useState(BUILT_IN_PRESETS[0].id);
 	const [isAppSettingsOpen, setIsAppSettingsOpen] = useState(false);
 	const [isTimerSettingsOpen, setIsTimerSettingsOpen] = useState(false);
-	const [profile, setProfile] = useState<TimerProfile>(() => {
-		const preset = PRESETS.find((p) => p.id === "30sec")!;
-		return {
-			name: preset.name,
-			workTime: preset.workTime,
-			restTime: preset.restTime,
-			rounds: preset.rounds,
-			cycles: 1,
-			prepTime: 5,
-		};
-	});
+	const [profile, setProfile] = useState<TimerProfile>(BUILT_IN_PRESETS[0].profile);
+	const presets = usePresets();
+	const [sharedWorkout, setSharedWorkout] = useState<SharedWorkout | null>(readLocationWorkout);
 
-	const { state, toggle, reset, calculateTotalTime } = useTimer(profile);
+	const {
+		state,
+		segments,
+		toggle,
+		reset,
+		skipPhase,
+		previousPhase,
+		addTime,
+		calculateTotalTime,
+		savedWorkout,
+		resumeSaved,
+		discardSaved,
+	} = useTimer(profile, { persist: true });
 
 	// Keep screen awake while app is open
 	useWakeLock();
 
+	// Make user clips playable before the first cue
+	useEffect(() => {
+		clipLibrary.load();
+	}, []);
+
 	const handlePresetSelect = useCallback((presetId: string) => {
-		const preset = PRESETS.find((p) => p.id === presetId);
+		const preset = presetLibrary.getPreset(presetId);
 		if (preset) {
 			setActivePreset(presetId);
-			setProfile((prev) => ({
-				...prev,
-				name: preset.name,
-				workTime: preset.workTime,
-				restTime: preset.restTime,
-				rounds: preset.rounds,
-			}));
+			setProfile(preset.profile);
 		}
 	}, []);
 
@@ -66,25 +78,95 @@ export default function App() {
 		reset();
 	}, [reset]);
 
-	const handleSettingsSave = useCallback((newProfile: TimerProfile) => {
-		setProfile(newProfile);
+	const handleResume = useCallback(() => {
+		if (!savedWorkout) return;
+		setProfile(savedWorkout.profile);
+		setActivePreset(presets.find((p) => p.name === savedWorkout.profile.name)?.id ?? "custom");
+		setMode("rounds");
+		resumeSaved();
+	}, [savedWorkout, presets, resumeSaved]);
+
+	// A link pasted into an open tab only changes the hash
+	useEffect(() => {
+		const handleHashChange = () => {
+			const shared = readLocationWorkout();
+			if (shared) setSharedWorkout(shared);
+		};
+		window.addEventListener("hashchange", handleHashChange);
+		return () => window.removeEventListener("hashchange", handleHashChange);
+	}, []);
+
+	const dismissShared = useCallback(() => {
+		setSharedWorkout(null);
+		clearSharedPayload();
+	}, []);
+
+	const handleLoadShared = useCallback(() => {
+		if (!sharedWorkout || !("profile" in sharedWorkout)) return;
+		setProfile(sharedWorkout.profile);
 		setActivePreset("custom");
+		setMode("rounds");
+		dismissShared();
+	}, [sharedWorkout, dismissShared]);
+
+	const handleSaveSharedAsPreset = useCallback(async () => {
+		if (!sharedWorkout || !("profile" in sharedWorkout)) return;
+		const { profile: shared } = sharedWorkout;
+		try {
+			// Stored presets must be loaded for their names to count as taken
+			await presetLibrary.load();
+			// Room for a " 2"-style suffix
+			const name = presetLibrary.getUniqueName(shared.name.slice(0, MAX_PRESET_NAME_LENGTH - 3).trim());
+			const preset = await presetLibrary.save(name, shared);
+			setProfile(preset.profile);
+			setActivePreset(preset.id);
+			setMode("rounds");
+			dismissShared();
+		} catch (error) {
+			setSharedWorkout({ error: (error as Error).message });
+		}
+	}, [sharedWorkout, dismissShared]);
+
+	const handleSettingsSave = useCallback(
+		(newProfile: TimerProfile) => {
+			setProfile(newProfile);
+			// Changing a user preset's settings updates the preset; built-ins stay as they are
+			if (presetLibrary.getPreset(activePreset)?.builtIn === false) {
+				presetLibrary.updateProfile(activePreset, newProfile).catch((error) => {
+					console.error("Failed to update preset:", error);
+				});
+			} else {
+				setActivePreset("custom");
+			}
+		},
+		[activePreset],
+	);
+
+	const handleSaveAsPreset = useCallback(async (name: string, newProfile: TimerProfile) => {
+		const preset = await presetLibrary.save(name, newProfile);
+		setProfile(preset.profile);
+		setActivePreset(preset.id);
 	}, []);
 
-	// Keyboard shortcuts
+	// Keyboard shortcuts (interval timer only)
 	useEffect(() => {
+		if (mode !== "rounds") return;
 		const handleKeyDown = (e: KeyboardEvent) => {
 			if (e.code === "Space") {
 				e.preventDefault();
 				toggle();
 			} else if (e.code === "KeyR") {
 				handleReset();
+			} else if (e.code === "ArrowRight") {
+				skipPhase();
+			} else if (e.code === "ArrowLeft") {
+				previousPhase();
 			}
 		};
 
 		document.addEventListener("keydown", handleKeyDown);
 		return () => document.removeEventListener("keydown", handleKeyDown);
-	}, [toggle, handleReset]);
+	}, [mode, toggle, handleReset, skipPhase, previousPhase]);
 
 	// Calculate display values
 	const totalTime = calculateTotalTime();
@@ -92,18 +174,56 @@ export default function App() {
 		? totalTime - state.totalElapsed
 		: totalTime;
 
+	// When idle, show the first real segment (after prep) and what follows it
+	const firstIndex = segments[0]?.type === "prep" ? 1 : 0;
+	const currentIndex = state.phase === "idle" ? firstIndex : state.segmentIndex;
+	const currentSegment = segments[currentIndex];
+	const nextSegment = segments[currentIndex + 1];
+
 	const mainTime = state.isRunning || state.isPaused
 		? formatTime(state.timeLeft)
-		: formatTime(profile.workTime);
+		: formatTime(currentSegment?.duration ?? 0);
+
+	const previewLabel = nextSegment ? getSegmentLabel(nextSegment) : "FINISH";
+	const previewTime = nextSegment ? formatTime(nextSegment.duration) : "";
 
-	const previewLabel = state.phase === "rest" ? "WORK" : "REST";
-	const previewTime = state.phase === "rest"
-		? formatTime(profile.workTime)
-		: formatTime(profile.restTime);
+	// When rounds differ (ladders, pyramids), show what the next round holds
+	const workSegments = segments.filter((s) => s.type === "work");
+	const roundsVary = workSegments.some((s) => s.duration !== workSegments[0].duration);
+	const nextWorkIndex = segments.findIndex((s, i) => i > currentIndex && s.type === "work");
+	const nextWork = segments[nextWorkIndex];
+	const nextWorkRest = segments[nextWorkIndex + 1]?.type === "rest" ? segments[nextWorkIndex + 1] : undefined;
+	const nextRound =
+		roundsVary && nextWork
+			? `NEXT ${nextWork.duration}s${nextWorkRest ? ` / ${nextWorkRest.duration}s` : ""}`
+			: undefined;
+
+	// Lock screen / headset controls while the interval timer is in use
+	const cycleInfo = state.totalCycles > 1 ? ` · Cycle ${state.currentCycle}/${state.totalCycles}` : "";
+	useMediaSession(
+		mode === "rounds" && (state.isRunning || state.isPaused) && currentSegment
+			? {
+					title: `${getSegmentLabel(currentSegment)} — Round ${state.currentRound}/${state.totalRounds}${cycleInfo}`,
+					artist: profile.name,
+					playing: state.isRunning,
+				}
+			: null,
+		{ toggle, next: skipPhase },
+	);
 
 	return (
 		<>
 			<UpdateBanner />
+			{sharedWorkout ? (
+				<SharedWorkoutBanner
+					shared={sharedWorkout}
+					onLoad={handleLoadShared}
+					onSaveAsPreset={handleSaveSharedAsPreset}
+					onDismiss={dismissShared}
+				/>
+			) : (
+				savedWorkout && <ResumeBanner workout={savedWorkout} onResume={handleResume} onDiscard={discardSaved} />
+			)}
 			<BugReportDialog />
 
 			{mode === "rounds" && (
@@ -111,12 +231,14 @@ export default function App() {
 					<TimerHeader
 						profileName={profile.name}
 						totalTime={formatTime(remainingTime)}
+						currentCycle={state.currentCycle}
+						totalCycles={state.totalCycles}
 						onSettingsClick={() => setIsAppSettingsOpen(true)}
 						onResetClick={handleReset}
 					/>
 
 					<PresetSelector
-						presets={PRESETS}
+						presets={presets}
 						activePreset={activePreset}
 						onSelect={handlePresetSelect}
 						onSettingsClick={() => setIsTimerSettingsOpen(true)}
@@ -124,20 +246,32 @@ export default function App() {
 
 					<TimerDisplay
 						phase={state.phase}
+						label={currentSegment?.label}
+						exercise={state.phase === "done" ? undefined : currentSegment?.exercise}
 						mainTime={mainTime}
 						previewTime={previewTime}
 						previewLabel={previewLabel}
+						nextExercise={findNextExercise(segments, currentIndex)}
 					/>
 
 					<Controls
 						currentRound={state.currentRound}
 						totalRounds={state.totalRounds}
+						currentCycle={state.currentCycle}
+						totalCycles={state.totalCycles}
 						isRunning={state.isRunning}
 						isPaused={state.isPaused}
+						nextRound={nextRound}
 						onToggle={toggle}
+						onPrevious={previousPhase}
+						onSkip={skipPhase}
+						onAddTime={addTime}
 					/>
 				</>
 			)}
+			{mode === "emom" && <Emom onSettingsClick={() => setIsAppSettingsOpen(true)} />}
+			{mode === "amrap" && <Amrap onSettingsClick={() => setIsAppSettingsOpen(true)} />}
+			{mode === "fortime" && <ForTime onSettingsClick={() => setIsAppSettingsOpen(true)} />}
 			{mode === "stopwatch" && (
 				<>
 					<ModeHeader title="STOPWATCH" onSettingsClick={() => setIsAppSettingsOpen(true)} />
@@ -163,6 +297,7 @@ export default function App() {
 				profile={profile}
 				onClose={() => setIsTimerSettingsOpen(false)}
 				onSave={handleSettingsSave}
+				onSaveAsPreset={handleSaveAsPreset}
 			/>
 		</>
 	);
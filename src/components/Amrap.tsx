@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { formatAmrapScore, useAmrap } from "../hooks/useAmrap";
+import { clampWhole, formatTime } from "../hooks/useTimer";
+import styles from "./Amrap.module.css";
+import { ModeHeader } from "./ModeHeader";
+import { TallyMarks } from "./Sets";
+
+const MIN_CAP_MINUTES = 1;
+const MAX_CAP_MINUTES = 60;
+
+interface AmrapProps {
+	onSettingsClick: () => void;
+}
+
+export function Amrap({ onSettingsClick }: AmrapProps) {
+	// What's typed; the timer gets it clamped, and the field shows that once left
+	const [capText, setCapText] = useState("12");
+	const capMinutes = clampWhole(Number(capText), MIN_CAP_MINUTES, MAX_CAP_MINUTES);
+	const { state, toggle, reset, completeRound, undoRound, setExtraReps } = useAmrap(capMinutes * 60);
+	const { phase, roundsCompleted, splits, averageRoundTime, extraReps } = state;
+
+	const isIdle = phase === "idle";
+	const isDone = phase === "done";
+	const canTap = phase === "work" && state.isRunning;
+	const buttonLabel = state.isRunning ? "STOP" : state.isPaused ? "RESUME" : "START";
+
+	return (
+		<>
+			<ModeHeader title="AMRAP" onSettingsClick={onSettingsClick} />
+
+			<div className={styles.clock}>
+				<div className={styles.clockLabel}>
+					{phase === "prep" ? "GET READY" : isDone ? "TIME CAP" : "TIME LEFT"}
+				</div>
+				<div className={styles.clockTime}>
+					{isIdle ? formatTime(capMinutes * 60) : formatTime(state.timeLeft)}
+				</div>
+			</div>
+
+			{isIdle && (
+				<div className={styles.setup}>
+					<label className={styles.setupLabel} htmlFor="amrapCap">TIME CAP (minutes)</label>
+					<input
+						id="amrapCap"
+						className={styles.setupInput}
+						type="number"
+						value={capText}
+						onChange={(e) => setCapText(e.target.value)}
+						onBlur={() => setCapText(String(capMinutes))}
+						min={MIN_CAP_MINUTES}
+						max={MAX_CAP_MINUTES}
+					/>
+				</div>
+			)}
+
+			{!isIdle && !isDone && (
+				<div
+					className={`${styles.tapArea} ${canTap ? "" : styles.disabled}`}
+					onClick={completeRound}
+					role="button"
+					tabIndex={0}
+					aria-label={`Complete round (rounds: ${roundsCompleted})`}
+					aria-disabled={!canTap}
+					onKeyDown={(e) => {
+						if (e.code === "Enter") completeRound();
+					}}
+				>
+					<div className={styles.roundCount}>{roundsCompleted}</div>
+					<div className={styles.tapHint}>TAP FOR ROUND</div>
+					<TallyMarks count={roundsCompleted} />
+				</div>
+			)}
+
+			{isDone && (
+				<div className={styles.results}>
+					<div className={styles.score}>{formatAmrapScore(roundsCompleted, extraReps)}</div>
+					<div className={styles.scoreLabel}>ROUNDS + REPS</div>
+					<div className={styles.repsRow}>
+						<button type="button" className={styles.repsBtn} onClick={() => setExtraReps(extraReps - 1)}>
+							−
+						</button>
+						<span className={styles.repsValue}>{extraReps} REPS</span>
+						<button type="button" className={styles.repsBtn} onClick={() => setExtraReps(extraReps + 1)}>
+							+
+						</button>
+					</div>
+				</div>
+			)}
+
+			{splits.length > 0 && (
+				<div className={styles.splitList}>
+					<div className={styles.splitItem}>
+						<span className={styles.splitNumber}>Average</span>
+						<span className={styles.splitTime}>{formatTime(Math.round(averageRoundTime))}</span>
+					</div>
+					{splits.map((split, i) => (
+						<div key={i} className={styles.splitItem}>
+							<span className={styles.splitNumber}>Round {i + 1}</span>
+							<span className={styles.splitTime}>{formatTime(split)}</span>
+						</div>
+					)).reverse()}
+				</div>
+			)}
+
+			<section className={styles.controlsSection}>
+				<div className={styles.statsRow}>
+					<button
+						type="button"
+						className={styles.roundBtn}
+						onClick={undoRound}
+						disabled={roundsCompleted === 0 || isDone}
+					>
+						UNDO
+					</button>
+					<div className={styles.centerControl}>
+						<button className={styles.playBtn} onClick={toggle} aria-label={buttonLabel}>
+							{state.isRunning ? (
+								<div className={styles.stopIcon} />
+							) : (
+								<svg className={styles.playIcon} viewBox="0 0 24 24">
+									<polygon points="5,3 19,12 5,21" />
+								</svg>
+							)}
+						</button>
+						<div className={styles.btnLabel}>{buttonLabel}</div>
+					</div>
+					<button type="button" className={`${styles.roundBtn} ${styles.reset}`} onClick={reset}>
+						RESET
+					</button>
+				</div>
+			</section>
+		</>
+	);
+}
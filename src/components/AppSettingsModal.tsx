@@ -1,8 +1,30 @@
 import { useEffect, useRef, useState } from "react";
 import { useBugReporter } from "../contexts/BugReporterContext";
-import { audioService } from "../services/audioService";
+import { audioService, MAX_MASTER_VOLUME } from "../services/audioService";
+import { clipLibrary } from "../services/clipLibrary";
+import {
+	formatPattern,
+	HAPTIC_CUE_LABELS,
+	type HapticCue,
+	hapticService,
+	parsePattern,
+} from "../services/hapticService";
+import { notificationService } from "../services/notificationService";
 import { sessionName, sessionRecorder } from "../services/pwaDebugServices";
+import {
+	CUE_LABELS,
+	type CueName,
+	type CueSettings,
+	getCueSettings,
+	getSelectedSoundPack,
+	playCue,
+	SOUND_PACKS,
+	setCueSettings,
+	setSelectedSoundPack,
+} from "../services/soundPacks";
+import { speechService } from "../services/speechService";
 import { AboutSection } from "./AboutSection";
+import { PresetManager } from "./PresetManager";
 import styles from "./SettingsModal.module.css";
 
 interface AppSettingsModalProps {
@@ -20,6 +42,32 @@ export function AppSettingsModal({ isOpen, onClose }: AppSettingsModalProps) {
 	} = useBugReporter();
 	const [audioTestStatus, setAudioTestStatus] = useState<"idle" | "testing" | "success" | "failed">("idle");
 	const audioTestTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+	const [notificationsEnabled, setNotificationsEnabled] = useState(() => notificationService.isEnabled());
+	const [notificationPermission, setNotificationPermission] = useState(() => notificationService.getPermission());
+	const [soundPackId, setSoundPackId] = useState(() => getSelectedSoundPack().id);
+	const [output, setOutput] = useState(() => audioService.getOutputSettings());
+	const [cueSettings, setCueSettingsState] = useState(() => getCueSettings());
+	const [clips, setClips] = useState(() => clipLibrary.getClips());
+	const [clipError, setClipError] = useState<string | null>(null);
+	const clipInputRef = useRef<HTMLInputElement>(null);
+	const [hapticSettings, setHapticSettings] = useState(() => hapticService.getSettings());
+	/** Pattern text being edited, kept until it parses */
+	const [patternDrafts, setPatternDrafts] = useState<Partial<Record<HapticCue, string>>>({});
+	const [speechSettings, setSpeechSettings] = useState(() => speechService.getSettings());
+	const [voices, setVoices] = useState(() => speechService.getVoices());
+
+	// Clips load from IndexedDB at startup; may still be in flight
+	useEffect(() => {
+		if (!isOpen) return;
+		clipLibrary.load().then(() => setClips(clipLibrary.getClips()));
+	}, [isOpen]);
+
+	// Voices load asynchronously in most browsers
+	useEffect(() => {
+		if (!isOpen) return;
+		setVoices(speechService.getVoices());
+		return speechService.onVoicesChanged(() => setVoices(speechService.getVoices()));
+	}, [isOpen]);
 
 	// Clean up timeout on unmount
 	useEffect(() => {
@@ -60,6 +108,60 @@ export function AppSettingsModal({ isOpen, onClose }: AppSettingsModalProps) {
 		}
 	};
 
+	const handleNotificationsToggle = async () => {
+		if (!notificationsEnabled) {
+			// Request permission when enabling
+			const granted = await notificationService.requestPermission();
+			setNotificationPermission(notificationService.getPermission());
+			if (!granted) return;
+		}
+		notificationService.setEnabled(!notificationsEnabled);
+		setNotificationsEnabled(!notificationsEnabled);
+	};
+
+	const updateOutput = (changes: Partial<typeof output>) => {
+		audioService.setOutputSettings(changes);
+		setOutput(audioService.getOutputSettings());
+	};
+
+	const updateCueSettings = (cue: CueName, changes: Partial<CueSettings>) => {
+		setCueSettings(cue, changes);
+		setCueSettingsState(getCueSettings());
+	};
+
+	const handleClipImport = async (files: FileList | null) => {
+		setClipError(null);
+		for (const file of Array.from(files ?? [])) {
+			try {
+				await clipLibrary.importFile(file);
+			} catch (error) {
+				setClipError((error as Error).message);
+			}
+		}
+		setClips(clipLibrary.getClips());
+		if (clipInputRef.current) clipInputRef.current.value = "";
+	};
+
+	const handleClipDelete = async (id: string) => {
+		await clipLibrary.remove(id);
+		setClips(clipLibrary.getClips());
+		setCueSettingsState(getCueSettings());
+	};
+
+	const handlePatternChange = (cue: HapticCue, text: string) => {
+		const pattern = parsePattern(text);
+		if (pattern) {
+			hapticService.setCueSettings(cue, { pattern });
+			setHapticSettings(hapticService.getSettings());
+		}
+		setPatternDrafts((drafts) => ({ ...drafts, [cue]: text }));
+	};
+
+	const updateSpeechSettings = (changes: Partial<typeof speechSettings>) => {
+		speechService.setSettings(changes);
+		setSpeechSettings(speechService.getSettings());
+	};
+
 	return (
 		<div className={styles.modalOverlay} onClick={handleOverlayClick}>
 			<div className={styles.modal}>
@@ -100,6 +202,277 @@ export function AppSettingsModal({ isOpen, onClose }: AppSettingsModalProps) {
 
 					</div>
 
+					{/* Presets Section */}
+					<PresetManager />
+
+					{/* Sounds Section */}
+					<div className={styles.section}>
+						<h3 className={styles.sectionTitle}>Sounds</h3>
+
+						<div className={styles.settingRow}>
+							<label className={styles.settingLabel} htmlFor="soundPack">Sound pack</label>
+							<select
+								id="soundPack"
+								className={styles.settingSelect}
+								value={soundPackId}
+								onChange={(e) => {
+									setSelectedSoundPack(e.target.value);
+									setSoundPackId(e.target.value);
+								}}
+							>
+								{SOUND_PACKS.map((pack) => (
+									<option key={pack.id} value={pack.id}>
+										{pack.name}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div className={styles.settingRow}>
+							<label className={styles.settingLabel} htmlFor="masterVolume">
+								Volume {Math.round(output.volume * 100)}%
+							</label>
+							<input
+								id="masterVolume"
+								type="range"
+								min="0"
+								max={MAX_MASTER_VOLUME}
+								step="0.05"
+								value={output.volume}
+								disabled={output.muted}
+								onChange={(e) => updateOutput({ volume: Number(e.target.value) })}
+							/>
+						</div>
+
+						<div className={styles.settingRow}>
+							<span className={styles.settingLabel}>Mute all</span>
+							<button
+								type="button"
+								className={`${styles.toggle} ${output.muted ? styles.toggleOn : ""}`}
+								onClick={() => updateOutput({ muted: !output.muted })}
+							>
+								{output.muted ? "ON" : "OFF"}
+							</button>
+						</div>
+
+						<div className={styles.cueList}>
+							{(Object.keys(CUE_LABELS) as CueName[]).map((cue) => (
+								<div key={cue} className={styles.cueRow}>
+									<button
+										type="button"
+										className={styles.cuePreview}
+										onClick={() => playCue(cue)}
+										aria-label={`Preview ${CUE_LABELS[cue]}`}
+									>
+										▶ {CUE_LABELS[cue]}
+									</button>
+									<input
+										type="range"
+										min="0"
+										max="1"
+										step="0.05"
+										value={cueSettings[cue].volume}
+										disabled={!cueSettings[cue].enabled}
+										onChange={(e) => updateCueSettings(cue, { volume: Number(e.target.value) })}
+										aria-label={`${CUE_LABELS[cue]} volume`}
+									/>
+									<button
+										type="button"
+										className={`${styles.toggle} ${cueSettings[cue].enabled ? styles.toggleOn : ""}`}
+										onClick={() => updateCueSettings(cue, { enabled: !cueSettings[cue].enabled })}
+									>
+										{cueSettings[cue].enabled ? "ON" : "OFF"}
+									</button>
+									{clips.length > 0 && (
+										<select
+											className={`${styles.settingSelect} ${styles.cueSource}`}
+											value={cueSettings[cue].clipId ?? ""}
+											onChange={(e) => updateCueSettings(cue, { clipId: e.target.value || null })}
+											aria-label={`${CUE_LABELS[cue]} sound`}
+										>
+											<option value="">Sound pack</option>
+											{clips.map((clip) => (
+												<option key={clip.id} value={clip.id}>
+													{clip.name}
+												</option>
+											))}
+										</select>
+									)}
+								</div>
+							))}
+						</div>
+
+						<div className={styles.clipList}>
+							{clips.map((clip) => (
+								<div key={clip.id} className={styles.clipRow}>
+									<span className={styles.clipName}>
+										{clip.name} ({clip.duration.toFixed(1)}s)
+									</span>
+									<button
+										type="button"
+										className={styles.roundRemove}
+										onClick={() => handleClipDelete(clip.id)}
+										aria-label={`Delete ${clip.name}`}
+									>
+										&times;
+									</button>
+								</div>
+							))}
+						</div>
+						{clipError && <p className={styles.errorText}>{clipError}</p>}
+
+						<input
+							ref={clipInputRef}
+							type="file"
+							accept="audio/*"
+							multiple
+							hidden
+							onChange={(e) => handleClipImport(e.target.files)}
+						/>
+						<button type="button" className={styles.reportBtn} onClick={() => clipInputRef.current?.click()}>
+							Import Audio Clip
+						</button>
+					</div>
+
+					{/* Voice Section */}
+					{speechService.isSupported() && (
+						<div className={styles.section}>
+							<h3 className={styles.sectionTitle}>Voice</h3>
+
+							<div className={styles.settingRow}>
+								<span className={styles.settingLabel}>Spoken cues</span>
+								<button
+									type="button"
+									className={`${styles.toggle} ${speechSettings.enabled ? styles.toggleOn : ""}`}
+									onClick={() => updateSpeechSettings({ enabled: !speechSettings.enabled })}
+								>
+									{speechSettings.enabled ? "ON" : "OFF"}
+								</button>
+							</div>
+
+							<div className={styles.settingRow}>
+								<label className={styles.settingLabel} htmlFor="voice">Voice</label>
+								<select
+									id="voice"
+									className={styles.settingSelect}
+									value={speechSettings.voiceURI ?? ""}
+									onChange={(e) => updateSpeechSettings({ voiceURI: e.target.value || null })}
+								>
+									<option value="">System default</option>
+									{voices.map((voice) => (
+										<option key={voice.voiceURI} value={voice.voiceURI}>
+											{voice.name} ({voice.lang})
+										</option>
+									))}
+								</select>
+							</div>
+
+							<div className={styles.settingRow}>
+								<label className={styles.settingLabel} htmlFor="speechRate">
+									Speed {speechSettings.rate.toFixed(1)}x
+								</label>
+								<input
+									id="speechRate"
+									type="range"
+									min="0.5"
+									max="2"
+									step="0.1"
+									value={speechSettings.rate}
+									onChange={(e) => updateSpeechSettings({ rate: Number(e.target.value) })}
+								/>
+							</div>
+
+							<button
+								type="button"
+								className={styles.reportBtn}
+								onClick={() => speechService.speak("Round 3 of 6", { force: true })}
+							>
+								Preview Voice
+							</button>
+						</div>
+					)}
+
+					{/* Vibration Section */}
+					{hapticService.isSupported() && (
+						<div className={styles.section}>
+							<h3 className={styles.sectionTitle}>Vibration</h3>
+
+							<div className={styles.settingRow}>
+								<span className={styles.settingLabel}>Vibration cues</span>
+								<button
+									type="button"
+									className={`${styles.toggle} ${hapticSettings.enabled ? styles.toggleOn : ""}`}
+									onClick={() => {
+										hapticService.setSettings({ enabled: !hapticSettings.enabled });
+										setHapticSettings(hapticService.getSettings());
+									}}
+								>
+									{hapticSettings.enabled ? "ON" : "OFF"}
+								</button>
+							</div>
+
+							<div className={styles.cueList}>
+								{(Object.keys(HAPTIC_CUE_LABELS) as HapticCue[]).map((cue) => {
+									const draft = patternDrafts[cue];
+									return (
+										<div key={cue} className={styles.cueRow}>
+											<button
+												type="button"
+												className={styles.cuePreview}
+												onClick={() => hapticService.vibrate(cue, { force: true })}
+												aria-label={`Preview ${HAPTIC_CUE_LABELS[cue]}`}
+											>
+												▶ {HAPTIC_CUE_LABELS[cue]}
+											</button>
+											<input
+												type="text"
+												inputMode="numeric"
+												className={`${styles.patternInput} ${draft !== undefined && !parsePattern(draft) ? styles.patternInvalid : ""}`}
+												value={draft ?? formatPattern(hapticSettings.cues[cue].pattern)}
+												onChange={(e) => handlePatternChange(cue, e.target.value)}
+												onBlur={() => setPatternDrafts((drafts) => ({ ...drafts, [cue]: undefined }))}
+												aria-label={`${HAPTIC_CUE_LABELS[cue]} pattern (ms)`}
+											/>
+											<button
+												type="button"
+												className={`${styles.toggle} ${hapticSettings.cues[cue].enabled ? styles.toggleOn : ""}`}
+												onClick={() => {
+													hapticService.setCueSettings(cue, { enabled: !hapticSettings.cues[cue].enabled });
+													setHapticSettings(hapticService.getSettings());
+												}}
+											>
+												{hapticSettings.cues[cue].enabled ? "ON" : "OFF"}
+											</button>
+										</div>
+									);
+								})}
+							</div>
+							<p className={styles.patternHint}>Patterns are buzz, pause, buzz... in milliseconds</p>
+						</div>
+					)}
+
+					{/* Notifications Section */}
+					{notificationPermission !== "unsupported" && (
+						<div className={styles.section}>
+							<h3 className={styles.sectionTitle}>Notifications</h3>
+
+							<div className={styles.settingRow}>
+								<span className={styles.settingLabel}>
+									Phase alerts when in background
+									{notificationPermission === "denied" && " (blocked in browser settings)"}
+								</span>
+								<button
+									type="button"
+									className={`${styles.toggle} ${notificationsEnabled ? styles.toggleOn : ""}`}
+									disabled={notificationPermission === "denied"}
+									onClick={handleNotificationsToggle}
+								>
+									{notificationsEnabled ? "ON" : "OFF"}
+								</button>
+							</div>
+						</div>
+					)}
+
 					{/* Debug Section */}
 					<div className={styles.section}>
 						<h3 className={styles.sectionTitle}>Debug</h3>
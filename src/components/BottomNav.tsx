@@ -1,6 +1,6 @@
 import styles from "./BottomNav.module.css";
 
-export type Mode = "rounds" | "stopwatch" | "sets";
+export type Mode = "rounds" | "emom" | "amrap" | "fortime" | "stopwatch" | "sets";
 
 interface BottomNavProps {
 	activeMode: Mode;
@@ -20,6 +20,42 @@ export function BottomNav({ activeMode, onModeChange }: BottomNavProps) {
 				</svg>
 				<span>ROUNDS</span>
 			</button>
+			<button
+				className={`${styles.navItem} ${activeMode === "emom" ? styles.active : ""}`}
+				onClick={() => onModeChange("emom")}
+			>
+				<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+					{/* Clock face with a repeat arrow - every minute on the minute */}
+					<path d="M21 12a9 9 0 1 1-3-6.7" />
+					<path d="M21 3v5h-5" />
+					<path d="M12 7v5l3 2" />
+				</svg>
+				<span>EMOM</span>
+			</button>
+			<button
+				className={`${styles.navItem} ${activeMode === "amrap" ? styles.active : ""}`}
+				onClick={() => onModeChange("amrap")}
+			>
+				<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+					{/* Stacked loops - as many rounds as possible */}
+					<path d="M17 2l4 4-4 4" />
+					<path d="M3 11V9a3 3 0 0 1 3-3h15" />
+					<path d="M7 22l-4-4 4-4" />
+					<path d="M21 13v2a3 3 0 0 1-3 3H3" />
+				</svg>
+				<span>AMRAP</span>
+			</button>
+			<button
+				className={`${styles.navItem} ${activeMode === "fortime" ? styles.active : ""}`}
+				onClick={() => onModeChange("fortime")}
+			>
+				<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+					{/* Finish flag */}
+					<path d="M4 22V4" />
+					<path d="M4 4h13l-3 4 3 4H4" />
+				</svg>
+				<span>FOR TIME</span>
+			</button>
 			<button
 				className={`${styles.navItem} ${activeMode === "stopwatch" ? styles.active : ""}`}
 				onClick={() => onModeChange("stopwatch")}
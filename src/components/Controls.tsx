@@ -3,13 +3,39 @@ import styles from "./Controls.module.css";
 interface ControlsProps {
 	currentRound: number;
 	totalRounds: number;
+	currentCycle: number;
+	totalCycles: number;
 	isRunning: boolean;
 	isPaused: boolean;
+	/** Durations of the next round, when they vary by round (e.g. "NEXT 40s / 20s") */
+	nextRound?: string;
 	onToggle: () => void;
+	/** Restart the current phase (or go back one); shown with the other adjustments */
+	onPrevious?: () => void;
+	onSkip?: () => void;
+	onAddTime?: (seconds: number) => void;
 }
 
-export function Controls({ currentRound, totalRounds, isRunning, isPaused, onToggle }: ControlsProps) {
+/** Seconds added per tap of the +time button */
+const ADD_TIME_STEP = 10;
+
+export function Controls({
+	currentRound,
+	totalRounds,
+	currentCycle,
+	totalCycles,
+	isRunning,
+	isPaused,
+	nextRound,
+	onToggle,
+	onPrevious,
+	onSkip,
+	onAddTime,
+}: ControlsProps) {
 	const buttonLabel = isRunning ? "STOP" : isPaused ? "RESUME" : "START";
+	const hasAdjustments = onPrevious || onSkip || onAddTime;
+	// Adjustments only make sense for a workout in progress
+	const canAdjust = isRunning || isPaused;
 
 	return (
 		<section className={styles.controlsSection}>
@@ -17,6 +43,11 @@ export function Controls({ currentRound, totalRounds, isRunning, isPaused, onTog
 				<div className={styles.stat}>
 					<div className={`${styles.statValue} ${styles.blue}`}>{currentRound}</div>
 					<div className={styles.statLabel}>ROUND</div>
+					{totalCycles > 1 && (
+						<div className={styles.cycleLabel}>
+							CYCLE {currentCycle} OF {totalCycles}
+						</div>
+					)}
 				</div>
 				<div className={styles.centerControl}>
 					<button className={styles.playBtn} onClick={onToggle} aria-label={buttonLabel}>
@@ -33,8 +64,32 @@ export function Controls({ currentRound, totalRounds, isRunning, isPaused, onTog
 				<div className={styles.stat}>
 					<div className={`${styles.statValue} ${styles.yellow}`}>{totalRounds}</div>
 					<div className={styles.statLabel}>OF</div>
+					{nextRound && <div className={styles.nextRoundLabel}>{nextRound}</div>}
 				</div>
 			</div>
+			{hasAdjustments && (
+				<div className={styles.adjustRow}>
+					{onPrevious && (
+						<button className={styles.adjustBtn} onClick={onPrevious} disabled={!canAdjust}>
+							PREV
+						</button>
+					)}
+					{onAddTime && (
+						<button
+							className={styles.adjustBtn}
+							onClick={() => onAddTime(ADD_TIME_STEP)}
+							disabled={!canAdjust}
+						>
+							+{ADD_TIME_STEP}s
+						</button>
+					)}
+					{onSkip && (
+						<button className={styles.adjustBtn} onClick={onSkip} disabled={!canAdjust}>
+							SKIP
+						</button>
+					)}
+				</div>
+			)}
 		</section>
 	);
 }
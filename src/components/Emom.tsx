@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+import { EMOM_LIMITS, type EmomSettings, useEmom } from "../hooks/useEmom";
+import { clampWhole, formatTime } from "../hooks/useTimer";
+import { Controls } from "./Controls";
+import styles from "./Emom.module.css";
+import { ModeHeader } from "./ModeHeader";
+
+interface EmomProps {
+	onSettingsClick: () => void;
+}
+
+export function Emom({ onSettingsClick }: EmomProps) {
+	// What's typed; the timer gets it clamped, and the field shows that once left
+	const [intervalTimeText, setIntervalTimeText] = useState("60");
+	const [intervalsText, setIntervalsText] = useState("10");
+	const settings = useMemo<EmomSettings>(
+		() => ({
+			intervalTime: clampWhole(Number(intervalTimeText), EMOM_LIMITS.intervalTime.min, EMOM_LIMITS.intervalTime.max),
+			intervals: clampWhole(Number(intervalsText), EMOM_LIMITS.intervals.min, EMOM_LIMITS.intervals.max),
+		}),
+		[intervalTimeText, intervalsText],
+	);
+	const { state, toggle, reset, markWorkDone } = useEmom(settings);
+	const { phase, splits, isWorkDone, intervalElapsed, timeLeft } = state;
+
+	const isIdle = phase === "idle";
+	const isDone = phase === "done";
+	const isActive = !isIdle && !isDone;
+
+	// Before the tap we count the work up; after it, the rest left in the interval
+	const label = phase === "prep"
+		? "GET READY"
+		: phase === "work"
+			? isWorkDone ? "REST" : "WORK"
+			: isDone ? "DONE!" : "";
+	const mainTime = phase === "work" && !isWorkDone ? formatTime(intervalElapsed) : formatTime(timeLeft);
+
+	return (
+		<>
+			<ModeHeader title="EMOM" onSettingsClick={onSettingsClick} onResetClick={reset} />
+
+			{isActive && (
+				<div
+					className={`${styles.emomDisplay} ${isWorkDone ? styles.resting : ""}`}
+					onClick={markWorkDone}
+					role="button"
+					tabIndex={0}
+					aria-label="Mark work finished"
+					onKeyDown={(e) => {
+						if (e.code === "Enter") markWorkDone();
+					}}
+				>
+					<div className={styles.phaseLabel}>{label}</div>
+					<div className={styles.mainTime}>{mainTime}</div>
+					{phase === "work" && (
+						<div className={styles.hint}>
+							{isWorkDone
+								? `WORK ${formatTime(splits[state.currentRound - 1] ?? 0)}`
+								: "TAP WHEN DONE"}
+						</div>
+					)}
+				</div>
+			)}
+
+			{isIdle && (
+				<div className={styles.setup}>
+					<label className={styles.setupLabel} htmlFor="emomInterval">INTERVAL (seconds)</label>
+					<input
+						id="emomInterval"
+						className={styles.setupInput}
+						type="number"
+						value={intervalTimeText}
+						onChange={(e) => setIntervalTimeText(e.target.value)}
+						onBlur={() => setIntervalTimeText(String(settings.intervalTime))}
+						min={EMOM_LIMITS.intervalTime.min}
+						max={EMOM_LIMITS.intervalTime.max}
+					/>
+					<label className={styles.setupLabel} htmlFor="emomIntervals">INTERVALS</label>
+					<input
+						id="emomIntervals"
+						className={styles.setupInput}
+						type="number"
+						value={intervalsText}
+						onChange={(e) => setIntervalsText(e.target.value)}
+						onBlur={() => setIntervalsText(String(settings.intervals))}
+						min={EMOM_LIMITS.intervals.min}
+						max={EMOM_LIMITS.intervals.max}
+					/>
+				</div>
+			)}
+
+			{isDone && (
+				<div className={styles.splits}>
+					<div className={styles.splitsTitle}>SPLITS</div>
+					<div className={styles.splitList}>
+						{splits.map((split, i) => (
+							<div key={i} className={styles.splitItem}>
+								<span className={styles.splitNumber}>Interval {i + 1}</span>
+								<span className={styles.splitTime}>
+									{split == null ? "—" : formatTime(split)}
+								</span>
+								<span className={styles.splitRest}>
+									{split == null ? "" : `rest ${formatTime(settings.intervalTime - split)}`}
+								</span>
+							</div>
+						))}
+					</div>
+					<button type="button" className={styles.resetBtn} onClick={reset}>
+						RESET
+					</button>
+				</div>
+			)}
+
+			<Controls
+				currentRound={state.currentRound}
+				totalRounds={state.totalRounds}
+				currentCycle={state.currentCycle}
+				totalCycles={state.totalCycles}
+				isRunning={state.isRunning}
+				isPaused={state.isPaused}
+				onToggle={toggle}
+			/>
+		</>
+	);
+}
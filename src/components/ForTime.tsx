@@ -0,0 +1,112 @@
+import { useMemo, useState } from "react";
+import { useForTime } from "../hooks/useForTime";
+import { clampWhole, formatTime } from "../hooks/useTimer";
+import styles from "./ForTime.module.css";
+import { ModeHeader } from "./ModeHeader";
+
+const MIN_CAP_MINUTES = 1;
+const MAX_CAP_MINUTES = 120;
+
+interface ForTimeProps {
+	onSettingsClick: () => void;
+}
+
+/** Parse "60, 10" into [60, 10], ignoring anything that isn't a positive number */
+function parseWarnings(text: string): number[] {
+	return text
+		.split(",")
+		.map((part) => Number(part.trim()))
+		.filter((seconds) => Number.isFinite(seconds) && seconds > 0);
+}
+
+export function ForTime({ onSettingsClick }: ForTimeProps) {
+	// What's typed; the timer gets it clamped, and the field shows that once left
+	const [capText, setCapText] = useState("20");
+	const capMinutes = clampWhole(Number(capText), MIN_CAP_MINUTES, MAX_CAP_MINUTES);
+	const [warningsText, setWarningsText] = useState("60, 10");
+	const warnings = useMemo(() => parseWarnings(warningsText), [warningsText]);
+	const { state, toggle, reset, finish } = useForTime({ capTime: capMinutes * 60, warnings });
+	const { phase, result } = state;
+
+	const isActive = phase === "prep" || phase === "work";
+	const buttonLabel = state.isRunning ? "STOP" : state.isPaused ? "RESUME" : "START";
+
+	return (
+		<>
+			<ModeHeader title="FOR TIME" onSettingsClick={onSettingsClick} />
+
+			{isActive && (
+				<div className={`${styles.display} ${phase === "prep" ? styles.prep : ""}`}>
+					<div className={styles.phaseLabel}>{phase === "prep" ? "GET READY" : "GO"}</div>
+					<div className={styles.mainTime}>
+						{phase === "prep" ? formatTime(state.timeLeft) : formatTime(state.workElapsed)}
+					</div>
+					<div className={styles.capLabel}>CAP {formatTime(capMinutes * 60)}</div>
+				</div>
+			)}
+
+			{!isActive && result && (
+				<div className={`${styles.display} ${result.capped ? styles.capped : ""}`}>
+					<div className={styles.phaseLabel}>{result.capped ? "TIME CAP" : "FINISHED"}</div>
+					<div className={styles.mainTime}>{result.capped ? "CAP" : formatTime(result.time)}</div>
+					<div className={styles.capLabel}>CAP {formatTime(capMinutes * 60)}</div>
+				</div>
+			)}
+
+			{!isActive && !result && (
+				<div className={styles.setup}>
+					<label className={styles.setupLabel} htmlFor="forTimeCap">TIME CAP (minutes)</label>
+					<input
+						id="forTimeCap"
+						className={styles.setupInput}
+						type="number"
+						value={capText}
+						onChange={(e) => setCapText(e.target.value)}
+						onBlur={() => setCapText(String(capMinutes))}
+						min={MIN_CAP_MINUTES}
+						max={MAX_CAP_MINUTES}
+					/>
+					<label className={styles.setupLabel} htmlFor="forTimeWarnings">
+						WARNINGS (seconds before cap)
+					</label>
+					<input
+						id="forTimeWarnings"
+						className={styles.setupInput}
+						type="text"
+						inputMode="numeric"
+						value={warningsText}
+						onChange={(e) => setWarningsText(e.target.value)}
+					/>
+				</div>
+			)}
+
+			<section className={styles.controlsSection}>
+				<div className={styles.statsRow}>
+					<button
+						type="button"
+						className={`${styles.roundBtn} ${styles.finish}`}
+						onClick={finish}
+						disabled={phase !== "work"}
+					>
+						FINISH
+					</button>
+					<div className={styles.centerControl}>
+						<button className={styles.playBtn} onClick={toggle} aria-label={buttonLabel}>
+							{state.isRunning ? (
+								<div className={styles.stopIcon} />
+							) : (
+								<svg className={styles.playIcon} viewBox="0 0 24 24">
+									<polygon points="5,3 19,12 5,21" />
+								</svg>
+							)}
+						</button>
+						<div className={styles.btnLabel}>{buttonLabel}</div>
+					</div>
+					<button type="button" className={`${styles.roundBtn} ${styles.reset}`} onClick={reset}>
+						RESET
+					</button>
+				</div>
+			</section>
+		</>
+	);
+}
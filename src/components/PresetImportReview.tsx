@@ -0,0 +1,77 @@
+/**
+ * Review of a preset file before importing: each entry's errors, and a
+ * choice for each name that's already taken
+ */
+
+import type { ConflictResolution, ImportEntry } from "../services/presetTransfer";
+import styles from "./SettingsModal.module.css";
+
+interface PresetImportReviewProps {
+	entries: ImportEntry[];
+	resolutions: Record<number, ConflictResolution>;
+	onResolve: (index: number, resolution: ConflictResolution) => void;
+	onImport: () => void;
+	onCancel: () => void;
+	importing: boolean;
+}
+
+export function PresetImportReview({
+	entries,
+	resolutions,
+	onResolve,
+	onImport,
+	onCancel,
+	importing,
+}: PresetImportReviewProps) {
+	const importCount = entries.filter(
+		(entry) => entry.profile && (!entry.conflict || resolutions[entry.index] !== "skip"),
+	).length;
+
+	return (
+		<div className={styles.importReview}>
+			{entries.length === 0 && <p className={styles.patternHint}>This file has no presets.</p>}
+			{entries.map((entry) => (
+				<div key={entry.index} className={styles.importEntry}>
+					<div className={styles.clipRow}>
+						<span className={styles.clipName}>
+							{entry.index}. {entry.name || "(no name)"}
+						</span>
+						{entry.error ? null : entry.conflict ? (
+							<select
+								className={styles.settingSelect}
+								value={resolutions[entry.index] ?? "rename"}
+								onChange={(e) => onResolve(entry.index, e.target.value as ConflictResolution)}
+								aria-label={`${entry.name} already exists`}
+							>
+								<option value="rename">Keep both</option>
+								{!entry.conflict.builtIn && <option value="replace">Replace existing</option>}
+								<option value="skip">Skip</option>
+							</select>
+						) : (
+							<span className={styles.patternHint}>New</span>
+						)}
+					</div>
+					{entry.error && <p className={styles.errorText}>{entry.error}</p>}
+					{entry.conflict && !entry.error && (
+						<p className={styles.patternHint}>
+							{entry.conflict.builtIn ? "Same name as a built-in preset" : "You already have a preset with this name"}
+						</p>
+					)}
+				</div>
+			))}
+			<div className={styles.importActions}>
+				<button type="button" className={styles.toggle} onClick={onCancel} disabled={importing}>
+					CANCEL
+				</button>
+				<button
+					type="button"
+					className={`${styles.toggle} ${styles.toggleOn}`}
+					onClick={onImport}
+					disabled={importing || importCount === 0}
+				>
+					{importing ? "IMPORTING..." : `IMPORT ${importCount}`}
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,253 @@
+/**
+ * Presets section of the app settings: rename, favourite, reorder,
+ * duplicate and delete user presets (built-ins can only be duplicated),
+ * and move them between phones as a JSON file.
+ */
+
+import { useRef, useState } from "react";
+import { usePresets } from "../hooks/usePresets";
+import { MAX_PRESET_NAME_LENGTH, type Preset, presetLibrary } from "../services/presetLibrary";
+import {
+	type ConflictResolution,
+	exportPresets,
+	getPresetFileName,
+	type ImportEntry,
+	importPresets,
+	parsePresetFile,
+} from "../services/presetTransfer";
+import { PresetImportReview } from "./PresetImportReview";
+import styles from "./SettingsModal.module.css";
+
+export function PresetManager() {
+	const presets = usePresets();
+	const userPresets = presets.filter((preset) => !preset.builtIn);
+	const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [review, setReview] = useState<ImportEntry[] | null>(null);
+	const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+	const [importing, setImporting] = useState(false);
+	const [importResult, setImportResult] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	// Presets deleted since they were ticked don't count
+	const selectedPresets = userPresets.filter((preset) => selected.has(preset.id));
+
+	/** Run a library action, showing its message if it fails */
+	const run = async (action: () => Promise<unknown>) => {
+		try {
+			await action();
+			setError(null);
+		} catch (err) {
+			setError((err as Error).message);
+		}
+	};
+
+	const commitRename = () => {
+		if (!renaming) return;
+		const { id, name } = renaming;
+		setRenaming(null);
+		run(() => presetLibrary.rename(id, name));
+	};
+
+	const handleDelete = (preset: Preset) => {
+		if (window.confirm(`Delete the preset ${preset.name}?`)) {
+			run(() => presetLibrary.remove(preset.id));
+		}
+	};
+
+	const toggleSelected = (id: string) => {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (!next.delete(id)) next.add(id);
+			return next;
+		});
+	};
+
+	const handleExport = () => {
+		let url: string | undefined;
+		try {
+			const json = exportPresets(selectedPresets.length > 0 ? selectedPresets : userPresets);
+			url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+			const a = document.createElement("a");
+			a.href = url;
+			a.download = getPresetFileName();
+			a.click();
+		} catch (err) {
+			console.error("Failed to export presets:", err);
+		} finally {
+			if (url) URL.revokeObjectURL(url);
+		}
+	};
+
+	const handleFileChosen = async (file: File | undefined) => {
+		if (fileInputRef.current) fileInputRef.current.value = "";
+		if (!file) return;
+		setImportResult(null);
+		try {
+			await presetLibrary.load();
+			setReview(parsePresetFile(await file.text()));
+			setResolutions({});
+			setError(null);
+		} catch (err) {
+			setError((err as Error).message);
+		}
+	};
+
+	const handleImport = async () => {
+		if (!review) return;
+		setImporting(true);
+		try {
+			const { imported, skipped } = await importPresets(review, resolutions);
+			setImportResult(`Imported ${imported} preset${imported === 1 ? "" : "s"}${skipped ? `, skipped ${skipped}` : ""}`);
+			setReview(null);
+			setError(null);
+		} catch (err) {
+			setError((err as Error).message);
+		} finally {
+			setImporting(false);
+		}
+	};
+
+	return (
+		<div className={styles.section}>
+			<h3 className={styles.sectionTitle}>Presets</h3>
+
+			<div className={styles.presetList}>
+				{presets.map((preset) => {
+					const index = userPresets.indexOf(preset);
+					return (
+						<div key={preset.id} className={styles.presetListRow}>
+							{!preset.builtIn && (
+								<input
+									type="checkbox"
+									checked={selected.has(preset.id)}
+									onChange={() => toggleSelected(preset.id)}
+									aria-label={`Select ${preset.name} for export`}
+								/>
+							)}
+							{renaming?.id === preset.id ? (
+								<input
+									className={styles.patternInput}
+									aria-label={`Rename ${preset.name}`}
+									value={renaming.name}
+									maxLength={MAX_PRESET_NAME_LENGTH}
+									autoFocus
+									onChange={(e) => setRenaming({ id: preset.id, name: e.target.value })}
+									onBlur={commitRename}
+									onKeyDown={(e) => {
+										if (e.key === "Enter") commitRename();
+										// Don't let Escape close the whole modal
+										if (e.key === "Escape") {
+											e.stopPropagation();
+											setRenaming(null);
+										}
+									}}
+								/>
+							) : (
+								<button
+									type="button"
+									className={styles.presetListName}
+									disabled={preset.builtIn}
+									onClick={() => setRenaming({ id: preset.id, name: preset.name })}
+									aria-label={preset.builtIn ? preset.name : `Rename ${preset.name}`}
+								>
+									{preset.name}
+									{preset.builtIn && <span className={styles.presetBuiltIn}> built-in</span>}
+								</button>
+							)}
+							<div className={styles.presetActions}>
+								{!preset.builtIn && (
+									<>
+										<button
+											type="button"
+											className={`${styles.presetAction} ${preset.favorite ? styles.presetFavorite : ""}`}
+											onClick={() => run(() => presetLibrary.setFavorite(preset.id, !preset.favorite))}
+											aria-pressed={preset.favorite}
+											aria-label={`Show ${preset.name} as a bubble`}
+										>
+											&#9733;
+										</button>
+										<button
+											type="button"
+											className={styles.presetAction}
+											disabled={index === 0}
+											onClick={() => run(() => presetLibrary.move(preset.id, -1))}
+											aria-label={`Move ${preset.name} up`}
+										>
+											&#8593;
+										</button>
+										<button
+											type="button"
+											className={styles.presetAction}
+											disabled={index === userPresets.length - 1}
+											onClick={() => run(() => presetLibrary.move(preset.id, 1))}
+											aria-label={`Move ${preset.name} down`}
+										>
+											&#8595;
+										</button>
+									</>
+								)}
+								<button
+									type="button"
+									className={styles.presetAction}
+									onClick={() => run(() => presetLibrary.duplicate(preset.id))}
+									aria-label={`Duplicate ${preset.name}`}
+								>
+									&#10697;
+								</button>
+								{!preset.builtIn && (
+									<button
+										type="button"
+										className={styles.roundRemove}
+										onClick={() => handleDelete(preset)}
+										aria-label={`Delete ${preset.name}`}
+									>
+										&times;
+									</button>
+								)}
+							</div>
+						</div>
+					);
+				})}
+			</div>
+			{userPresets.length === 0 && (
+				<p className={styles.patternHint}>Save your own from Timer Settings with "Save as new preset".</p>
+			)}
+			{error && <p className={styles.errorText}>{error}</p>}
+
+			{review ? (
+				<PresetImportReview
+					entries={review}
+					resolutions={resolutions}
+					onResolve={(index, resolution) => setResolutions((prev) => ({ ...prev, [index]: resolution }))}
+					onImport={handleImport}
+					onCancel={() => setReview(null)}
+					importing={importing}
+				/>
+			) : (
+				<div className={styles.presetTransfer}>
+					<button
+						type="button"
+						className={styles.reportBtn}
+						onClick={handleExport}
+						disabled={userPresets.length === 0}
+					>
+						{selectedPresets.length > 0 ? `Export ${selectedPresets.length} Selected` : "Export All Presets"}
+					</button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept="application/json,.json"
+						hidden
+						onChange={(e) => handleFileChosen(e.target.files?.[0])}
+					/>
+					<button type="button" className={styles.reportBtn} onClick={() => fileInputRef.current?.click()}>
+						Import Presets
+					</button>
+				</div>
+			)}
+			{importResult && <p className={styles.patternHint}>{importResult}</p>}
+		</div>
+	);
+}
@@ -1,13 +1,7 @@
+import { useState } from "react";
+import type { Preset } from "../services/presetLibrary";
 import styles from "./PresetSelector.module.css";
 
-export interface Preset {
-	id: string;
-	name: string;
-	workTime: number;
-	restTime: number;
-	rounds: number;
-}
-
 interface PresetSelectorProps {
 	presets: Preset[];
 	activePreset: string;
@@ -15,20 +9,57 @@ interface PresetSelectorProps {
 	onSettingsClick?: () => void;
 }
 
+/** Favourites as bubbles; everything else in a "MORE" list */
 export function PresetSelector({ presets, activePreset, onSelect, onSettingsClick }: PresetSelectorProps) {
+	const [isOverflowOpen, setIsOverflowOpen] = useState(false);
+	const favorites = presets.filter((preset) => preset.favorite);
+	const others = presets.filter((preset) => !preset.favorite);
+	const activeOther = others.find((preset) => preset.id === activePreset);
+
+	const handleSelect = (presetId: string) => {
+		setIsOverflowOpen(false);
+		onSelect(presetId);
+	};
+
 	return (
 		<div className={styles.presetRow}>
 			<div className={styles.presetBubbles}>
-				{presets.map((preset) => (
+				{favorites.map((preset) => (
 					<button
 						key={preset.id}
 						className={`${styles.presetBtn} ${activePreset === preset.id ? styles.active : ""}`}
-						onClick={() => onSelect(preset.id)}
+						onClick={() => handleSelect(preset.id)}
 					>
 						{preset.name}
 					</button>
 				))}
+				{others.length > 0 && (
+					<button
+						className={`${styles.presetBtn} ${activeOther ? styles.active : ""}`}
+						onClick={() => setIsOverflowOpen((prev) => !prev)}
+						aria-expanded={isOverflowOpen}
+						aria-haspopup="listbox"
+					>
+						{activeOther?.name ?? "MORE"} &#9662;
+					</button>
+				)}
 			</div>
+			{isOverflowOpen && (
+				<ul className={styles.overflowList} role="listbox" aria-label="More presets">
+					{others.map((preset) => (
+						<li key={preset.id}>
+							<button
+								role="option"
+								aria-selected={activePreset === preset.id}
+								className={`${styles.overflowItem} ${activePreset === preset.id ? styles.active : ""}`}
+								onClick={() => handleSelect(preset.id)}
+							>
+								{preset.name}
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
 			{onSettingsClick && (
 				<button className={styles.settingsBtn} onClick={onSettingsClick} aria-label="Timer Settings">
 					<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
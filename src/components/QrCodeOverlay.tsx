@@ -0,0 +1,110 @@
+/**
+ * Full-screen QR code for a share link, big enough to scan from across a
+ * gym. Drawn as SVG from the in-app encoder, so it works offline.
+ */
+
+import { useMemo, useRef, useState } from "react";
+import { ERROR_CORRECTION_LEVELS, type ErrorCorrectionLevel, encodeQr } from "../services/qrCode";
+import styles from "./QrCodeOverlay.module.css";
+
+/** Scanners need a light border four modules wide */
+const QUIET_ZONE = 4;
+
+const LEVEL_HINTS: Record<ErrorCorrectionLevel, string> = {
+	L: "Smallest code",
+	M: "Balanced",
+	Q: "Survives glare",
+	H: "Survives smudges and glare",
+};
+
+interface QrCodeOverlayProps {
+	url: string;
+	title: string;
+	onClose: () => void;
+}
+
+export function QrCodeOverlay({ url, title, onClose }: QrCodeOverlayProps) {
+	const [level, setLevel] = useState<ErrorCorrectionLevel>("M");
+	const overlayRef = useRef<HTMLDivElement>(null);
+
+	const qr = useMemo(() => {
+		try {
+			return encodeQr(url, level);
+		} catch {
+			return null;
+		}
+	}, [url, level]);
+
+	// One path for every dark module keeps the DOM small even at version 40
+	const path = useMemo(() => {
+		if (!qr) return "";
+		const parts: string[] = [];
+		qr.modules.forEach((row, y) => {
+			row.forEach((dark, x) => {
+				if (dark) parts.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+			});
+		});
+		return parts.join("");
+	}, [qr]);
+
+	const handleFullScreen = () => {
+		if (document.fullscreenElement) {
+			document.exitFullscreen().catch(() => {});
+		} else {
+			overlayRef.current?.requestFullscreen?.().catch(() => {});
+		}
+	};
+
+	const handleClose = () => {
+		if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+		onClose();
+	};
+
+	const viewSize = (qr?.size ?? 0) + QUIET_ZONE * 2;
+
+	return (
+		<div ref={overlayRef} className={styles.overlay} role="dialog" aria-label={`QR code for ${title}`}>
+			<div className={styles.title}>{title}</div>
+			{qr ? (
+				<svg
+					className={styles.code}
+					viewBox={`0 0 ${viewSize} ${viewSize}`}
+					shapeRendering="crispEdges"
+					role="img"
+					aria-label="Scan to load this workout"
+				>
+					<rect width={viewSize} height={viewSize} fill="#fff" />
+					<path d={path} fill="#000" />
+				</svg>
+			) : (
+				<p className={styles.error}>This workout is too long for a QR code at level {level} - try a lower level.</p>
+			)}
+			<div className={styles.levels} role="radiogroup" aria-label="Error correction">
+				{ERROR_CORRECTION_LEVELS.map((option) => (
+					<button
+						key={option}
+						type="button"
+						role="radio"
+						aria-checked={option === level}
+						className={`${styles.level} ${option === level ? styles.levelActive : ""}`}
+						onClick={() => setLevel(option)}
+						title={LEVEL_HINTS[option]}
+					>
+						{option}
+					</button>
+				))}
+			</div>
+			<p className={styles.hint}>{LEVEL_HINTS[level]}</p>
+			<div className={styles.actions}>
+				{typeof document.documentElement.requestFullscreen === "function" && (
+					<button type="button" className={styles.action} onClick={handleFullScreen}>
+						FULL SCREEN
+					</button>
+				)}
+				<button type="button" className={styles.action} onClick={handleClose}>
+					CLOSE
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,33 @@
+/**
+ * Banner offering to continue a workout interrupted by a reload
+ */
+
+import type { SavedWorkout } from "../services/workoutStorage";
+import styles from "./ResumeBanner.module.css";
+
+interface ResumeBannerProps {
+	workout: SavedWorkout;
+	onResume: () => void;
+	onDiscard: () => void;
+}
+
+export function ResumeBanner({ workout, onResume, onDiscard }: ResumeBannerProps) {
+	const { name } = workout.profile;
+	const { isPaused } = workout.state;
+
+	return (
+		<div className={styles.banner}>
+			<span className={styles.message}>
+				{isPaused ? "Paused" : "Unfinished"} workout: {name}
+			</span>
+			<div className={styles.actions}>
+				<button type="button" className={styles.resumeBtn} onClick={onResume}>
+					Resume
+				</button>
+				<button type="button" className={styles.dismissBtn} onClick={onDiscard}>
+					Discard
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -107,10 +107,8 @@ function TallyGroup({ count, groupIndex }: TallyGroupProps) {
 	);
 }
 
-export function Sets() {
-	const { state, increment, undo, reset } = useSets(15);
-	const { count, maxCount } = state;
-
+/** Hand-drawn tally marks for a count, in struck-through groups of 5 */
+export function TallyMarks({ count }: { count: number }) {
 	// Split count into groups of 5
 	const fullGroups = Math.floor(count / 5);
 	const remainder = count % 5;
@@ -123,6 +121,13 @@ export function Sets() {
 		groups.push(<TallyGroup key={fullGroups} count={remainder} groupIndex={fullGroups} />);
 	}
 
+	return <div className={styles.tallyMarks}>{groups}</div>;
+}
+
+export function Sets() {
+	const { state, increment, undo, reset } = useSets(15);
+	const { count, maxCount } = state;
+
 	const isMaxed = count >= maxCount;
 
 	return (
@@ -143,7 +148,7 @@ export function Sets() {
 				{count === 0 ? (
 					<div className={styles.placeholder}>TAP TO COUNT</div>
 				) : (
-					<div className={styles.tallyMarks}>{groups}</div>
+					<TallyMarks count={count} />
 				)}
 				{isMaxed && (
 					<div className={styles.maxedOut}>MAX REACHED!</div>
@@ -1,20 +1,84 @@
 import { useEffect, useState } from "react";
 import type { TimerProfile } from "../hooks/useTimer";
+import { MAX_PRESET_NAME_LENGTH } from "../services/presetLibrary";
+import {
+	MAX_ACCENT_EVERY,
+	MAX_BPM,
+	MAX_CYCLES,
+	MAX_PHASE_SECONDS,
+	MAX_ROUNDS,
+	validateProfile,
+} from "../services/profileValidation";
+import { getWorkoutAudioFileName, renderWorkoutAudio } from "../services/workoutAudio";
+import { getShareUrl, shareWorkout } from "../services/workoutShare";
+import {
+	type Exercise,
+	getRoundDurations,
+	type Metronome,
+	type RoundDurations,
+	type RoundProgression,
+} from "../services/workoutProgram";
+import { QrCodeOverlay } from "./QrCodeOverlay";
 import styles from "./SettingsModal.module.css";
 
+type ProgressionType = RoundProgression["type"];
+
+const PROGRESSION_OPTIONS: { value: ProgressionType; label: string }[] = [
+	{ value: "constant", label: "Same every round" },
+	{ value: "linear", label: "Linear increase / decrease" },
+	{ value: "pyramid", label: "Pyramid (up, then down)" },
+	{ value: "custom", label: "Custom per round" },
+];
+
+function getSteps(progression: RoundProgression | undefined) {
+	return progression?.type === "linear" || progression?.type === "pyramid"
+		? { workStep: progression.workStep, restStep: progression.restStep }
+		: { workStep: 10, restStep: 0 };
+}
+
+/** A number input's value; NaN when cleared, so validation reports it rather than saving 0 */
+function parseField(value: string): number {
+	return value.trim() === "" ? Number.NaN : Number(value);
+}
+
+/** Show a cleared field as empty */
+function fieldValue(value: number): number | "" {
+	return Number.isNaN(value) ? "" : value;
+}
+
 interface TimerSettingsModalProps {
 	isOpen: boolean;
 	profile: TimerProfile;
 	onClose: () => void;
 	onSave: (profile: TimerProfile) => void;
+	/** Rejects with a message to show (e.g. the name is taken) */
+	onSaveAsPreset: (name: string, profile: TimerProfile) => Promise<void>;
 }
 
-export function TimerSettingsModal({ isOpen, profile, onClose, onSave }: TimerSettingsModalProps) {
+export function TimerSettingsModal({ isOpen, profile, onClose, onSave, onSaveAsPreset }: TimerSettingsModalProps) {
 	const [workTime, setWorkTime] = useState(profile.workTime);
 	const [restTime, setRestTime] = useState(profile.restTime);
 	const [rounds, setRounds] = useState(profile.rounds);
 	const [cycles, setCycles] = useState(profile.cycles);
+	const [cycleRestTime, setCycleRestTime] = useState(profile.cycleRestTime);
 	const [prepTime, setPrepTime] = useState(profile.prepTime);
+	const [progressionType, setProgressionType] = useState<ProgressionType>(profile.progression?.type ?? "constant");
+	const [workStep, setWorkStep] = useState(getSteps(profile.progression).workStep);
+	const [restStep, setRestStep] = useState(getSteps(profile.progression).restStep);
+	const [customRounds, setCustomRounds] = useState<RoundDurations[]>(() => getRoundDurations(profile));
+	const [exercises, setExercises] = useState<Exercise[]>(profile.exercises ?? []);
+	const [bpm, setBpm] = useState(profile.metronome?.bpm ?? 0);
+	const [accentEvery, setAccentEvery] = useState(profile.metronome?.accentEvery ?? 0);
+	// A custom program (shared or imported) runs as-is until the user swaps it for interval settings
+	const [keepProgram, setKeepProgram] = useState(Boolean(profile.program));
+	const [exportTicks, setExportTicks] = useState(false);
+	const [exportStatus, setExportStatus] = useState<"idle" | "rendering" | "error">("idle");
+	const [shareStatus, setShareStatus] = useState<"idle" | "copied" | "error">("idle");
+	const [qrProfile, setQrProfile] = useState<TimerProfile | null>(null);
+	const [presetName, setPresetName] = useState("");
+	const [presetError, setPresetError] = useState<string | null>(null);
+	/** Why the settings can't be saved or shared as they stand */
+	const [formError, setFormError] = useState<string | null>(null);
 
 	// Sync state when profile changes (e.g., preset selection)
 	useEffect(() => {
@@ -22,33 +86,172 @@ export function TimerSettingsModal({ isOpen, profile, onClose, onSave }: TimerSe
 		setRestTime(profile.restTime);
 		setRounds(profile.rounds);
 		setCycles(profile.cycles);
+		setCycleRestTime(profile.cycleRestTime);
 		setPrepTime(profile.prepTime);
+		setProgressionType(profile.progression?.type ?? "constant");
+		setWorkStep(getSteps(profile.progression).workStep);
+		setRestStep(getSteps(profile.progression).restStep);
+		setCustomRounds(getRoundDurations(profile));
+		setExercises(profile.exercises ?? []);
+		setBpm(profile.metronome?.bpm ?? 0);
+		setAccentEvery(profile.metronome?.accentEvery ?? 0);
+		setKeepProgram(Boolean(profile.program));
+		setFormError(null);
 	}, [profile]);
 
 	// Handle Escape key to close modal
 	useEffect(() => {
 		if (!isOpen) return;
 		const handleEscape = (e: KeyboardEvent) => {
-			if (e.key === "Escape") onClose();
+			if (e.key !== "Escape") return;
+			// Escape backs out of the QR code before the settings
+			if (qrProfile) {
+				setQrProfile(null);
+			} else {
+				onClose();
+			}
 		};
 		document.addEventListener("keydown", handleEscape);
 		return () => document.removeEventListener("keydown", handleEscape);
-	}, [isOpen, onClose]);
+	}, [isOpen, onClose, qrProfile]);
 
 	if (!isOpen) return null;
 
-	const handleSave = () => {
-		onSave({
+	const isCustom = progressionType === "custom";
+
+	const getProgression = (): RoundProgression | undefined => {
+		switch (progressionType) {
+			case "linear":
+			case "pyramid":
+				return { type: progressionType, workStep, restStep };
+			case "custom":
+				return { type: "custom", rounds: customRounds };
+			default:
+				return undefined;
+		}
+	};
+
+	const roundDurations = getRoundDurations({ workTime, restTime, rounds, progression: getProgression() });
+	const roundCount = isCustom ? customRounds.length : rounds;
+
+	const handleProgressionChange = (type: ProgressionType) => {
+		// Start the table from whatever the current settings produce
+		if (type === "custom" && !isCustom) {
+			setCustomRounds(roundDurations);
+		}
+		setProgressionType(type);
+	};
+
+	const updateCustomRound = (index: number, changes: Partial<RoundDurations>) => {
+		setCustomRounds((prev) => prev.map((round, i) => (i === index ? { ...round, ...changes } : round)));
+	};
+
+	const updateExercise = (index: number, changes: Partial<Exercise>) => {
+		setExercises((prev) => {
+			const next = Array.from({ length: Math.max(prev.length, index + 1) }, (_, i) => prev[i] ?? { name: "" });
+			next[index] = { ...next[index], ...changes };
+			return next;
+		});
+	};
+
+	/** Exercises for the rounds that exist; none if every name is blank */
+	const getExercises = (): Exercise[] | undefined => {
+		const trimmed = Array.from({ length: roundCount }, (_, i): Exercise => {
+			const name = exercises[i]?.name.trim() ?? "";
+			const notes = exercises[i]?.notes?.trim();
+			return notes ? { name, notes } : { name };
+		});
+		return trimmed.some((exercise) => exercise.name) ? trimmed : undefined;
+	};
+
+	/** Off at 0 BPM; no accents below every 2nd beat */
+	const getMetronome = (): Metronome | undefined => {
+		if (bpm <= 0) return undefined;
+		const clamped = Math.min(Math.round(bpm), MAX_BPM);
+		return accentEvery >= 2 ? { bpm: clamped, accentEvery: Math.round(accentEvery) } : { bpm: clamped };
+	};
+
+	// A kept program is saved untouched; otherwise the interval settings
+	// replace any custom program with the generated one
+	const getProfile = (): TimerProfile => {
+		if (keepProgram) return profile;
+		return {
 			...profile,
+			program: undefined,
 			workTime,
 			restTime,
-			rounds,
+			rounds: isCustom ? customRounds.length : rounds,
 			cycles,
+			cycleRestTime,
 			prepTime,
-		});
+			progression: getProgression(),
+			exercises: getExercises(),
+			metronome: getMetronome(),
+		};
+	};
+
+	/** The edited profile, checked like shared and imported ones; null (with the problem shown) if invalid */
+	const getValidProfile = (): TimerProfile | null => {
+		try {
+			const valid = validateProfile(getProfile());
+			setFormError(null);
+			return valid;
+		} catch (error) {
+			setFormError((error as Error).message);
+			return null;
+		}
+	};
+
+	const handleSave = () => {
+		const draft = getValidProfile();
+		if (!draft) return;
+		onSave(draft);
 		onClose();
 	};
 
+	const handleSaveAsPreset = async () => {
+		try {
+			await onSaveAsPreset(presetName, validateProfile(getProfile()));
+			setPresetName("");
+			setPresetError(null);
+			onClose();
+		} catch (error) {
+			setPresetError((error as Error).message);
+		}
+	};
+
+	const handleShare = async () => {
+		const draft = getValidProfile();
+		if (!draft) return;
+		try {
+			const result = await shareWorkout(draft);
+			setShareStatus(result === "copied" ? "copied" : "idle");
+		} catch {
+			setShareStatus("error");
+		}
+	};
+
+	const handleDownloadAudio = async () => {
+		const draft = getValidProfile();
+		if (!draft) return;
+		setExportStatus("rendering");
+		let url: string | undefined;
+		try {
+			const blob = await renderWorkoutAudio(draft, { ticks: exportTicks });
+			url = URL.createObjectURL(blob);
+			const a = document.createElement("a");
+			a.href = url;
+			a.download = getWorkoutAudioFileName(draft);
+			a.click();
+			setExportStatus("idle");
+		} catch (error) {
+			console.error("Failed to render workout audio:", error);
+			setExportStatus("error");
+		} finally {
+			if (url) URL.revokeObjectURL(url);
+		}
+	};
+
 	const handleOverlayClick = (e: React.MouseEvent) => {
 		if (e.target === e.currentTarget) {
 			onClose();
@@ -65,76 +268,318 @@ export function TimerSettingsModal({ isOpen, profile, onClose, onSave }: TimerSe
 					</button>
 				</div>
 				<div className={styles.modalBody}>
-					<div className={styles.settingGroup}>
-						<label className={styles.settingLabel} htmlFor="workTime">WORK TIME (seconds)</label>
-						<div className={styles.settingInput}>
-							<input
-								id="workTime"
-								type="number"
-								value={workTime}
-								onChange={(e) => setWorkTime(Number(e.target.value))}
-								min="1"
-								max="600"
-							/>
+					{keepProgram ? (
+						<div className={styles.settingGroup}>
+							<p className={styles.patternHint}>
+								This workout runs a custom program, so interval settings don't apply to it.
+							</p>
+							<button type="button" className={styles.reportBtn} onClick={() => setKeepProgram(false)}>
+								REPLACE WITH INTERVALS
+							</button>
 						</div>
-					</div>
-					<div className={styles.settingGroup}>
-						<label className={styles.settingLabel} htmlFor="restTime">REST TIME (seconds)</label>
-						<div className={styles.settingInput}>
-							<input
-								id="restTime"
-								type="number"
-								value={restTime}
-								onChange={(e) => setRestTime(Number(e.target.value))}
-								min="1"
-								max="600"
-							/>
+					) : (
+						<>
+						<div className={styles.settingGroup}>
+							<label className={styles.settingLabel} htmlFor="progression">ROUND DURATIONS</label>
+							<div className={styles.settingInput}>
+								<select
+									id="progression"
+									value={progressionType}
+									onChange={(e) => handleProgressionChange(e.target.value as ProgressionType)}
+								>
+									{PROGRESSION_OPTIONS.map((option) => (
+										<option key={option.value} value={option.value}>
+											{option.label}
+										</option>
+									))}
+								</select>
+							</div>
 						</div>
-					</div>
+						{isCustom ? (
+							<div className={styles.settingGroup}>
+								<div className={styles.roundTable}>
+									<div className={`${styles.roundRow} ${styles.settingLabel}`}>
+										<span>ROUND</span>
+										<span>WORK</span>
+										<span>REST</span>
+										<span />
+									</div>
+									{customRounds.map((round, i) => (
+										<div key={i} className={styles.roundRow}>
+											<span className={styles.roundNumber}>{i + 1}</span>
+											<input
+												type="number"
+												aria-label={`Round ${i + 1} work`}
+												value={fieldValue(round.work)}
+												onChange={(e) => updateCustomRound(i, { work: parseField(e.target.value) })}
+												min="1"
+												max={MAX_PHASE_SECONDS}
+											/>
+											<input
+												type="number"
+												aria-label={`Round ${i + 1} rest`}
+												value={fieldValue(round.rest)}
+												onChange={(e) => updateCustomRound(i, { rest: parseField(e.target.value) })}
+												min="0"
+												max={MAX_PHASE_SECONDS}
+											/>
+											<button
+												type="button"
+												className={styles.roundRemove}
+												aria-label={`Remove round ${i + 1}`}
+												disabled={customRounds.length <= 1}
+												onClick={() => setCustomRounds((prev) => prev.filter((_, j) => j !== i))}
+											>
+												&times;
+											</button>
+										</div>
+									))}
+								</div>
+								<button
+									type="button"
+									className={styles.reportBtn}
+									onClick={() =>
+										// New rounds copy the last one
+										setCustomRounds((prev) => [...prev, prev[prev.length - 1] ?? { work: workTime, rest: restTime }])
+									}
+									disabled={customRounds.length >= MAX_ROUNDS}
+								>
+									ADD ROUND
+								</button>
+							</div>
+						) : (
+							<>
+								<div className={styles.settingGroup}>
+									<label className={styles.settingLabel} htmlFor="workTime">WORK TIME (seconds)</label>
+									<div className={styles.settingInput}>
+										<input
+											id="workTime"
+											type="number"
+											value={fieldValue(workTime)}
+											onChange={(e) => setWorkTime(parseField(e.target.value))}
+											min="1"
+											max={MAX_PHASE_SECONDS}
+										/>
+									</div>
+								</div>
+								<div className={styles.settingGroup}>
+									<label className={styles.settingLabel} htmlFor="restTime">REST TIME (seconds)</label>
+									<div className={styles.settingInput}>
+										<input
+											id="restTime"
+											type="number"
+											value={fieldValue(restTime)}
+											onChange={(e) => setRestTime(parseField(e.target.value))}
+											min="0"
+											max={MAX_PHASE_SECONDS}
+										/>
+									</div>
+								</div>
+								<div className={styles.settingGroup}>
+									<label className={styles.settingLabel} htmlFor="rounds">ROUNDS</label>
+									<div className={styles.settingInput}>
+										<input
+											id="rounds"
+											type="number"
+											value={fieldValue(rounds)}
+											onChange={(e) => setRounds(parseField(e.target.value))}
+											min="1"
+											max={MAX_ROUNDS}
+										/>
+									</div>
+								</div>
+								{progressionType !== "constant" && (
+									<>
+										<div className={styles.settingGroup}>
+											<label className={styles.settingLabel} htmlFor="workStep">WORK CHANGE PER ROUND (seconds)</label>
+											<div className={styles.settingInput}>
+												<input
+													id="workStep"
+													type="number"
+													value={fieldValue(workStep)}
+													onChange={(e) => setWorkStep(parseField(e.target.value))}
+													min={-MAX_PHASE_SECONDS}
+													max={MAX_PHASE_SECONDS}
+												/>
+											</div>
+										</div>
+										<div className={styles.settingGroup}>
+											<label className={styles.settingLabel} htmlFor="restStep">REST CHANGE PER ROUND (seconds)</label>
+											<div className={styles.settingInput}>
+												<input
+													id="restStep"
+													type="number"
+													value={fieldValue(restStep)}
+													onChange={(e) => setRestStep(parseField(e.target.value))}
+													min={-MAX_PHASE_SECONDS}
+													max={MAX_PHASE_SECONDS}
+												/>
+											</div>
+										</div>
+										<p className={styles.roundPreview}>
+											{roundDurations.map((round) => `${round.work}/${round.rest}`).join(" · ")}
+										</p>
+									</>
+								)}
+							</>
+						)}
+						<div className={styles.settingGroup}>
+							<label className={styles.settingLabel} htmlFor="bpm">CADENCE DURING WORK (BPM, 0 = off)</label>
+							<div className={styles.settingInput}>
+								<input
+									id="bpm"
+									type="number"
+									value={fieldValue(bpm)}
+									onChange={(e) => setBpm(parseField(e.target.value))}
+									min="0"
+									max={MAX_BPM}
+								/>
+							</div>
+						</div>
+						{bpm > 0 && (
+							<div className={styles.settingGroup}>
+								<label className={styles.settingLabel} htmlFor="accentEvery">ACCENT EVERY (beats, 0 = none)</label>
+								<div className={styles.settingInput}>
+									<input
+										id="accentEvery"
+										type="number"
+										value={fieldValue(accentEvery)}
+										onChange={(e) => setAccentEvery(parseField(e.target.value))}
+										min="0"
+										max={MAX_ACCENT_EVERY}
+									/>
+								</div>
+							</div>
+						)}
+						<div className={styles.settingGroup}>
+							<span className={styles.settingLabel}>EXERCISES (optional)</span>
+							<div className={styles.exerciseList}>
+								{Array.from({ length: roundCount }, (_, i) => (
+									<div key={i} className={styles.exerciseRow}>
+										<span className={styles.roundNumber}>{i + 1}</span>
+										<input
+											type="text"
+											aria-label={`Round ${i + 1} exercise`}
+											placeholder="Exercise"
+											value={exercises[i]?.name ?? ""}
+											onChange={(e) => updateExercise(i, { name: e.target.value })}
+										/>
+										<input
+											type="text"
+											aria-label={`Round ${i + 1} notes`}
+											placeholder="Notes"
+											value={exercises[i]?.notes ?? ""}
+											onChange={(e) => updateExercise(i, { notes: e.target.value })}
+										/>
+									</div>
+								))}
+							</div>
+						</div>
+						<div className={styles.settingGroup}>
+							<label className={styles.settingLabel} htmlFor="cycles">CYCLES</label>
+							<div className={styles.settingInput}>
+								<input
+									id="cycles"
+									type="number"
+									value={fieldValue(cycles)}
+									onChange={(e) => setCycles(parseField(e.target.value))}
+									min="1"
+									max={MAX_CYCLES}
+								/>
+							</div>
+						</div>
+						<div className={styles.settingGroup}>
+							<label className={styles.settingLabel} htmlFor="cycleRestTime">REST BETWEEN CYCLES (seconds)</label>
+							<div className={styles.settingInput}>
+								<input
+									id="cycleRestTime"
+									type="number"
+									value={fieldValue(cycleRestTime)}
+									onChange={(e) => setCycleRestTime(parseField(e.target.value))}
+									min="0"
+									max={MAX_PHASE_SECONDS}
+								/>
+							</div>
+						</div>
+						<div className={styles.settingGroup}>
+							<label className={styles.settingLabel} htmlFor="prepTime">PREP TIME (seconds)</label>
+							<div className={styles.settingInput}>
+								<input
+									id="prepTime"
+									type="number"
+									value={fieldValue(prepTime)}
+									onChange={(e) => setPrepTime(parseField(e.target.value))}
+									min="0"
+									max={MAX_PHASE_SECONDS}
+								/>
+							</div>
+						</div>
+						</>
+					)}
 					<div className={styles.settingGroup}>
-						<label className={styles.settingLabel} htmlFor="rounds">ROUNDS</label>
-						<div className={styles.settingInput}>
-							<input
-								id="rounds"
-								type="number"
-								value={rounds}
-								onChange={(e) => setRounds(Number(e.target.value))}
-								min="1"
-								max="50"
-							/>
+						<span className={styles.settingLabel}>AUDIO FILE</span>
+						<div className={styles.settingRow}>
+							<span>Metronome ticks during work</span>
+							<button
+								type="button"
+								className={`${styles.toggle} ${exportTicks ? styles.toggleOn : ""}`}
+								onClick={() => setExportTicks((prev) => !prev)}
+								aria-pressed={exportTicks}
+							>
+								{exportTicks ? "ON" : "OFF"}
+							</button>
 						</div>
+						<button
+							type="button"
+							className={styles.reportBtn}
+							onClick={handleDownloadAudio}
+							disabled={exportStatus === "rendering"}
+						>
+							{exportStatus === "rendering" ? "RENDERING..." : "DOWNLOAD AUDIO"}
+						</button>
+						{exportStatus === "error" && (
+							<p className={styles.errorText}>Couldn't create the audio file in this browser</p>
+						)}
 					</div>
 					<div className={styles.settingGroup}>
-						<label className={styles.settingLabel} htmlFor="cycles">CYCLES</label>
-						<div className={styles.settingInput}>
-							<input
-								id="cycles"
-								type="number"
-								value={cycles}
-								onChange={(e) => setCycles(Number(e.target.value))}
-								min="1"
-								max="10"
-							/>
+						<span className={styles.settingLabel}>SHARE</span>
+						<div className={styles.shareButtons}>
+							<button type="button" className={styles.reportBtn} onClick={handleShare}>
+								SHARE LINK
+							</button>
+							<button type="button" className={styles.reportBtn} onClick={() => setQrProfile(getValidProfile())}>
+								SHOW QR
+							</button>
 						</div>
+						{shareStatus === "copied" && <p className={styles.patternHint}>Link copied - paste it to a teammate</p>}
+						{shareStatus === "error" && <p className={styles.errorText}>Couldn't share or copy the link</p>}
 					</div>
-					<div className={styles.settingGroup}>
-						<label className={styles.settingLabel} htmlFor="prepTime">PREP TIME (seconds)</label>
+					{formError && <p className={styles.errorText}>{formError}</p>}
+					<button className={styles.modalSave} onClick={handleSave}>
+						SAVE SETTINGS
+					</button>
+					<div className={styles.presetSave}>
+						<label className={styles.settingLabel} htmlFor="presetName">SAVE AS NEW PRESET</label>
 						<div className={styles.settingInput}>
 							<input
-								id="prepTime"
-								type="number"
-								value={prepTime}
-								onChange={(e) => setPrepTime(Number(e.target.value))}
-								min="0"
-								max="60"
+								id="presetName"
+								type="text"
+								placeholder="Preset name"
+								value={presetName}
+								maxLength={MAX_PRESET_NAME_LENGTH}
+								onChange={(e) => setPresetName(e.target.value)}
 							/>
+							<button type="button" className={styles.toggle} onClick={handleSaveAsPreset} disabled={!presetName.trim()}>
+								SAVE
+							</button>
 						</div>
+						{presetError && <p className={styles.errorText}>{presetError}</p>}
 					</div>
-					<button className={styles.modalSave} onClick={handleSave}>
-						SAVE SETTINGS
-					</button>
 				</div>
 			</div>
+			{qrProfile && (
+				<QrCodeOverlay url={getShareUrl(qrProfile)} title={qrProfile.name} onClose={() => setQrProfile(null)} />
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,53 @@
+/**
+ * Banner asking whether to load a workout opened from a shared link
+ */
+
+import { formatTime, type TimerProfile } from "../hooks/useTimer";
+import { flattenProgram, getProfileProgram, programDuration } from "../services/workoutProgram";
+import styles from "./ResumeBanner.module.css";
+
+export type SharedWorkout = { profile: TimerProfile } | { error: string };
+
+interface SharedWorkoutBannerProps {
+	shared: SharedWorkout;
+	onLoad: () => void;
+	onSaveAsPreset: () => void;
+	onDismiss: () => void;
+}
+
+export function SharedWorkoutBanner({ shared, onLoad, onSaveAsPreset, onDismiss }: SharedWorkoutBannerProps) {
+	if ("error" in shared) {
+		return (
+			<div className={styles.banner} role="alert">
+				<span className={styles.message}>{shared.error}</span>
+				<div className={styles.actions}>
+					<button type="button" className={styles.dismissBtn} onClick={onDismiss}>
+						Dismiss
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	const { profile } = shared;
+	const duration = programDuration(flattenProgram(getProfileProgram(profile)));
+
+	return (
+		<div className={styles.banner}>
+			<span className={styles.message}>
+				Load shared workout? {profile.name} ({formatTime(duration)})
+			</span>
+			<div className={styles.actions}>
+				<button type="button" className={styles.resumeBtn} onClick={onLoad}>
+					Load
+				</button>
+				<button type="button" className={styles.dismissBtn} onClick={onSaveAsPreset}>
+					Save as preset
+				</button>
+				<button type="button" className={styles.dismissBtn} onClick={onDismiss}>
+					Dismiss
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -1,3 +1,4 @@
+import { useMediaSession } from "../hooks/useMediaSession";
 import { formatStopwatchTime, useStopwatch } from "../hooks/useStopwatch";
 import styles from "./Stopwatch.module.css";
 
@@ -5,6 +6,14 @@ export function Stopwatch() {
 	const { state, toggle, reset, lap } = useStopwatch();
 	const time = formatStopwatchTime(state.elapsedMs);
 
+	// Lock screen / headset controls; next-track takes a lap
+	useMediaSession(
+		state.isRunning || state.elapsedMs > 0
+			? { title: `Lap ${state.laps.length + 1}`, artist: "Stopwatch", playing: state.isRunning }
+			: null,
+		{ toggle, next: lap },
+	);
+
 	return (
 		<>
 			<div className={styles.stopwatchDisplay}>
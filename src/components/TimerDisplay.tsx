@@ -1,27 +1,49 @@
 import type { Phase } from "../hooks/useTimer";
+import { type Exercise, SEGMENT_LABELS } from "../services/workoutProgram";
 import styles from "./TimerDisplay.module.css";
 
 interface TimerDisplayProps {
 	phase: Phase;
+	/** Overrides the default label for the current phase */
+	label?: string;
+	/** Exercise for the current segment, shown large above the time */
+	exercise?: Exercise;
 	mainTime: string;
 	previewTime: string;
 	previewLabel: string;
+	/** Next exercise coming up, shown in the preview */
+	nextExercise?: Exercise;
 }
 
-export function TimerDisplay({ phase, mainTime, previewTime, previewLabel }: TimerDisplayProps) {
-	const isResting = phase === "rest";
-	// Only show label during active phases (prep, work, rest, done), not idle
-	const phaseLabel = phase === "prep" ? "GET READY" : phase === "done" ? "DONE!" : phase === "idle" ? "" : phase.toUpperCase();
+export function TimerDisplay({
+	phase,
+	label,
+	exercise,
+	mainTime,
+	previewTime,
+	previewLabel,
+	nextExercise,
+}: TimerDisplayProps) {
+	const isResting = phase === "rest" || phase === "cycleRest";
+	// Only show label during active phases, not idle
+	const phaseLabel = phase === "idle" ? "" : phase === "done" ? "DONE!" : label ?? SEGMENT_LABELS[phase];
 
 	return (
 		<main className={styles.timerDisplay}>
 			<div className={`${styles.workSection} ${isResting ? styles.resting : ""}`}>
 				{phaseLabel && <div className={styles.phaseLabel}>{phaseLabel}</div>}
+				{exercise && (
+					<>
+						<div className={styles.exerciseName}>{exercise.name}</div>
+						{exercise.notes && <div className={styles.exerciseNotes}>{exercise.notes}</div>}
+					</>
+				)}
 				<div className={styles.mainTime}>{mainTime}</div>
 			</div>
 			<div className={`${styles.restPreview} ${isResting ? styles.working : ""}`}>
 				<div className={styles.restPreviewLabel}>{previewLabel}</div>
 				<div className={styles.restPreviewTime}>{previewTime}</div>
+				{nextExercise && <div className={styles.upNext}>UP NEXT: {nextExercise.name}</div>}
 			</div>
 		</main>
 	);
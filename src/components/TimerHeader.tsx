@@ -3,11 +3,20 @@ import styles from "./TimerHeader.module.css";
 interface TimerHeaderProps {
 	profileName: string;
 	totalTime: string;
+	currentCycle: number;
+	totalCycles: number;
 	onSettingsClick: () => void;
 	onResetClick: () => void;
 }
 
-export function TimerHeader({ profileName, totalTime, onSettingsClick, onResetClick }: TimerHeaderProps) {
+export function TimerHeader({
+	profileName,
+	totalTime,
+	currentCycle,
+	totalCycles,
+	onSettingsClick,
+	onResetClick,
+}: TimerHeaderProps) {
 	return (
 		<div className={styles.timerHeader}>
 			<button className={styles.headerBtn} onClick={onSettingsClick} aria-label="App Settings">
@@ -17,7 +26,10 @@ export function TimerHeader({ profileName, totalTime, onSettingsClick, onResetCl
 				</svg>
 			</button>
 			<div className={styles.headerCenter}>
-				<div className={styles.profileName}>{profileName}</div>
+				<div className={styles.profileName}>
+					{profileName}
+					{totalCycles > 1 && ` · CYCLE ${currentCycle}/${totalCycles}`}
+				</div>
 				<div className={styles.totalTime}>{totalTime}</div>
 			</div>
 			<button className={styles.headerBtn} onClick={onResetClick} aria-label="Reset Timer">
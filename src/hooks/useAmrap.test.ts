@@ -0,0 +1,119 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formatAmrapScore, useAmrap } from "./useAmrap";
+
+// AMRAP prep countdown before the clock starts
+const PREP_MS = 10000;
+
+describe("useAmrap", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function startClock(capTime = 60) {
+		const hook = renderHook(() => useAmrap(capTime));
+		act(() => {
+			hook.result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(PREP_MS);
+		});
+		return hook;
+	}
+
+	function completeRoundAfter(result: { current: ReturnType<typeof useAmrap> }, ms: number) {
+		act(() => {
+			vi.advanceTimersByTime(ms);
+		});
+		act(() => {
+			result.current.completeRound();
+		});
+	}
+
+	it("should count down from the time cap after prep", () => {
+		const { result } = startClock();
+
+		expect(result.current.state.phase).toBe("work");
+		expect(result.current.state.timeLeft).toBe(60);
+	});
+
+	it("should record rounds with splits and average", () => {
+		const { result } = startClock();
+
+		completeRoundAfter(result, 12000);
+		completeRoundAfter(result, 15000);
+		completeRoundAfter(result, 9000);
+
+		expect(result.current.state.roundsCompleted).toBe(3);
+		expect(result.current.state.roundTimes).toEqual([12, 27, 36]);
+		expect(result.current.state.splits).toEqual([12, 15, 9]);
+		expect(result.current.state.averageRoundTime).toBe(12);
+	});
+
+	it("should ignore taps during prep", () => {
+		const { result } = renderHook(() => useAmrap(60));
+
+		act(() => {
+			result.current.toggle();
+		});
+		act(() => {
+			result.current.completeRound();
+		});
+
+		expect(result.current.state.roundsCompleted).toBe(0);
+	});
+
+	it("should undo the last round", () => {
+		const { result } = startClock();
+
+		completeRoundAfter(result, 10000);
+		completeRoundAfter(result, 10000);
+		act(() => {
+			result.current.undoRound();
+		});
+
+		expect(result.current.state.roundTimes).toEqual([10]);
+	});
+
+	it("should stop at the cap and accept leftover reps", () => {
+		const { result } = startClock(30);
+
+		completeRoundAfter(result, 14000);
+		act(() => {
+			vi.advanceTimersByTime(20000);
+		});
+
+		expect(result.current.state.phase).toBe("done");
+		expect(result.current.state.workElapsed).toBe(30);
+
+		act(() => {
+			result.current.setExtraReps(7);
+		});
+		expect(result.current.state.extraReps).toBe(7);
+
+		act(() => {
+			result.current.setExtraReps(-3);
+		});
+		expect(result.current.state.extraReps).toBe(0);
+	});
+
+	it("should clear the score on reset", () => {
+		const { result } = startClock();
+
+		completeRoundAfter(result, 5000);
+		act(() => {
+			result.current.reset();
+		});
+
+		expect(result.current.state.phase).toBe("idle");
+		expect(result.current.state.roundsCompleted).toBe(0);
+	});
+
+	it("should format the score as rounds + reps", () => {
+		expect(formatAmrapScore(7, 12)).toBe("7 + 12");
+	});
+});
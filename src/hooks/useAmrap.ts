@@ -0,0 +1,105 @@
+import { useCallback, useMemo, useState } from "react";
+import { type TimerProfile, type TimerState, useTimer } from "./useTimer";
+
+/** Countdown before the clock starts */
+const AMRAP_PREP_TIME = 10;
+
+export interface AmrapState extends TimerState {
+	/** Seconds into the workout at which each round was completed */
+	roundTimes: number[];
+	/** Time taken for each round (differences between round times) */
+	splits: number[];
+	roundsCompleted: number;
+	/** Average seconds per completed round; 0 until the first round */
+	averageRoundTime: number;
+	/** Reps into the unfinished round, entered after the cap */
+	extraReps: number;
+	/** Seconds since the clock started (excluding prep) */
+	workElapsed: number;
+}
+
+/** AMRAP score: full rounds plus reps into the next one, e.g. "7 + 12" */
+export function formatAmrapScore(rounds: number, reps: number): string {
+	return `${rounds} + ${reps}`;
+}
+
+/**
+ * As-many-rounds-as-possible timer.
+ *
+ * One capped work segment on useTimer (same wall-clock timing, countdown
+ * and finish cues). The athlete taps each time a round is completed.
+ */
+export function useAmrap(capTime: number) {
+	const profile = useMemo<TimerProfile>(
+		() => ({
+			name: "AMRAP",
+			workTime: capTime,
+			restTime: 0,
+			rounds: 1,
+			cycles: 1,
+			cycleRestTime: 0,
+			prepTime: AMRAP_PREP_TIME,
+		}),
+		[capTime],
+	);
+
+	const { state: timerState, toggle: toggleTimer, reset: resetTimer } = useTimer(profile);
+	const [roundTimes, setRoundTimes] = useState<number[]>([]);
+	const [extraReps, setExtraReps] = useState(0);
+
+	const { phase, isRunning, timeLeft } = timerState;
+	const workElapsed = phase === "work" ? capTime - timeLeft : phase === "done" ? capTime : 0;
+
+	const toggle = useCallback(() => {
+		// Fresh start (not resume) - clear the previous score
+		if (phase === "idle" || phase === "done") {
+			setRoundTimes([]);
+			setExtraReps(0);
+		}
+		toggleTimer();
+	}, [phase, toggleTimer]);
+
+	const reset = useCallback(() => {
+		resetTimer();
+		setRoundTimes([]);
+		setExtraReps(0);
+	}, [resetTimer]);
+
+	/** Record a completed round at the current time */
+	const completeRound = useCallback(() => {
+		if (phase !== "work" || !isRunning) return;
+		setRoundTimes((prev) => [...prev, workElapsed]);
+	}, [phase, isRunning, workElapsed]);
+
+	/** Remove the last round (mis-tap) */
+	const undoRound = useCallback(() => {
+		setRoundTimes((prev) => prev.slice(0, -1));
+	}, []);
+
+	/** Set leftover reps for the final, unfinished round */
+	const updateExtraReps = useCallback((reps: number) => {
+		setExtraReps(Math.max(0, reps));
+	}, []);
+
+	const splits = roundTimes.map((time, i) => time - (i === 0 ? 0 : roundTimes[i - 1]));
+	const roundsCompleted = roundTimes.length;
+
+	const state: AmrapState = {
+		...timerState,
+		roundTimes,
+		splits,
+		roundsCompleted,
+		averageRoundTime: roundsCompleted > 0 ? roundTimes[roundsCompleted - 1] / roundsCompleted : 0,
+		extraReps,
+		workElapsed,
+	};
+
+	return {
+		state,
+		toggle,
+		reset,
+		completeRound,
+		undoRound,
+		setExtraReps: updateExtraReps,
+	};
+}
@@ -0,0 +1,166 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type EmomSettings, useEmom } from "./useEmom";
+
+const settings: EmomSettings = { intervalTime: 10, intervals: 3 };
+
+// EMOM prep countdown before the first interval
+const PREP_MS = 5000;
+
+describe("useEmom", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function startInFirstInterval() {
+		const hook = renderHook(() => useEmom(settings));
+		act(() => {
+			hook.result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(PREP_MS);
+		});
+		return hook;
+	}
+
+	it("should run back-to-back intervals with no rest phase", () => {
+		const { result } = startInFirstInterval();
+
+		expect(result.current.state.phase).toBe("work");
+		expect(result.current.state.currentRound).toBe(1);
+		expect(result.current.state.totalRounds).toBe(3);
+
+		act(() => {
+			vi.advanceTimersByTime(10000);
+		});
+
+		expect(result.current.state.phase).toBe("work");
+		expect(result.current.state.currentRound).toBe(2);
+	});
+
+	it("should record the split when work is marked finished", () => {
+		const { result } = startInFirstInterval();
+
+		act(() => {
+			vi.advanceTimersByTime(7000);
+		});
+		act(() => {
+			result.current.markWorkDone();
+		});
+
+		expect(result.current.state.isWorkDone).toBe(true);
+		expect(result.current.state.splits[0]).toBe(7);
+		// Display switches to the rest remaining in the interval
+		expect(result.current.state.timeLeft).toBe(3);
+	});
+
+	it("should ignore repeat taps in the same interval", () => {
+		const { result } = startInFirstInterval();
+
+		act(() => {
+			vi.advanceTimersByTime(4000);
+		});
+		act(() => {
+			result.current.markWorkDone();
+		});
+		act(() => {
+			vi.advanceTimersByTime(2000);
+		});
+		act(() => {
+			result.current.markWorkDone();
+		});
+
+		expect(result.current.state.splits[0]).toBe(4);
+	});
+
+	it("should start each interval with work not yet finished", () => {
+		const { result } = startInFirstInterval();
+
+		act(() => {
+			result.current.markWorkDone();
+		});
+		act(() => {
+			vi.advanceTimersByTime(10000);
+		});
+
+		expect(result.current.state.currentRound).toBe(2);
+		expect(result.current.state.isWorkDone).toBe(false);
+	});
+
+	it("should keep splits after finishing, with untapped intervals as null", () => {
+		const { result } = startInFirstInterval();
+
+		act(() => {
+			vi.advanceTimersByTime(8000);
+		});
+		act(() => {
+			result.current.markWorkDone();
+		});
+		act(() => {
+			vi.advanceTimersByTime(22000);
+		});
+
+		expect(result.current.state.phase).toBe("done");
+		expect(result.current.state.splits).toEqual([8, null, null]);
+	});
+
+	it("should not record splits during prep", () => {
+		const { result } = renderHook(() => useEmom(settings));
+
+		act(() => {
+			result.current.toggle();
+		});
+		act(() => {
+			result.current.markWorkDone();
+		});
+
+		expect(result.current.state.splits).toEqual([null, null, null]);
+	});
+
+	it("should clear splits on reset", () => {
+		const { result } = startInFirstInterval();
+
+		act(() => {
+			result.current.markWorkDone();
+		});
+		act(() => {
+			result.current.reset();
+		});
+
+		expect(result.current.state.phase).toBe("idle");
+		expect(result.current.state.splits).toEqual([]);
+	});
+
+	it.each([
+		[{ intervalTime: 10, intervals: 2.5 }, 3],
+		[{ intervalTime: 10, intervals: -1 }, 1],
+		[{ intervalTime: 10, intervals: Number.NaN }, 1],
+	])("should clamp an invalid interval count (%o)", (invalid, rounds) => {
+		const { result } = renderHook(() => useEmom(invalid));
+
+		act(() => {
+			result.current.toggle();
+		});
+
+		expect(result.current.state.splits).toEqual(Array.from({ length: rounds }, () => null));
+		expect(result.current.state.totalRounds).toBe(rounds);
+	});
+
+	it("should run a blank interval time as the shortest interval", () => {
+		const { result } = renderHook(() => useEmom({ intervalTime: 0, intervals: 0 }));
+
+		act(() => {
+			result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(PREP_MS);
+		});
+
+		expect(result.current.state.phase).toBe("work");
+		expect(result.current.state.timeLeft).toBe(10);
+	});
+});
@@ -0,0 +1,86 @@
+import { useCallback, useMemo, useState } from "react";
+import { clampWhole, type TimerProfile, type TimerState, useTimer } from "./useTimer";
+
+/** Short countdown before the first interval starts */
+const EMOM_PREP_TIME = 5;
+
+/** Allowed settings; anything outside is clamped */
+export const EMOM_LIMITS = {
+	intervalTime: { min: 10, max: 600 },
+	intervals: { min: 1, max: 60 },
+};
+
+export interface EmomSettings {
+	/** Seconds per interval (60 for a classic EMOM) */
+	intervalTime: number;
+	intervals: number;
+}
+
+export interface EmomState extends TimerState {
+	/** Seconds into each interval when work was marked finished; null if never tapped */
+	splits: (number | null)[];
+	/** Whether work has been marked finished for the current interval */
+	isWorkDone: boolean;
+	/** Seconds since the current interval started */
+	intervalElapsed: number;
+}
+
+/**
+ * Every-minute-on-the-minute timer.
+ *
+ * An EMOM is back-to-back intervals with no rest segments, so it runs on
+ * useTimer (same wall-clock timing and audio cues). The athlete taps when
+ * the interval's work is finished; the rest of the interval is their rest.
+ */
+export function useEmom(settings: EmomSettings) {
+	const intervalTime = clampWhole(settings.intervalTime, EMOM_LIMITS.intervalTime.min, EMOM_LIMITS.intervalTime.max);
+	const intervals = clampWhole(settings.intervals, EMOM_LIMITS.intervals.min, EMOM_LIMITS.intervals.max);
+
+	const profile = useMemo<TimerProfile>(
+		() => ({
+			name: "EMOM",
+			workTime: intervalTime,
+			restTime: 0,
+			rounds: intervals,
+			cycles: 1,
+			cycleRestTime: 0,
+			prepTime: EMOM_PREP_TIME,
+		}),
+		[intervalTime, intervals],
+	);
+
+	const { state: timerState, toggle: toggleTimer, reset: resetTimer } = useTimer(profile);
+	const [splits, setSplits] = useState<(number | null)[]>([]);
+
+	const { phase, currentRound, timeLeft, isRunning } = timerState;
+	const intervalElapsed = phase === "work" ? intervalTime - timeLeft : 0;
+	const isWorkDone = phase === "work" && splits[currentRound - 1] != null;
+
+	const toggle = useCallback(() => {
+		// Fresh start (not resume) - clear the previous workout's splits
+		if (phase === "idle" || phase === "done") {
+			setSplits(Array.from({ length: intervals }, () => null));
+		}
+		toggleTimer();
+	}, [phase, toggleTimer, intervals]);
+
+	const reset = useCallback(() => {
+		resetTimer();
+		setSplits([]);
+	}, [resetTimer]);
+
+	/** Mark the current interval's work as finished (first tap only) */
+	const markWorkDone = useCallback(() => {
+		if (phase !== "work" || !isRunning) return;
+		setSplits((prev) => {
+			if (prev[currentRound - 1] != null) return prev;
+			const next = [...prev];
+			next[currentRound - 1] = intervalElapsed;
+			return next;
+		});
+	}, [phase, isRunning, currentRound, intervalElapsed]);
+
+	const state: EmomState = { ...timerState, splits, isWorkDone, intervalElapsed };
+
+	return { state, toggle, reset, markWorkDone };
+}
@@ -0,0 +1,199 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type CueName, getCueSounds, playCue } from "../services/soundPacks";
+import { useForTime } from "./useForTime";
+
+const mockPlayFinishBeep = vi.fn();
+
+vi.mock("./useAudio", () => ({
+	useAudio: () => ({
+		playStartBeep: vi.fn(),
+		playEndBeep: vi.fn(),
+		playCountdownBeep: vi.fn(),
+		playWarningBeep: vi.fn(),
+		playFinishBeep: mockPlayFinishBeep,
+	}),
+}));
+
+// For Time prep countdown before the clock starts
+const PREP_MS = 10000;
+
+const settings = { capTime: 30, warnings: [20, 10] };
+
+/**
+ * Record the tones the AudioContext is asked to play from now on, as
+ * [Hz, start in ms]. Cancelled ones (stopped early) are left out.
+ */
+function recordTones() {
+	const tones: { frequency: number; at: number; cancelled: boolean }[] = [];
+	vi.spyOn(window.AudioContext.prototype, "createOscillator").mockImplementation(() => {
+		const tone = { frequency: 0, at: 0, cancelled: false };
+		tones.push(tone);
+		return {
+			connect: () => {},
+			// The mock context's clock stays at 0
+			start: (at: number) => {
+				tone.at = performance.now() + at * 1000;
+			},
+			stop: (at?: number) => {
+				if (at === undefined) tone.cancelled = true;
+			},
+			frequency: {
+				set value(hz: number) {
+					tone.frequency = hz;
+				},
+			},
+		} as unknown as OscillatorNode;
+	});
+	return () => tones.filter((tone) => !tone.cancelled).map((tone) => [tone.frequency, Math.round(tone.at)]);
+}
+
+/** A cue's tones as [Hz, start in ms] */
+function cueTones(cue: CueName, at: number) {
+	return getCueSounds(cue, at).map((sound) => [sound.kind === "tone" ? sound.tone.frequency : 0, Math.round(sound.at)]);
+}
+
+describe("useForTime", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		mockPlayFinishBeep.mockClear();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	function startClock() {
+		const hook = renderHook(() => useForTime(settings));
+		act(() => {
+			hook.result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(PREP_MS);
+		});
+		return hook;
+	}
+
+	it("should count up after the prep countdown", () => {
+		const { result } = startClock();
+
+		expect(result.current.state.phase).toBe("work");
+		expect(result.current.state.workElapsed).toBe(0);
+
+		act(() => {
+			vi.advanceTimersByTime(7000);
+		});
+		expect(result.current.state.workElapsed).toBe(7);
+	});
+
+	it("should record the finish time and stop when FINISH is tapped", () => {
+		const { result } = startClock();
+
+		act(() => {
+			vi.advanceTimersByTime(12000);
+		});
+		act(() => {
+			result.current.finish();
+		});
+
+		expect(result.current.state.result).toEqual({ time: 12, capped: false });
+		expect(result.current.state.isRunning).toBe(false);
+		expect(mockPlayFinishBeep).toHaveBeenCalledTimes(1);
+	});
+
+	it("should play the whole finish cue when FINISH is tapped", () => {
+		const { result } = startClock();
+		const played = recordTones();
+		mockPlayFinishBeep.mockImplementationOnce(() => playCue("finish"));
+		const finishedAt = performance.now();
+
+		act(() => {
+			result.current.finish();
+		});
+		act(() => {
+			vi.advanceTimersByTime(2000);
+		});
+
+		expect(played()).toEqual(cueTones("finish", finishedAt));
+	});
+
+	it("should report capped when the time cap is reached", () => {
+		const { result } = startClock();
+
+		act(() => {
+			vi.advanceTimersByTime(31000);
+		});
+
+		expect(result.current.state.phase).toBe("done");
+		expect(result.current.state.result).toEqual({ time: 30, capped: true });
+	});
+
+	it("should play a warning on time at each configured point before the cap", () => {
+		startClock();
+		const played = recordTones();
+		const workStart = performance.now();
+		const warning = cueTones("warning", 0)[0][0];
+
+		act(() => {
+			vi.advanceTimersByTime(25000); // 5s left
+		});
+
+		expect(played().filter(([hz]) => hz === warning)).toEqual([
+			...cueTones("warning", workStart + 10000), // 20s left
+			...cueTones("warning", workStart + 20000), // 10s left
+		]);
+	});
+
+	it("should cancel the warnings on pause and requeue them on resume", () => {
+		const { result } = startClock();
+		const played = recordTones();
+		const warning = cueTones("warning", 0)[0][0];
+
+		act(() => {
+			vi.advanceTimersByTime(5000);
+			result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(30000);
+		});
+		expect(played().filter(([hz]) => hz === warning)).toEqual([]);
+
+		const resumedAt = performance.now();
+		act(() => {
+			result.current.toggle();
+		});
+		act(() => {
+			vi.advanceTimersByTime(10000);
+		});
+		// 25s left on resume; the 20s warning is 5s later
+		expect(played().filter(([hz]) => hz === warning)).toEqual(cueTones("warning", resumedAt + 5000));
+	});
+
+	it("should not allow finishing during prep", () => {
+		const { result } = renderHook(() => useForTime(settings));
+
+		act(() => {
+			result.current.toggle();
+		});
+		act(() => {
+			result.current.finish();
+		});
+
+		expect(result.current.state.result).toBeNull();
+		expect(result.current.state.phase).toBe("prep");
+	});
+
+	it("should clear the result on reset", () => {
+		const { result } = startClock();
+
+		act(() => {
+			result.current.finish();
+		});
+		act(() => {
+			result.current.reset();
+		});
+
+		expect(result.current.state.result).toBeNull();
+	});
+});
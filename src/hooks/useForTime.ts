@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { audioService } from "../services/audioService";
+import { scheduleCue } from "../services/soundPacks";
+import { useAudio } from "./useAudio";
+import { type TimerProfile, type TimerState, useTimer } from "./useTimer";
+
+/** Countdown before the clock starts */
+const FOR_TIME_PREP_TIME = 10;
+
+export interface ForTimeSettings {
+	/** Seconds until the workout is capped */
+	capTime: number;
+	/**
+	 * Seconds before the cap at which to play a warning (e.g. [60, 10]).
+	 * A new array reschedules them, so keep it stable between renders.
+	 */
+	warnings: number[];
+}
+
+export interface ForTimeResult {
+	/** Seconds from the start to FINISH, or the cap if capped */
+	time: number;
+	capped: boolean;
+}
+
+export interface ForTimeState extends TimerState {
+	/** Seconds since the clock started (excluding prep) - the count-up display */
+	workElapsed: number;
+	/** Set once the athlete finishes or the cap is hit */
+	result: ForTimeResult | null;
+}
+
+/**
+ * "For time" timer: counts up after a prep countdown until the athlete taps
+ * FINISH or the time cap is reached.
+ *
+ * Runs the cap as one work segment on useTimer (same wall-clock timing,
+ * prep countdown and finish cues) and displays it counting up.
+ */
+export function useForTime(settings: ForTimeSettings) {
+	const profile = useMemo<TimerProfile>(
+		() => ({
+			name: "FOR TIME",
+			workTime: settings.capTime,
+			restTime: 0,
+			rounds: 1,
+			cycles: 1,
+			cycleRestTime: 0,
+			prepTime: FOR_TIME_PREP_TIME,
+		}),
+		[settings.capTime],
+	);
+
+	const { state: timerState, toggle: toggleTimer, reset: resetTimer, getUpcomingCues } = useTimer(profile);
+	const [finishTime, setFinishTime] = useState<number | null>(null);
+	const { playFinishBeep } = useAudio();
+
+	const { phase, isRunning, timeLeft } = timerState;
+	const workElapsed = phase === "work" ? settings.capTime - timeLeft : 0;
+
+	const result: ForTimeResult | null = finishTime != null
+		? { time: finishTime, capped: false }
+		: phase === "done"
+			? { time: settings.capTime, capped: true }
+			: null;
+
+	// Warning beeps as the cap approaches, queued on the AudioContext clock
+	// from the cap's exact time whenever the clock starts or resumes, so a
+	// late render can't delay them. Pausing, resetting or finishing cancels them.
+	useEffect(() => {
+		if (phase !== "work" || !isRunning) return;
+		const cap = getUpcomingCues().find((cue) => cue.type === "phaseEnd");
+		if (!cap) return;
+
+		const owner = Symbol("forTimeWarnings");
+		const now = performance.now();
+		for (const warning of settings.warnings) {
+			const inMs = cap.inMs - warning * 1000;
+			if (inMs > 0) scheduleCue("warning", now + inMs, undefined, owner);
+		}
+		return () => audioService.cancelScheduled(owner);
+	}, [phase, isRunning, settings.warnings, getUpcomingCues]);
+
+	const toggle = useCallback(() => {
+		// Fresh start - clear the previous result
+		if (phase === "idle" || phase === "done") {
+			setFinishTime(null);
+		}
+		toggleTimer();
+	}, [phase, toggleTimer]);
+
+	const reset = useCallback(() => {
+		resetTimer();
+		setFinishTime(null);
+	}, [resetTimer]);
+
+	/** Athlete is done - record the time and stop the clock */
+	const finish = useCallback(() => {
+		if (phase !== "work") return;
+		setFinishTime(workElapsed);
+		// Stop first: stopping cancels the clock's queued sounds, not this one
+		resetTimer();
+		playFinishBeep();
+	}, [phase, workElapsed, playFinishBeep, resetTimer]);
+
+	const state: ForTimeState = { ...timerState, workElapsed, result };
+
+	return { state, toggle, reset, finish };
+}
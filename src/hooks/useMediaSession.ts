@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import {
+	type MediaSessionActions,
+	type MediaSessionInfo,
+	mediaSessionService,
+} from "../services/mediaSessionService";
+
+/**
+ * Mirror a timer on the OS media controls while `info` is set; null (idle)
+ * hides them. Actions always call the latest callbacks.
+ */
+export function useMediaSession(info: MediaSessionInfo | null, actions: MediaSessionActions) {
+	const actionsRef = useRef(actions);
+	actionsRef.current = actions;
+
+	const active = info !== null;
+	const title = info?.title;
+	const artist = info?.artist;
+	const playing = info?.playing;
+
+	useEffect(() => {
+		if (!active) return;
+
+		const detach = mediaSessionService.setActions({
+			toggle: () => actionsRef.current.toggle(),
+			next: () => actionsRef.current.next?.(),
+		});
+		return () => {
+			detach();
+			mediaSessionService.clear();
+		};
+	}, [active]);
+
+	useEffect(() => {
+		if (title === undefined || artist === undefined || playing === undefined) return;
+		mediaSessionService.update({ title, artist, playing });
+	}, [title, artist, playing]);
+}
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { type Preset, presetLibrary } from "../services/presetLibrary";
+
+const subscribe = (listener: () => void) => presetLibrary.subscribe(listener);
+const getSnapshot = () => presetLibrary.getPresets();
+
+/** Built-in and user presets, kept current; loads stored presets on first use */
+export function usePresets(): Preset[] {
+	const presets = useSyncExternalStore(subscribe, getSnapshot);
+
+	useEffect(() => {
+		presetLibrary.load();
+	}, []);
+
+	return presets;
+}
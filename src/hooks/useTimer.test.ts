@@ -8,6 +8,7 @@ const defaultProfile: TimerProfile = {
 	restTime: 2,
 	rounds: 2,
 	cycles: 1,
+	cycleRestTime: 4,
 	prepTime: 2,
 };
 
@@ -33,9 +34,16 @@ describe("useTimer", () => {
 	it("should calculate total time correctly", () => {
 		const { result } = renderHook(() => useTimer(defaultProfile));
 
-		// (workTime + restTime) * rounds * cycles + prepTime
-		// (3 + 2) * 2 * 1 + 2 = 12
-		expect(result.current.calculateTotalTime()).toBe(12);
+		// prepTime + workTime * rounds + restTime * (rounds - 1), no trailing rest
+		// 2 + 3 * 2 + 2 * 1 = 10
+		expect(result.current.calculateTotalTime()).toBe(10);
+	});
+
+	it("should include cycle rests in total time", () => {
+		const { result } = renderHook(() => useTimer({ ...defaultProfile, cycles: 3 }));
+
+		// prep(2) + 3 cycles * (work 3 * 2 + rest 2) + 2 cycle rests * 4 = 34
+		expect(result.current.calculateTotalTime()).toBe(34);
 	});
 
 	it("should start timer and enter prep phase", () => {
@@ -219,4 +227,387 @@ describe("useTimer", () => {
 		expect(result.current.state.isRunning).toBe(false);
 		expect(result.current.state.isPaused).toBe(true);
 	});
+
+	describe("cycles", () => {
+		const cycleProfile: TimerProfile = { ...defaultProfile, cycles: 2 };
+
+		it("should enter cycle rest after the last round of a cycle", () => {
+			const { result } = renderHook(() => useTimer(cycleProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			// prep(2) + work(3) + rest(2) + work(3) = 10s
+			act(() => {
+				vi.advanceTimersByTime(10000);
+			});
+
+			expect(result.current.state.phase).toBe("cycleRest");
+			expect(result.current.state.timeLeft).toBe(4);
+			expect(result.current.state.currentCycle).toBe(1);
+			expect(result.current.state.isRunning).toBe(true);
+		});
+
+		it("should restart round 1 of the next cycle after cycle rest", () => {
+			const { result } = renderHook(() => useTimer(cycleProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			act(() => {
+				vi.advanceTimersByTime(14000); // ... + cycle rest(4)
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.currentRound).toBe(1);
+			expect(result.current.state.currentCycle).toBe(2);
+			expect(result.current.state.totalCycles).toBe(2);
+		});
+
+		it("should finish after the last round of the last cycle", () => {
+			const { result } = renderHook(() => useTimer(cycleProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			act(() => {
+				vi.advanceTimersByTime(23000); // 2 + 8 + 4 + 8 = 22s, then one more tick
+			});
+
+			expect(result.current.state.phase).toBe("done");
+			expect(result.current.state.totalElapsed).toBe(result.current.calculateTotalTime());
+		});
+	});
+
+	describe("custom programs", () => {
+		const programProfile: TimerProfile = {
+			...defaultProfile,
+			program: [
+				{ type: "warmup", duration: 2 },
+				{ type: "repeat", times: 2, items: [{ type: "work", duration: 3 }, { type: "rest", duration: 1 }] },
+				{ type: "cooldown", duration: 2, label: "STRETCH" },
+			],
+		};
+
+		it("should run the program's segments instead of the interval settings", () => {
+			const { result } = renderHook(() => useTimer(programProfile));
+
+			expect(result.current.calculateTotalTime()).toBe(12);
+			expect(result.current.state.totalRounds).toBe(2);
+
+			act(() => {
+				result.current.start();
+			});
+			expect(result.current.state.phase).toBe("warmup");
+
+			act(() => {
+				vi.advanceTimersByTime(6000); // warmup(2) + work(3) + rest(1)
+			});
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.currentRound).toBe(2);
+
+			act(() => {
+				vi.advanceTimersByTime(4000);
+			});
+			expect(result.current.state.phase).toBe("cooldown");
+			expect(result.current.segments[result.current.state.segmentIndex].label).toBe("STRETCH");
+		});
+	});
+
+	describe("wall-clock timing", () => {
+		// Simulates the OS skipping interval callbacks (background tab, GC pause):
+		// the monotonic clock jumps ahead without any intermediate ticks firing
+		let stallMs = 0;
+
+		beforeEach(() => {
+			stallMs = 0;
+			const fakeNow = performance.now.bind(performance);
+			vi.spyOn(performance, "now").mockImplementation(() => fakeNow() + stallMs);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should not drift when interval callbacks fire late", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			// Prep is 2s; a 1.8s stall plus one tick lands 2s in
+			stallMs = 1800;
+			act(() => {
+				vi.advanceTimersByTime(250);
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.timeLeft).toBe(3);
+			expect(result.current.state.totalElapsed).toBe(2);
+		});
+
+		it("should skip through several phases after a multi-second stall", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			// prep(2) + work(3) + rest(2) = 7s, then 1s into round 2 work
+			stallMs = 7750;
+			act(() => {
+				vi.advanceTimersByTime(250);
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.currentRound).toBe(2);
+			expect(result.current.state.timeLeft).toBe(2);
+			expect(result.current.state.totalElapsed).toBe(8);
+		});
+
+		it("should finish when stalled past the end of the workout", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			stallMs = 60_000;
+			act(() => {
+				vi.advanceTimersByTime(250);
+			});
+
+			expect(result.current.state.phase).toBe("done");
+			expect(result.current.state.isRunning).toBe(false);
+			// prep(2) + work(3) + rest(2) + work(3), no trailing rest
+			expect(result.current.state.totalElapsed).toBe(10);
+		});
+
+		it("should catch up immediately when the page becomes visible", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+
+			stallMs = 5000;
+			act(() => {
+				document.dispatchEvent(new Event("visibilitychange"));
+			});
+
+			expect(result.current.state.phase).toBe("rest");
+			expect(result.current.state.totalElapsed).toBe(5);
+		});
+
+		it("should not count time spent paused", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(1000);
+			});
+			act(() => {
+				result.current.pause();
+			});
+
+			// A long pause while the page is asleep
+			stallMs = 30_000;
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(1000);
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.timeLeft).toBe(3);
+			expect(result.current.state.totalElapsed).toBe(2);
+		});
+	});
+
+	describe("manual adjustments", () => {
+		// prep(2) | work(3) | rest(2) | work(3)
+
+		it("should skip to the start of the next phase", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				result.current.skipPhase();
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.timeLeft).toBe(3);
+			expect(result.current.state.totalElapsed).toBe(2);
+
+			// The clock keeps running from the new position
+			act(() => {
+				vi.advanceTimersByTime(3000);
+			});
+
+			expect(result.current.state.phase).toBe("rest");
+			expect(result.current.state.totalElapsed).toBe(5);
+		});
+
+		it("should advance the round counter when skipping into the next round", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				result.current.skipPhase(); // work 1
+				result.current.skipPhase(); // rest
+				result.current.skipPhase(); // work 2
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.currentRound).toBe(2);
+			expect(result.current.state.totalElapsed).toBe(7);
+		});
+
+		it("should finish when skipping the last phase", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				for (let i = 0; i < 4; i++) result.current.skipPhase();
+			});
+
+			expect(result.current.state.phase).toBe("done");
+			expect(result.current.state.isRunning).toBe(false);
+			expect(result.current.state.totalElapsed).toBe(10);
+		});
+
+		it("should restart the current phase when well into it", () => {
+			const { result } = renderHook(() => useTimer({ ...defaultProfile, workTime: 10 }));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(7000); // 5s into work
+			});
+			act(() => {
+				result.current.previousPhase();
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.timeLeft).toBe(10);
+			expect(result.current.state.totalElapsed).toBe(2);
+		});
+
+		it("should go back to the previous phase right after a phase starts", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(5000); // start of rest
+			});
+			act(() => {
+				result.current.previousPhase();
+			});
+
+			expect(result.current.state.phase).toBe("work");
+			expect(result.current.state.currentRound).toBe(1);
+			expect(result.current.state.timeLeft).toBe(3);
+			expect(result.current.state.totalElapsed).toBe(2);
+		});
+
+		it("should extend the current phase and the total time", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(3000); // 1s into work
+			});
+			act(() => {
+				result.current.addTime(10);
+			});
+
+			expect(result.current.state.timeLeft).toBe(12);
+			expect(result.current.calculateTotalTime()).toBe(20);
+
+			act(() => {
+				vi.advanceTimersByTime(12000);
+			});
+
+			expect(result.current.state.phase).toBe("rest");
+			expect(result.current.state.totalElapsed).toBe(15);
+		});
+
+		it("should never shorten a phase below one second", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				result.current.addTime(-30);
+			});
+
+			expect(result.current.state.phase).toBe("prep");
+			expect(result.current.state.timeLeft).toBe(1);
+			expect(result.current.calculateTotalTime()).toBe(9);
+		});
+
+		it("should adjust while paused without resuming", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				result.current.pause();
+			});
+			act(() => {
+				result.current.skipPhase();
+			});
+
+			expect(result.current.state.isPaused).toBe(true);
+			expect(result.current.state.phase).toBe("work");
+
+			act(() => {
+				vi.advanceTimersByTime(5000);
+			});
+			expect(result.current.state.timeLeft).toBe(3);
+
+			act(() => {
+				result.current.start();
+			});
+			act(() => {
+				vi.advanceTimersByTime(1000);
+			});
+
+			expect(result.current.state.timeLeft).toBe(2);
+			expect(result.current.state.totalElapsed).toBe(3);
+		});
+
+		it("should ignore adjustments when idle", () => {
+			const { result } = renderHook(() => useTimer(defaultProfile));
+
+			act(() => {
+				result.current.skipPhase();
+				result.current.addTime(10);
+			});
+
+			expect(result.current.state.phase).toBe("idle");
+			expect(result.current.calculateTotalTime()).toBe(10);
+		});
+	});
 });
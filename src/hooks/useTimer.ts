@@ -1,152 +1,139 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { attachAudioCues } from "../services/audioCues";
 import { audioService } from "../services/audioService";
-import { useAudio } from "./useAudio";
-
-export type Phase = "idle" | "prep" | "work" | "rest" | "done";
+import { attachHapticCues } from "../services/hapticCues";
+import { notificationService } from "../services/notificationService";
+import { sessionRecorder } from "../services/pwaDebugServices";
+import { TimerEngine, type TimerEventMap, type TimerProfile, type TimerSession } from "../services/timerEngine";
+import { attachVoiceCues } from "../services/voiceCues";
+import { flattenProgram, getProfileProgram } from "../services/workoutProgram";
+import {
+	clearWorkout,
+	loadWorkout,
+	type SavedWorkout,
+	saveWorkout,
+	toSavedWorkout,
+	toTimerSession,
+} from "../services/workoutStorage";
+
+export type { Phase, TimerProfile, TimerState } from "../services/timerEngine";
+
+/** Manual adjustments recorded to the session for bug reports */
+const ADJUSTMENT_EVENT_TYPES: Record<TimerEventMap["adjust"]["type"], string> = {
+	skip: "timer:skip_phase",
+	previous: "timer:previous_phase",
+	addTime: "timer:add_time",
+};
 
-export interface TimerProfile {
-	name: string;
-	workTime: number;
-	restTime: number;
-	rounds: number;
-	cycles: number;
-	prepTime: number;
+export interface UseTimerOptions {
+	/** Save the workout in progress so it can be resumed after a reload */
+	persist?: boolean;
 }
 
-export interface TimerState {
-	isRunning: boolean;
-	isPaused: boolean;
-	phase: Phase;
-	timeLeft: number;
-	currentRound: number;
-	totalRounds: number;
-	totalElapsed: number;
+/** Whether the stored timing needs rewriting (per-second ticks don't) */
+function sessionChanged(prev: TimerSession | null, next: TimerSession): boolean {
+	return (
+		!prev ||
+		prev.state.isRunning !== next.state.isRunning ||
+		prev.state.segmentIndex !== next.state.segmentIndex ||
+		prev.segments !== next.segments ||
+		prev.startTime !== next.startTime
+	);
 }
 
-const DEFAULT_STATE: TimerState = {
-	isRunning: false,
-	isPaused: false,
-	phase: "idle",
-	timeLeft: 0,
-	currentRound: 1,
-	totalRounds: 6,
-	totalElapsed: 0,
-};
+/**
+ * React binding for TimerEngine: one engine per component, with audio cues,
+ * session logging and (optionally) persistence attached as event listeners.
+ */
+export function useTimer(profile: TimerProfile, { persist = false }: UseTimerOptions = {}) {
+	// The flattened program for the current profile (what a fresh start would run)
+	const plannedSegments = useMemo(() => flattenProgram(getProfileProgram(profile)), [profile]);
 
-export function useTimer(profile: TimerProfile) {
-	const [state, setState] = useState<TimerState>({
-		...DEFAULT_STATE,
-		totalRounds: profile.rounds,
-	});
+	const [engine] = useState(() => new TimerEngine(plannedSegments));
 
-	const intervalRef = useRef<number | null>(null);
-	const stateRef = useRef(state);
-	const profileRef = useRef(profile);
+	const subscribe = useCallback((onChange: () => void) => engine.on("change", onChange), [engine]);
+	const state = useSyncExternalStore(subscribe, () => engine.snapshot);
 
-	// Keep refs in sync on every render
+	// Takes effect on the next fresh start (or immediately while idle)
 	useEffect(() => {
-		stateRef.current = state;
-	});
+		engine.setProgram(plannedSegments);
+	}, [engine, plannedSegments]);
 
-	useEffect(() => {
-		profileRef.current = profile;
-	});
-
-	const { playStartBeep, playEndBeep, playCountdownBeep, playFinishBeep } = useAudio();
+	// Audio cues, scheduled ahead on the AudioContext clock
+	useEffect(() => attachAudioCues(engine), [engine]);
 
-	const calculateTotalTime = useCallback(() => {
-		return ((profile.workTime + profile.restTime) * profile.rounds * profile.cycles) + profile.prepTime;
-	}, [profile]);
+	// Spoken cues (no-op unless enabled in settings)
+	useEffect(() => attachVoiceCues(engine), [engine]);
 
-	const clearTimer = useCallback(() => {
-		if (intervalRef.current) {
-			clearInterval(intervalRef.current);
-			intervalRef.current = null;
-		}
-	}, []);
+	// Vibration cues (no-op unless enabled and supported)
+	useEffect(() => attachHapticCues(engine), [engine]);
 
-	const reset = useCallback(() => {
-		clearTimer();
-		const newState = {
-			...DEFAULT_STATE,
-			totalRounds: profileRef.current.rounds,
-		};
-		stateRef.current = newState;
-		setState(newState);
-	}, [clearTimer]);
-
-	const tick = useCallback(() => {
-		const currentState = stateRef.current;
-		const currentProfile = profileRef.current;
-
-		if (!currentState.isRunning) return;
-
-		const newTimeLeft = currentState.timeLeft - 1;
+	// System notifications - the service only shows them while the page is hidden
+	useEffect(() => {
+		const unsubscribers = [
+			engine.on("phaseChange", ({ segment, state }) => {
+				if (state.isRunning) notificationService.notifyPhase(segment);
+			}),
+			engine.on("finished", () => {
+				notificationService.notifyFinished();
+			}),
+		];
+		return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+	}, [engine]);
+
+	// Session log for bug reports
+	useEffect(() => {
+		return engine.on("adjust", ({ type, details }) => {
+			sessionRecorder.recordStateChange({ type: ADJUSTMENT_EVENT_TYPES[type], timestamp: Date.now(), details });
+		});
+	}, [engine]);
 
-		// Countdown beeps
-		if (newTimeLeft <= 3 && newTimeLeft > 0) {
-			playCountdownBeep();
-		}
+	// Persist the workout in progress whenever its timing changes
+	const profileRef = useRef(profile);
+	useEffect(() => {
+		profileRef.current = profile;
+	});
+	const [savedWorkout, setSavedWorkout] = useState<SavedWorkout | null>(null);
 
-		let newState: TimerState;
-
-		if (newTimeLeft <= 0) {
-			// Phase transition
-			if (currentState.phase === "prep") {
-				playStartBeep();
-				newState = {
-					...currentState,
-					phase: "work",
-					timeLeft: currentProfile.workTime,
-					totalElapsed: currentState.totalElapsed + 1,
-				};
-			} else if (currentState.phase === "work") {
-				playEndBeep();
-				// Check if this was the last round
-				if (currentState.currentRound >= currentProfile.rounds) {
-					clearTimer();
-					playFinishBeep();
-					newState = {
-						...currentState,
-						phase: "done",
-						timeLeft: 0,
-						isRunning: false,
-						totalElapsed: currentState.totalElapsed + 1,
-					};
-				} else {
-					// Go to rest
-					newState = {
-						...currentState,
-						phase: "rest",
-						timeLeft: currentProfile.restTime,
-						totalElapsed: currentState.totalElapsed + 1,
-					};
-				}
-			} else if (currentState.phase === "rest") {
-				playStartBeep();
-				newState = {
-					...currentState,
-					phase: "work",
-					timeLeft: currentProfile.workTime,
-					currentRound: currentState.currentRound + 1,
-					totalElapsed: currentState.totalElapsed + 1,
-				};
-			} else {
-				newState = currentState;
+	useEffect(() => {
+		if (!persist) return;
+		let cancelled = false;
+		loadWorkout().then((workout) => {
+			// Don't offer to resume over a workout that's already started
+			if (!cancelled && workout && engine.snapshot.phase === "idle") {
+				setSavedWorkout(workout);
 			}
-		} else {
-			// Normal tick
-			newState = {
-				...currentState,
-				timeLeft: newTimeLeft,
-				totalElapsed: currentState.totalElapsed + 1,
-			};
-		}
+		});
+
+		let lastSaved: TimerSession | null = null;
+		const unsubscribe = engine.on("change", () => {
+			const session = engine.getSession();
+			if (!session) {
+				if (lastSaved) clearWorkout();
+				lastSaved = null;
+			} else if (sessionChanged(lastSaved, session)) {
+				saveWorkout(toSavedWorkout(profileRef.current, session));
+				lastSaved = session;
+			}
+		});
+		return () => {
+			cancelled = true;
+			unsubscribe();
+		};
+	}, [engine, persist]);
 
-		// Update ref immediately so next tick sees correct state
-		stateRef.current = newState;
-		setState(newState);
-	}, [playCountdownBeep, playStartBeep, playEndBeep, playFinishBeep, clearTimer]);
+	/** Continue the saved workout, fast-forwarded to where it would be now */
+	const resumeSaved = useCallback(() => {
+		if (!savedWorkout) return;
+		audioService.ensureRunning();
+		engine.restore(toTimerSession(savedWorkout));
+		setSavedWorkout(null);
+	}, [engine, savedWorkout]);
+
+	const discardSaved = useCallback(() => {
+		setSavedWorkout(null);
+		clearWorkout();
+	}, []);
 
 	const start = useCallback(() => {
 		// iOS Safari: MUST unlock audio during user gesture, BEFORE any timer/interval
@@ -154,73 +141,75 @@ export function useTimer(profile: TimerProfile) {
 		// Fire-and-forget: don't await to avoid blocking UI, but the resume happens
 		// synchronously within the user gesture context which is what iOS requires
 		audioService.ensureRunning();
-
-		const currentState = stateRef.current;
-
-		let newState: TimerState;
-		if (currentState.isPaused) {
-			// Resume
-			newState = { ...currentState, isRunning: true, isPaused: false };
-		} else {
-			// Fresh start
-			playStartBeep();
-			newState = {
-				isRunning: true,
-				isPaused: false,
-				phase: "prep",
-				timeLeft: profileRef.current.prepTime,
-				currentRound: 1,
-				totalRounds: profileRef.current.rounds,
-				totalElapsed: 0,
-			};
-		}
-
-		// Update ref immediately
-		stateRef.current = newState;
-		setState(newState);
-
-		// Clear any existing interval first
-		clearTimer();
-		intervalRef.current = window.setInterval(tick, 1000);
-	}, [playStartBeep, tick, clearTimer]);
-
-	const pause = useCallback(() => {
-		clearTimer();
-		const newState = { ...stateRef.current, isRunning: false, isPaused: true };
-		stateRef.current = newState;
-		setState(newState);
-	}, [clearTimer]);
+		engine.start();
+		setSavedWorkout(null);
+	}, [engine]);
 
 	const toggle = useCallback(() => {
-		if (stateRef.current.isRunning) {
-			pause();
+		if (engine.snapshot.isRunning) {
+			engine.pause();
 		} else {
 			start();
 		}
-	}, [start, pause]);
+	}, [engine, start]);
 
-	// Cleanup on unmount
+	const pause = useCallback(() => engine.pause(), [engine]);
+	const reset = useCallback(() => engine.reset(), [engine]);
+	const skipPhase = useCallback(() => engine.skipPhase(), [engine]);
+	const previousPhase = useCallback(() => engine.previousPhase(), [engine]);
+	const addTime = useCallback((seconds: number) => engine.addTime(seconds), [engine]);
+	const getUpcomingCues = useCallback(() => engine.getUpcomingCues(), [engine]);
+
+	// Same segments the timer runs (including added time), so the header
+	// total always matches reality
+	const calculateTotalTime = useCallback(() => engine.totalDuration, [engine]);
+
+	// Catch up immediately when returning to a hidden tab rather than
+	// waiting for the next (possibly throttled) interval callback
 	useEffect(() => {
-		return () => clearTimer();
-	}, [clearTimer]);
+		const handleVisibilityChange = () => {
+			if (document.visibilityState === "visible") {
+				engine.tick();
+			}
+		};
+		document.addEventListener("visibilitychange", handleVisibilityChange);
+		return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+	}, [engine]);
 
-	// Update state when profile changes (only when idle)
+	// Cleanup on unmount
 	useEffect(() => {
-		if (!state.isRunning && !state.isPaused) {
-			setState((prev) => ({
-				...prev,
-				totalRounds: profile.rounds,
-			}));
-		}
-	}, [profile.rounds, state.isRunning, state.isPaused]);
+		return () => engine.dispose();
+	}, [engine]);
 
 	return {
 		state,
 		profile,
+		/** The segments being run (or that a fresh start would run) */
+		segments: engine.segments,
 		start,
 		pause,
 		toggle,
 		reset,
+		skipPhase,
+		previousPhase,
+		addTime,
 		calculateTotalTime,
+		/** The running phase's remaining cues, timed from now (for scheduling extra sounds) */
+		getUpcomingCues,
+		/** A workout from a previous page load that can be resumed (persist only) */
+		savedWorkout,
+		resumeSaved,
+		discardSaved,
 	};
 }
+
+/** A whole number from `min` to `max`; anything else (blank, NaN) becomes `min` */
+export function clampWhole(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, Math.round(value) || min));
+}
+
+export function formatTime(seconds: number): string {
+	const mins = Math.floor(seconds / 60);
+	const secs = seconds % 60;
+	return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
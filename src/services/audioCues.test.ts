@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { attachAudioCues } from "./audioCues";
+import { getCueSounds, playCue, SOUND_PACKS, scheduleCue } from "./soundPacks";
+import { TimerEngine, type TimerProfile } from "./timerEngine";
+
+vi.mock("./soundPacks", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./soundPacks")>()),
+	playCue: vi.fn(),
+	scheduleCue: vi.fn(),
+}));
+
+const profile: TimerProfile = {
+	name: "Test",
+	workTime: 3,
+	restTime: 2,
+	rounds: 2,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 2,
+};
+
+/** Tones the context was asked to play; cancelled ones are stopped early */
+const tones: { frequency: number; at: number; cancelled: boolean }[] = [];
+
+/** A running context that records tones; audioService keeps the first one it creates */
+const mockContext = {
+	state: "running",
+	destination: {},
+	get currentTime() {
+		return performance.now() / 1000;
+	},
+	addEventListener: vi.fn(),
+	createGain: () => ({
+		connect: vi.fn(),
+		gain: { value: 1, setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+	}),
+	createOscillator: () => {
+		const tone = { frequency: 0, at: 0, cancelled: false };
+		tones.push(tone);
+		return {
+			connect: vi.fn(),
+			frequency: {
+				set value(hz: number) {
+					tone.frequency = hz;
+				},
+				setValueAtTime: vi.fn(),
+				exponentialRampToValueAtTime: vi.fn(),
+			},
+			start: (at: number) => {
+				tone.at = at * 1000;
+			},
+			// Played tones are stopped at their end; cancelling stops them with no time
+			stop: (at?: number) => {
+				if (at === undefined) tone.cancelled = true;
+			},
+		};
+	},
+};
+
+/** Tones that played, as [Hz, start in ms] */
+function played() {
+	return tones.filter((tone) => !tone.cancelled).map((tone) => [tone.frequency, Math.round(tone.at)]);
+}
+
+/** Scheduled cues as [name, ms after the workout started] */
+function scheduled(start: number) {
+	return vi.mocked(scheduleCue).mock.calls.map(([name, at]) => [name, at - start]);
+}
+
+describe("attachAudioCues", () => {
+	let audio: { cancelScheduled: ReturnType<typeof vi.fn>; startMetronome: ReturnType<typeof vi.fn> };
+	let engine: TimerEngine;
+	let detach: () => void;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.mocked(playCue).mockReset();
+		vi.mocked(scheduleCue).mockReset();
+		audio = { cancelScheduled: vi.fn(), startMetronome: vi.fn() };
+		engine = new TimerEngine(profile);
+		// @ts-expect-error - only the scheduling methods are used
+		detach = attachAudioCues(engine, audio);
+	});
+
+	afterEach(() => {
+		detach();
+		engine.dispose();
+		vi.useRealTimers();
+	});
+
+	it("should play the start cue and schedule the first phase's cues", () => {
+		const start = performance.now();
+		engine.start();
+
+		expect(playCue).toHaveBeenCalledWith("start");
+		expect(scheduled(start)).toEqual([
+			["countdown", 1000],
+			["start", 2000],
+		]);
+	});
+
+	it("should queue each new phase's cues without cancelling the one still sounding", () => {
+		const start = performance.now();
+		engine.start();
+		audio.cancelScheduled.mockClear();
+		vi.mocked(scheduleCue).mockClear();
+
+		vi.advanceTimersByTime(2000);
+
+		expect(audio.cancelScheduled).not.toHaveBeenCalled();
+		expect(scheduled(start)).toEqual([
+			["countdown", 3000],
+			["countdown", 4000],
+			["end", 5000],
+		]);
+	});
+
+	it("should end the last phase with the finish cues", () => {
+		const start = performance.now();
+		engine.start();
+		vi.mocked(scheduleCue).mockClear();
+
+		vi.advanceTimersByTime(8000);
+
+		expect(scheduled(start).slice(-2)).toEqual([
+			["end", 10_000],
+			["finish", 10_000],
+		]);
+	});
+
+	it("should cancel on pause and reschedule the rest on resume", () => {
+		const start = performance.now();
+		engine.start();
+		vi.advanceTimersByTime(500);
+		engine.pause();
+		expect(audio.cancelScheduled).toHaveBeenCalled();
+
+		vi.advanceTimersByTime(10_000);
+		vi.mocked(scheduleCue).mockClear();
+		engine.start();
+
+		// 1.5s of prep left, 10s later
+		expect(scheduled(start + 10_000)).toEqual([
+			["countdown", 1000],
+			["start", 2000],
+		]);
+	});
+
+	it("should cancel only its own sounds on reset", () => {
+		engine.start();
+		audio.cancelScheduled.mockClear();
+
+		engine.reset();
+
+		const owner = vi.mocked(scheduleCue).mock.calls[0][3];
+		expect(owner).toEqual(expect.any(Symbol));
+		expect(audio.cancelScheduled).toHaveBeenCalledWith(owner);
+	});
+
+	it("should cancel and play the entry cue on skip", () => {
+		engine.start();
+		audio.cancelScheduled.mockClear();
+		vi.mocked(playCue).mockClear();
+
+		engine.skipPhase();
+
+		expect(audio.cancelScheduled).toHaveBeenCalled();
+		expect(playCue).toHaveBeenCalledWith("start");
+	});
+
+	it("should stay silent when skipping while paused", () => {
+		engine.start();
+		engine.pause();
+		vi.mocked(playCue).mockClear();
+		vi.mocked(scheduleCue).mockClear();
+
+		engine.skipPhase();
+
+		expect(playCue).not.toHaveBeenCalled();
+		expect(scheduleCue).not.toHaveBeenCalled();
+	});
+
+	it("should run the metronome through work phases only", () => {
+		engine.setProgram({ ...profile, metronome: { bpm: 120, accentEvery: 4 } });
+		const start = performance.now();
+		engine.start();
+		expect(audio.startMetronome).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(2000);
+		expect(audio.startMetronome).toHaveBeenCalledWith(
+			{ bpm: 120, accentEvery: 4 },
+			start + 2000,
+			start + 5000,
+			expect.any(Symbol),
+		);
+
+		audio.startMetronome.mockClear();
+		vi.advanceTimersByTime(3000);
+		expect(audio.startMetronome).not.toHaveBeenCalled();
+	});
+
+	it("should play the finish cues when skipping past the last phase", () => {
+		engine.start();
+		vi.advanceTimersByTime(8000);
+		vi.mocked(playCue).mockClear();
+
+		engine.skipPhase();
+
+		expect(playCue).toHaveBeenCalledWith("end");
+		expect(playCue).toHaveBeenCalledWith("finish");
+	});
+
+	it.each(SOUND_PACKS.map((pack) => pack.id))("should play the whole %s finish when the workout runs out", async (id) => {
+		const originalAudioContext = globalThis.AudioContext;
+		// @ts-expect-error - mocking global
+		globalThis.AudioContext = vi.fn(() => mockContext);
+		onTestFinished(() => {
+			globalThis.AudioContext = originalAudioContext;
+		});
+		tones.length = 0;
+		// Real cue scheduling and audio service, down to the context
+		const actual = await vi.importActual<typeof import("./soundPacks")>("./soundPacks");
+		vi.mocked(scheduleCue).mockImplementation(actual.scheduleCue);
+		vi.mocked(playCue).mockImplementation(actual.playCue);
+		actual.setSelectedSoundPack(id);
+		detach();
+		detach = attachAudioCues(engine);
+
+		const start = performance.now();
+		engine.start();
+		vi.advanceTimersByTime(15_000);
+
+		const finish = getCueSounds("finish", start + 10_000, SOUND_PACKS.find((pack) => pack.id === id));
+		expect(finish.length).toBeGreaterThan(1);
+		expect(played()).toEqual(
+			expect.arrayContaining(
+				finish.map((sound) => [sound.kind === "tone" ? sound.tone.frequency : 0, Math.round(sound.at)]),
+			),
+		);
+	});
+});
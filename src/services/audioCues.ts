@@ -0,0 +1,117 @@
+/**
+ * Timer sounds, attached to a TimerEngine and scheduled ahead of time.
+ *
+ * Whenever the workout starts, resumes or enters a phase, that phase's
+ * remaining cues (countdown, milestones, the sound that ends it) are queued
+ * on the AudioContext clock up front, along with its metronome if it has
+ * one, so they play on time even when the tick that would have triggered
+ * them runs late. Pausing, resetting and manual jumps cancel whatever is
+ * still queued - only this engine's sounds, not other cues sharing the
+ * audio service.
+ */
+
+import { audioService } from "./audioService";
+import { type CueName, playCue, scheduleCue } from "./soundPacks";
+import type { TimerEngine, UpcomingCue } from "./timerEngine";
+import type { PlannedSegment } from "./workoutProgram";
+
+/** What plays on entering a segment (null: the workout is over); prep is silent */
+function getEntryCues(segment: PlannedSegment | null): CueName[] {
+	if (!segment) return ["end", "finish"];
+	if (segment.type === "work" || segment.type === "warmup") return ["start"];
+	return segment.type === "prep" ? [] : ["end"];
+}
+
+/** The sound pack cues an upcoming engine cue plays */
+export function getCueNames(cue: UpcomingCue): CueName[] {
+	switch (cue.type) {
+		case "countdown":
+			return ["countdown"];
+		case "milestone":
+			return [cue.kind];
+		case "phaseEnd":
+			return getEntryCues(cue.next);
+	}
+}
+
+/** Play cues for the engine's workout; returns a function that detaches them */
+export function attachAudioCues(engine: TimerEngine, audio = audioService): () => void {
+	const owner = Symbol("audioCues");
+
+	const scheduleUpcoming = () => {
+		const now = performance.now();
+		const cues = engine.getUpcomingCues();
+		for (const cue of cues) {
+			for (const name of getCueNames(cue)) {
+				scheduleCue(name, now + cue.inMs, undefined, owner);
+			}
+		}
+
+		// Cadence ticks run to the end of the phase, counted from its start
+		const segment = engine.segments[engine.snapshot.segmentIndex];
+		const phaseEnd = cues.find((cue) => cue.type === "phaseEnd");
+		if (segment?.metronome && phaseEnd) {
+			const end = now + phaseEnd.inMs;
+			audio.startMetronome(segment.metronome, end - segment.duration * 1000, end, owner);
+		}
+	};
+
+	const reschedule = () => {
+		audio.cancelScheduled(owner);
+		scheduleUpcoming();
+	};
+
+	let wasRunning = engine.snapshot.isRunning;
+
+	const unsubscribers = [
+		engine.on("change", (state) => {
+			if (state.isRunning === wasRunning) return;
+			wasRunning = state.isRunning;
+			// Started/resumed, or paused/reset; finishing is left to "finished"
+			if (state.isRunning) {
+				reschedule();
+			} else if (state.phase !== "done") {
+				audio.cancelScheduled(owner);
+			}
+		}),
+		engine.on("phaseChange", ({ segment, reason, state }) => {
+			// Silent while paused (e.g. skipping phases during a pause)
+			if (!state.isRunning) return;
+
+			if (reason === "tick") {
+				// Its entry sound was scheduled as the previous phase's end and
+				// may still be playing - add to the queue rather than cancel it
+				scheduleUpcoming();
+				return;
+			}
+
+			// Starting was scheduled by the change to running; it just needs its "GO!"
+			if (reason === "start") {
+				playCue("start");
+				return;
+			}
+
+			// Jumped here: nothing was scheduled for entering it
+			reschedule();
+			getEntryCues(segment).forEach((name) => playCue(name));
+		}),
+		engine.on("adjust", ({ type }) => {
+			// The phase's end moved
+			if (type === "addTime" && engine.snapshot.isRunning) reschedule();
+		}),
+		engine.on("finished", ({ reason }) => {
+			// Running out on the clock was scheduled as the last phase's end,
+			// and its fanfare may still be queued - let it play out
+			if (reason !== "tick") {
+				audio.cancelScheduled(owner);
+				playCue("end");
+				playCue("finish");
+			}
+		}),
+	];
+
+	return () => {
+		unsubscribers.forEach((unsubscribe) => unsubscribe());
+		audio.cancelScheduled(owner);
+	};
+}
@@ -6,6 +6,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
+const recordStateChange = vi.fn();
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange } }));
+
 // Mock AudioContext
 class MockAudioContext {
 	state: "suspended" | "running" | "closed" = "suspended";
@@ -46,12 +49,22 @@ class MockAudioContext {
 		},
 	});
 
-	// For silent buffer warmup
-	createBuffer = vi.fn().mockReturnValue({});
+	// For silent buffer warmup (and clips)
+	createBuffer = vi.fn().mockImplementation((_channels: number, length: number) => ({
+		duration: length / 8000,
+		getChannelData: vi.fn().mockReturnValue(new Float32Array(length)),
+	}));
 	createBufferSource = vi.fn().mockReturnValue({
 		buffer: null,
 		connect: vi.fn(),
 		start: vi.fn(),
+		stop: vi.fn(),
+	});
+
+	decodeAudioData = vi.fn().mockResolvedValue({
+		sampleRate: 8000,
+		numberOfChannels: 1,
+		getChannelData: () => new Float32Array([0.1, 0.2]),
 	});
 }
 
@@ -65,6 +78,7 @@ describe("AudioService", () => {
 		mockAudioContext = new MockAudioContext();
 		// @ts-expect-error - mocking global
 		globalThis.AudioContext = vi.fn(() => mockAudioContext);
+		localStorage.clear();
 		// Reset module to get fresh instance
 		vi.resetModules();
 	});
@@ -120,6 +134,285 @@ describe("AudioService", () => {
 		});
 	});
 
+	describe("output", () => {
+		it("should route beeps through a master gain at the saved volume", async () => {
+			mockAudioContext.state = "running";
+			localStorage.setItem("igor-timer:audio-output", JSON.stringify({ volume: 1.2, muted: false }));
+			const { audioService } = await import("./audioService");
+			audioService.playBeep(440, 0.1);
+
+			const gain = mockAudioContext.createGain.mock.results[0].value;
+			expect(gain.gain.value).toBe(1.2);
+			expect(gain.connect).toHaveBeenCalledWith(mockAudioContext.destination);
+		});
+
+		it("should apply and persist volume changes immediately", async () => {
+			const { audioService } = await import("./audioService");
+			audioService.prime();
+			audioService.setOutputSettings({ volume: 5 });
+
+			const gain = mockAudioContext.createGain.mock.results[0].value;
+			expect(gain.gain.value).toBe(1.5);
+			expect(JSON.parse(localStorage.getItem("igor-timer:audio-output")!)).toEqual({ volume: 1.5, muted: false });
+		});
+
+		it("should not play anything while muted, including the test sound", async () => {
+			mockAudioContext.state = "running";
+			const { audioService } = await import("./audioService");
+			audioService.setOutputSettings({ muted: true });
+
+			audioService.playBeep(440, 0.1);
+			const result = await audioService.testSound();
+
+			expect(mockAudioContext.createOscillator).not.toHaveBeenCalled();
+			expect(result).toMatchObject({ played: false, error: "Muted" });
+		});
+	});
+
+	describe("scheduling", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			mockAudioContext.state = "running";
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should play a tone due now straight away", async () => {
+			const { audioService } = await import("./audioService");
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, performance.now());
+
+			const oscillator = mockAudioContext.createOscillator.mock.results[0].value;
+			expect(oscillator.start).toHaveBeenCalledWith(0);
+		});
+
+		it("should hand a later tone to the context just ahead of time", async () => {
+			const { audioService } = await import("./audioService");
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, performance.now() + 1000);
+			expect(mockAudioContext.createOscillator).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(875);
+			expect(mockAudioContext.createOscillator).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(25);
+			const oscillator = mockAudioContext.createOscillator.mock.results[0].value;
+			expect(oscillator.start).toHaveBeenCalledWith(expect.closeTo(0.1, 3));
+		});
+
+		it("should drop queued tones when cancelled", async () => {
+			const { audioService } = await import("./audioService");
+			const owner = Symbol("test");
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, performance.now() + 1000, owner);
+			audioService.cancelScheduled(owner);
+
+			vi.advanceTimersByTime(2000);
+
+			expect(mockAudioContext.createOscillator).not.toHaveBeenCalled();
+		});
+
+		it("should stop handed-off tones that haven't started when cancelled", async () => {
+			const { audioService } = await import("./audioService");
+			const owner = Symbol("test");
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, performance.now() + 50, owner);
+			const oscillator = mockAudioContext.createOscillator.mock.results[0].value;
+
+			audioService.cancelScheduled(owner);
+
+			expect(oscillator.stop).toHaveBeenLastCalledWith();
+		});
+
+		it("should only cancel the owner's sounds", async () => {
+			const frequencies: number[] = [];
+			mockAudioContext.createOscillator = vi.fn().mockImplementation(() => ({
+				connect: vi.fn(),
+				frequency: {
+					set value(hz: number) {
+						frequencies.push(hz);
+					},
+				},
+				start: vi.fn(),
+				stop: vi.fn(),
+			}));
+			const { audioService } = await import("./audioService");
+			const owner = Symbol("cues");
+			const now = performance.now();
+			audioService.scheduleTone({ frequency: 440, duration: 0.1 }, now + 500, owner);
+			audioService.scheduleTone({ frequency: 880, duration: 0.1 }, now + 500, Symbol("other"));
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, now + 500);
+			audioService.startMetronome({ bpm: 120 }, now, now + 2000, owner);
+
+			audioService.cancelScheduled(owner);
+			vi.advanceTimersByTime(3000);
+
+			expect(frequencies).toEqual([880, 660]);
+		});
+
+		it("should tick the metronome through to its end, accenting the bar", async () => {
+			const frequencies: number[] = [];
+			mockAudioContext.createOscillator = vi.fn().mockImplementation(() => ({
+				connect: vi.fn(),
+				frequency: {
+					set value(hz: number) {
+						frequencies.push(hz);
+					},
+				},
+				start: vi.fn(),
+				stop: vi.fn(),
+			}));
+			const { audioService } = await import("./audioService");
+			const start = performance.now();
+
+			audioService.startMetronome({ bpm: 120, accentEvery: 2 }, start, start + 2000, Symbol("test"));
+			vi.advanceTimersByTime(3000);
+
+			// Beats 1-3; beat 0 belongs to the phase's own cue
+			expect(frequencies).toEqual([1800, 2400, 1800]);
+		});
+
+		it("should log the metronome's start and end rather than every beat", async () => {
+			recordStateChange.mockClear();
+			const { audioService } = await import("./audioService");
+			const start = performance.now();
+
+			audioService.startMetronome({ bpm: 120 }, start, start + 2000, Symbol("test"));
+			vi.advanceTimersByTime(3000);
+
+			expect(mockAudioContext.createOscillator).toHaveBeenCalledTimes(3);
+			const types = recordStateChange.mock.calls
+				.map(([event]) => event.type)
+				.filter((type) => type !== "audio:context_created");
+			expect(types).toEqual(["audio:metronome_started", "audio:metronome_stopped"]);
+			expect(recordStateChange).toHaveBeenLastCalledWith(
+				expect.objectContaining({ details: { reason: "ended" } }),
+			);
+		});
+
+		it("should stop the metronome when cancelled", async () => {
+			const { audioService } = await import("./audioService");
+			const start = performance.now();
+
+			const owner = Symbol("test");
+			audioService.startMetronome({ bpm: 60 }, start, start + 10000, owner);
+			vi.advanceTimersByTime(1000);
+			audioService.cancelScheduled(owner);
+			vi.advanceTimersByTime(5000);
+
+			expect(mockAudioContext.createOscillator).toHaveBeenCalledTimes(1);
+		});
+
+		it("should drop tones that come due too late to be useful", async () => {
+			mockAudioContext.state = "suspended";
+			mockAudioContext.resume = vi.fn().mockImplementation(() => new Promise(() => {}));
+			const { audioService } = await import("./audioService");
+			audioService.scheduleTone({ frequency: 660, duration: 0.1 }, performance.now());
+
+			vi.advanceTimersByTime(600);
+			mockAudioContext.state = "running";
+			vi.advanceTimersByTime(100);
+
+			expect(mockAudioContext.createOscillator).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("clips", () => {
+		it("should decode audio to plain PCM", async () => {
+			const { audioService } = await import("./audioService");
+
+			const clip = await audioService.decodeClip(new ArrayBuffer(8));
+
+			expect(clip.sampleRate).toBe(8000);
+			expect(Array.from(clip.channels[0])).toEqual([expect.closeTo(0.1), expect.closeTo(0.2)]);
+		});
+
+		it("should play a registered clip through the master gain", async () => {
+			mockAudioContext.state = "running";
+			const { audioService } = await import("./audioService");
+			audioService.registerClip("bell", { sampleRate: 8000, channels: [new Float32Array(800)] });
+
+			audioService.scheduleClip("bell", performance.now(), 0.5);
+
+			expect(mockAudioContext.createBuffer).toHaveBeenCalledWith(1, 800, 8000);
+			const source = mockAudioContext.createBufferSource.mock.results[0].value;
+			expect(source.start).toHaveBeenCalledWith(0);
+		});
+
+		it("should skip a clip that isn't registered", async () => {
+			mockAudioContext.state = "running";
+			const { audioService } = await import("./audioService");
+			audioService.registerClip("bell", { sampleRate: 8000, channels: [new Float32Array(800)] });
+			audioService.unregisterClip("bell");
+
+			audioService.scheduleClip("bell", performance.now());
+
+			expect(audioService.hasClip("bell")).toBe(false);
+			expect(mockAudioContext.createBufferSource).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("render", () => {
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		it("should render tones and clips offline at their times and the master volume", async () => {
+			const offline = new MockAudioContext();
+			// A node per call, so the master gain can be told apart
+			offline.createGain = vi.fn().mockImplementation(() => ({
+				connect: vi.fn(),
+				gain: { value: 1, setValueAtTime: vi.fn(), exponentialRampToValueAtTime: vi.fn() },
+			}));
+			const rendered = new Float32Array(4);
+			const OfflineContext = vi.fn(() =>
+				Object.assign(offline, { startRendering: vi.fn().mockResolvedValue({ getChannelData: () => rendered }) }),
+			);
+			vi.stubGlobal("OfflineAudioContext", OfflineContext);
+			localStorage.setItem("igor-timer:audio-output", JSON.stringify({ volume: 0.5, muted: true }));
+			const { audioService } = await import("./audioService");
+			audioService.registerClip("clip-1", { sampleRate: 8000, channels: [new Float32Array(8)] });
+
+			const result = await audioService.render(
+				[
+					{ kind: "tone", at: 1500, tone: { frequency: 440, duration: 0.1 } },
+					{ kind: "clip", at: 3000, id: "clip-1", volume: 1 },
+				],
+				5,
+				8000,
+			);
+
+			expect(OfflineContext).toHaveBeenCalledWith(1, 40000, 8000);
+			expect(offline.createGain.mock.results[0].value.gain.value).toBe(0.5);
+			expect(offline.createOscillator.mock.results[0].value.start).toHaveBeenCalledWith(1.5);
+			expect(offline.createBufferSource.mock.results[0].value.start).toHaveBeenCalledWith(3);
+			expect(result).toEqual({ sampleRate: 8000, channels: [rendered] });
+		});
+	});
+
+	describe("keep-alive", () => {
+		it("should loop silence straight to the destination until stopped", async () => {
+			const { audioService } = await import("./audioService");
+			audioService.setKeepAlive(true);
+
+			const source = mockAudioContext.createBufferSource.mock.results[0].value;
+			expect(source.loop).toBe(true);
+			expect(source.connect).toHaveBeenCalledWith(mockAudioContext.destination);
+			expect(source.start).toHaveBeenCalled();
+
+			audioService.setKeepAlive(false);
+			expect(source.stop).toHaveBeenCalled();
+		});
+
+		it("should restart the loop when the context is recreated", async () => {
+			const { audioService } = await import("./audioService");
+			audioService.setKeepAlive(true);
+			mockAudioContext.state = "closed";
+
+			audioService.prime();
+
+			expect(mockAudioContext.createBufferSource).toHaveBeenCalledTimes(2);
+		});
+	});
+
 	describe("testSound", () => {
 		it("should return state information", async () => {
 			const { audioService } = await import("./audioService");
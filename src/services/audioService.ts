@@ -20,11 +20,32 @@
  * // Ensure running before timer starts (call in click handler)
  * await audioService.ensureRunning();
  *
+ * // Everything plays through one master gain node
+ * audioService.setOutputSettings({ volume: 1.2 });
+ *
+ * // Queue a beep 3s from now on the AudioContext clock
+ * const owner = Symbol("cues");
+ * audioService.scheduleTone({ frequency: 660, duration: 0.08 }, performance.now() + 3000, owner);
+ * audioService.cancelScheduled(owner); // e.g. on pause; other owners' sounds keep playing
+ *
+ * // Cadence ticks through a work phase, accenting every 4th beat
+ * audioService.startMetronome({ bpm: 28, accentEvery: 4 }, phaseStart, phaseEnd, owner);
+ *
+ * // User clips (decoded PCM) play through the same queue and master gain
+ * audioService.registerClip("go", clip);
+ * audioService.scheduleClip("go", performance.now());
+ *
+ * Scheduling uses the look-ahead pattern: a short timer loop hands tones
+ * to the AudioContext shortly before they're due, and the context starts
+ * them sample-accurately. Timers only need to be roughly on time.
+ *
  * @see https://developer.mozilla.org/en-US/docs/Web/API/Web_Audio_API/Best_practices
  * @see https://webkit.org/blog/6784/new-video-policies-for-ios/
+ * @see https://web.dev/articles/audio-scheduling
  */
 
 import { sessionRecorder } from "./pwaDebugServices";
+import type { Metronome } from "./workoutProgram";
 
 // ============================================================================
 // Types
@@ -33,6 +54,52 @@ import { sessionRecorder } from "./pwaDebugServices";
 /** AudioContext states including iOS-specific "interrupted" */
 type ContextState = "suspended" | "running" | "closed" | "interrupted";
 
+/** Master output, applied to every sound via the master gain node */
+export interface OutputSettings {
+	/** 0 to MAX_MASTER_VOLUME; 1 plays cues at their recipe volume */
+	volume: number;
+	muted: boolean;
+}
+
+/** One oscillator note to play at a set time */
+export interface ToneOptions {
+	/** Hz */
+	frequency: number;
+	/** Seconds */
+	duration: number;
+	/** Default "sine" */
+	type?: OscillatorType;
+	/** 0-1, default 0.7 */
+	volume?: number;
+	/** Hz to glide to over the duration */
+	endFrequency?: number;
+}
+
+/** Decoded audio to register for playback; plain data so it can be stored */
+export interface ClipData {
+	sampleRate: number;
+	/** One Float32Array of samples per channel */
+	channels: Float32Array[];
+}
+
+/**
+ * A sound to play at `at` milliseconds - performance.now() time in the
+ * look-ahead queue, time from the start when rendering to a file
+ */
+export type QueuedSound = { kind: "tone"; at: number; tone: ToneOptions } | { kind: "clip"; at: number; id: string; volume: number };
+
+/**
+ * Tags scheduled sounds so their scheduler can cancel just its own;
+ * sounds without one play out and can't be cancelled
+ */
+export type SoundOwner = symbol;
+
+/** A queued sound and who scheduled it; metronome beats are flagged so they aren't logged one by one */
+type OwnedSound = QueuedSound & { owner?: SoundOwner; beat?: boolean };
+
+/** A metronome's beats still to come */
+type RunningMetronome = Metronome & { start: number; until: number; nextBeat: number };
+
 /** Events recorded to session for debugging audio issues */
 type AudioEventType =
 	| "audio:context_created"
@@ -44,6 +111,11 @@ type AudioEventType =
 	| "audio:played"
 	| "audio:play_skipped"
 	| "audio:play_error"
+	| "audio:metronome_started"
+	| "audio:metronome_stopped"
+	| "audio:keep_alive_started"
+	| "audio:keep_alive_stopped"
+	| "audio:rendered"
 	| "audio:test_requested"
 	| "audio:test_success"
 	| "audio:test_failed";
@@ -55,6 +127,29 @@ type AudioEventType =
 /** Timeout for resume() - iOS Safari can hang indefinitely */
 const RESUME_TIMEOUT_MS = 3000;
 
+/** Above 1 boosts every cue for loud gyms (loud tones may clip) */
+export const MAX_MASTER_VOLUME = 1.5;
+
+const OUTPUT_STORAGE_KEY = "igor-timer:audio-output";
+
+const DEFAULT_OUTPUT: OutputSettings = { volume: 1, muted: false };
+
+/** How often the look-ahead loop runs while tones are queued */
+const SCHEDULER_INTERVAL_MS = 25;
+
+/** How far ahead of time tones are handed to the AudioContext */
+const SCHEDULE_AHEAD_MS = 100;
+
+/** Hidden tabs run timers about once a second, so look further ahead */
+const HIDDEN_SCHEDULE_AHEAD_MS = 1500;
+
+/** Tones this late (throttled tab, context not yet resumed) are dropped, not played late */
+const LATE_TOLERANCE_MS = 500;
+
+/** Metronome clicks - pack-independent, quieter than any cue; accents higher */
+export const METRONOME_BEAT: ToneOptions = { frequency: 1800, duration: 0.03, type: "triangle", volume: 0.3 };
+export const METRONOME_ACCENT: ToneOptions = { frequency: 2400, duration: 0.04, type: "triangle", volume: 0.5 };
+
 /** Events that indicate a user gesture (for iOS unlock) */
 const USER_GESTURE_EVENTS = ["touchstart", "touchend", "mousedown", "keydown", "click"] as const;
 
@@ -85,6 +180,15 @@ function withTimeout<T>(promise: Promise<T>, ms: number, timeoutMsg: string): Pr
 	return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timeoutId));
 }
 
+function loadOutputSettings(): OutputSettings {
+	try {
+		const stored = localStorage.getItem(OUTPUT_STORAGE_KEY);
+		return stored ? { ...DEFAULT_OUTPUT, ...JSON.parse(stored) } : DEFAULT_OUTPUT;
+	} catch {
+		return DEFAULT_OUTPUT;
+	}
+}
+
 /**
  * Play silent buffer to "warm up" iOS Safari AudioContext.
  * iOS sometimes requires actual playback (not just resume()) to unlock.
@@ -104,6 +208,54 @@ function playSilentWarmup(ctx: AudioContext): void {
 	}
 }
 
+/** Build and start a tone's oscillator and envelope at `startAt` (context seconds) */
+function startTone(ctx: BaseAudioContext, destination: AudioNode, tone: ToneOptions, startAt: number): OscillatorNode {
+	const { frequency, duration, type = "sine", volume = 0.7, endFrequency } = tone;
+	const oscillator = ctx.createOscillator();
+	const gain = ctx.createGain();
+
+	oscillator.connect(gain);
+	gain.connect(destination);
+
+	oscillator.frequency.value = frequency;
+	oscillator.type = type;
+	if (endFrequency !== undefined) {
+		oscillator.frequency.setValueAtTime(frequency, startAt);
+		oscillator.frequency.exponentialRampToValueAtTime(endFrequency, startAt + duration);
+	}
+
+	gain.gain.setValueAtTime(volume, startAt);
+	gain.gain.exponentialRampToValueAtTime(0.01, startAt + duration);
+
+	oscillator.start(startAt);
+	oscillator.stop(startAt + duration);
+	return oscillator;
+}
+
+function createClipBuffer(ctx: BaseAudioContext, clip: ClipData): AudioBuffer {
+	const buffer = ctx.createBuffer(clip.channels.length, clip.channels[0].length, clip.sampleRate);
+	clip.channels.forEach((samples, channel) => buffer.getChannelData(channel).set(samples));
+	return buffer;
+}
+
+/** Start a clip's buffer at `startAt` (context seconds) */
+function startClip(
+	ctx: BaseAudioContext,
+	destination: AudioNode,
+	buffer: AudioBuffer,
+	volume: number,
+	startAt: number,
+): AudioBufferSourceNode {
+	const source = ctx.createBufferSource();
+	const gain = ctx.createGain();
+	source.buffer = buffer;
+	source.connect(gain);
+	gain.connect(destination);
+	gain.gain.value = volume;
+	source.start(startAt);
+	return source;
+}
+
 // ============================================================================
 // AudioService Class
 // ============================================================================
@@ -112,6 +264,28 @@ class AudioService {
 	/** The shared AudioContext instance */
 	private context: AudioContext | null = null;
 
+	/** Master gain for the current context; every sound connects through it */
+	private masterGain: GainNode | null = null;
+
+	/** Master volume/mute, persisted to localStorage */
+	private output: OutputSettings = loadOutputSettings();
+
+	/** Sounds waiting to be handed to the context, soonest first */
+	private queue: OwnedSound[] = [];
+
+	/** Handed to the context and not yet ended, with their start times (context seconds) and owners */
+	private scheduledSources = new Map<AudioScheduledSourceNode, { startAt: number; owner?: SoundOwner }>();
+
+	/** Registered clips, and their AudioBuffers for the current context (built on first play) */
+	private clips = new Map<string, ClipData>();
+	private clipBuffers = new Map<string, AudioBuffer>();
+
+	/** One metronome per owner; beats are queued a look-ahead at a time, so a long phase isn't queued up front */
+	private metronomes = new Map<SoundOwner, RunningMetronome>();
+
+	/** The look-ahead loop; only runs while sounds are queued or a metronome runs */
+	private schedulerId: ReturnType<typeof setInterval> | null = null;
+
 	/** Promise for in-progress resume operation (allows coalescing parallel calls) */
 	private resumePromise: Promise<boolean> | null = null;
 
@@ -121,6 +295,10 @@ class AudioService {
 	/** Whether we've ever successfully unlocked (for statechange auto-recovery) */
 	private hasUnlockedBefore = false;
 
+	/** Whether a media session wants continuous (silent) playback, and its source */
+	private keepAlive = false;
+	private keepAliveSource: AudioBufferSourceNode | null = null;
+
 	// ==========================================================================
 	// Context Lifecycle
 	// ==========================================================================
@@ -138,6 +316,11 @@ class AudioService {
 			this.context = new AudioContextClass();
 			recordEvent("audio:context_created", { state: this.context.state });
 
+			this.masterGain = this.context.createGain();
+			this.masterGain.connect(this.context.destination);
+			this.applyOutput();
+			if (this.keepAlive) this.startKeepAlive(this.context);
+
 			this.setupListeners();
 			// Re-attach statechange listener for this new context instance
 			this.setupStateChangeListener();
@@ -167,6 +350,11 @@ class AudioService {
 		}
 
 		this.context = null;
+		this.masterGain = null;
+		this.keepAliveSource = null;
+		this.scheduledSources.clear();
+		// Buffers belong to the old context
+		this.clipBuffers.clear();
 		this.resumePromise = null;
 		this.hasUnlockedBefore = false;
 	}
@@ -285,6 +473,28 @@ class AudioService {
 		});
 	}
 
+	// ==========================================================================
+	// Output
+	// ==========================================================================
+
+	/** Push the master volume/mute to the gain node (takes effect on sounds already playing) */
+	private applyOutput(): void {
+		if (!this.masterGain) return;
+		this.masterGain.gain.value = this.output.muted ? 0 : this.output.volume;
+	}
+
+	getOutputSettings(): OutputSettings {
+		return this.output;
+	}
+
+	setOutputSettings(changes: Partial<OutputSettings>): void {
+		const output = { ...this.output, ...changes };
+		output.volume = Math.min(Math.max(output.volume, 0), MAX_MASTER_VOLUME);
+		this.output = output;
+		localStorage.setItem(OUTPUT_STORAGE_KEY, JSON.stringify(output));
+		this.applyOutput();
+	}
+
 	// ==========================================================================
 	// Playback
 	// ==========================================================================
@@ -303,18 +513,25 @@ class AudioService {
 	 * @param duration - seconds (default 0.15)
 	 * @param type - oscillator type (default "sine")
 	 * @param volume - 0-1 (default 0.7)
+	 * @param endFrequency - Hz to glide to over the duration (default: no glide)
 	 */
 	playBeep(
 		frequency = 880,
 		duration = 0.15,
 		type: OscillatorType = "sine",
-		volume = 0.7
+		volume = 0.7,
+		endFrequency?: number
 	): void {
+		if (this.output.muted) {
+			recordEvent("audio:play_skipped", { reason: "muted" });
+			return;
+		}
+
 		const ctx = this.getContext();
 		const state = ctx.state as ContextState;
 
 		if (state === "running") {
-			this.doPlayBeep(ctx, frequency, duration, type, volume);
+			this.doPlayBeep(ctx, frequency, duration, type, volume, endFrequency);
 			return;
 		}
 
@@ -327,7 +544,7 @@ class AudioService {
 
 			this.attemptResume("playBeep").then((success) => {
 				if (success && this.context?.state === "running") {
-					this.doPlayBeep(this.context, frequency, duration, type, volume);
+					this.doPlayBeep(this.context, frequency, duration, type, volume, endFrequency);
 				}
 			});
 			return;
@@ -338,42 +555,344 @@ class AudioService {
 
 	/**
 	 * Internal: actually play the beep (assumes context is running).
+	 *
+	 * @param startAt - context time in seconds (default: now)
+	 * @param record - whether to log the play (off for metronome beats, which would flood the session)
+	 * @returns The oscillator, or null if nothing was played
 	 */
 	private doPlayBeep(
 		ctx: AudioContext,
 		frequency: number,
 		duration: number,
 		type: OscillatorType,
-		volume: number
-	): void {
+		volume: number,
+		endFrequency?: number,
+		startAt = ctx.currentTime,
+		record = true
+	): OscillatorNode | null {
 		if (ctx.state !== "running") {
 			recordEvent("audio:play_skipped", { reason: "not_running", state: ctx.state });
-			return;
+			return null;
 		}
 
 		try {
-			const oscillator = ctx.createOscillator();
-			const gain = ctx.createGain();
+			const tone = { frequency, duration, type, volume, endFrequency };
+			const oscillator = startTone(ctx, this.masterGain ?? ctx.destination, tone, startAt);
+
+			if (record) recordEvent("audio:played", { frequency, duration, state: ctx.state });
+			return oscillator;
+		} catch (error) {
+			recordEvent("audio:play_error", { error: getErrorMessage(error), frequency });
+			this.destroyContext();
+			return null;
+		}
+	}
+
+	// ==========================================================================
+	// Clips
+	// ==========================================================================
+
+	/**
+	 * Decode an audio file (any format the browser supports) to plain PCM.
+	 * Works before the context is unlocked - decoding needs no user gesture.
+	 */
+	async decodeClip(bytes: ArrayBuffer): Promise<ClipData> {
+		const buffer = await this.getContext().decodeAudioData(bytes);
+		const channels: Float32Array[] = [];
+		for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+			channels.push(buffer.getChannelData(channel).slice());
+		}
+		return { sampleRate: buffer.sampleRate, channels };
+	}
+
+	/** Make a clip playable by id (replaces any clip with the same id) */
+	registerClip(id: string, clip: ClipData): void {
+		this.clips.set(id, clip);
+		this.clipBuffers.delete(id);
+	}
 
-			oscillator.connect(gain);
-			gain.connect(ctx.destination);
+	unregisterClip(id: string): void {
+		this.clips.delete(id);
+		this.clipBuffers.delete(id);
+	}
 
-			oscillator.frequency.value = frequency;
-			oscillator.type = type;
+	hasClip(id: string): boolean {
+		return this.clips.has(id);
+	}
+
+	/**
+	 * Internal: play a registered clip (assumes context is running).
+	 *
+	 * @returns The buffer source, or null if nothing was played
+	 */
+	private doPlayClip(ctx: AudioContext, id: string, volume: number, startAt: number): AudioBufferSourceNode | null {
+		const clip = this.clips.get(id);
+		if (!clip) {
+			recordEvent("audio:play_skipped", { reason: "missing_clip", id });
+			return null;
+		}
 
-			gain.gain.setValueAtTime(volume, ctx.currentTime);
-			gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+		try {
+			let buffer = this.clipBuffers.get(id);
+			if (!buffer) {
+				buffer = createClipBuffer(ctx, clip);
+				this.clipBuffers.set(id, buffer);
+			}
 
-			oscillator.start(ctx.currentTime);
-			oscillator.stop(ctx.currentTime + duration);
+			const source = startClip(ctx, this.masterGain ?? ctx.destination, buffer, volume, startAt);
 
-			recordEvent("audio:played", { frequency, duration, state: ctx.state });
+			recordEvent("audio:played", { clip: id, duration: buffer.duration, state: ctx.state });
+			return source;
 		} catch (error) {
-			recordEvent("audio:play_error", { error: getErrorMessage(error), frequency });
+			recordEvent("audio:play_error", { error: getErrorMessage(error), clip: id });
 			this.destroyContext();
+			return null;
 		}
 	}
 
+	// ==========================================================================
+	// Keep-Alive
+	// ==========================================================================
+
+	/**
+	 * Keep the context playing a silent loop between cues.
+	 *
+	 * Lock-screen and headset media controls only stay available while the
+	 * page is playing audio; a few beeps a minute isn't enough. The loop
+	 * bypasses the master gain so muting doesn't end the media session.
+	 */
+	setKeepAlive(active: boolean): void {
+		if (active === this.keepAlive) return;
+
+		if (active) {
+			// Create the context first; from then on getContext() restarts the loop itself
+			const ctx = this.getContext();
+			this.keepAlive = true;
+			this.startKeepAlive(ctx);
+		} else {
+			this.keepAlive = false;
+			this.stopKeepAlive();
+		}
+		recordEvent(active ? "audio:keep_alive_started" : "audio:keep_alive_stopped", {
+			state: this.context?.state ?? null,
+		});
+	}
+
+	private startKeepAlive(ctx: AudioContext): void {
+		try {
+			const source = ctx.createBufferSource();
+			// One second of silence, looped; plays once the context resumes
+			source.buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+			source.loop = true;
+			source.connect(ctx.destination);
+			source.start();
+			this.keepAliveSource = source;
+		} catch (error) {
+			recordEvent("audio:play_error", { error: getErrorMessage(error), keepAlive: true });
+		}
+	}
+
+	private stopKeepAlive(): void {
+		try {
+			this.keepAliveSource?.stop();
+		} catch {
+			// Already stopped
+		}
+		this.keepAliveSource = null;
+	}
+
+	// ==========================================================================
+	// Scheduling
+	// ==========================================================================
+
+	/**
+	 * Queue a tone to start at `at` (performance.now() milliseconds).
+	 * Tones due now play straight away; later ones are handed to the
+	 * AudioContext just ahead of time by the look-ahead loop.
+	 * Only sounds with an `owner` can be cancelled.
+	 */
+	scheduleTone(tone: ToneOptions, at: number, owner?: SoundOwner): void {
+		this.enqueue({ kind: "tone", at, tone, owner });
+	}
+
+	/** Queue a registered clip to start at `at` (performance.now() milliseconds) */
+	scheduleClip(id: string, at: number, volume = 1, owner?: SoundOwner): void {
+		this.enqueue({ kind: "clip", at, id, volume, owner });
+	}
+
+	private enqueue(sound: OwnedSound): void {
+		if (this.output.muted) return;
+
+		this.insert(sound);
+		this.ensureScheduler();
+	}
+
+	/** Add to the queue, keeping it soonest first */
+	private insert(sound: OwnedSound): void {
+		const index = this.queue.findIndex((queued) => queued.at > sound.at);
+		this.queue.splice(index === -1 ? this.queue.length : index, 0, sound);
+	}
+
+	private ensureScheduler(): void {
+		this.runScheduler();
+		if ((this.queue.length > 0 || this.metronomes.size > 0) && this.schedulerId === null) {
+			this.schedulerId = setInterval(() => this.runScheduler(), SCHEDULER_INTERVAL_MS);
+		}
+	}
+
+	/**
+	 * Tick at `bpm` on the AudioContext clock from `start` until `until`
+	 * (performance.now() milliseconds), replacing the owner's metronome if
+	 * it has one running. Beats count from `start`, so accents stay on the
+	 * bar when resuming mid-phase; beat 0 is skipped - the phase's own cue
+	 * marks it. Stopped by cancelScheduled(owner).
+	 */
+	startMetronome({ bpm, accentEvery }: Metronome, start: number, until: number, owner: SoundOwner): void {
+		if (this.output.muted || bpm <= 0) return;
+
+		const interval = 60000 / bpm;
+		const nextBeat = Math.max(Math.ceil((performance.now() - start) / interval), 1);
+		if (this.metronomes.has(owner)) recordEvent("audio:metronome_stopped", { reason: "replaced" });
+		this.metronomes.set(owner, { bpm, accentEvery, start, until, nextBeat });
+		recordEvent("audio:metronome_started", { bpm, accentEvery, durationMs: Math.round(until - start) });
+		this.ensureScheduler();
+	}
+
+	/** Move the metronomes' beats up to `horizon` into the queue */
+	private queueBeats(horizon: number): void {
+		this.metronomes.forEach((metronome, owner) => {
+			const interval = 60000 / metronome.bpm;
+			const beatAt = () => metronome.start + metronome.nextBeat * interval;
+			while (beatAt() <= horizon && beatAt() < metronome.until) {
+				const accent = metronome.accentEvery && metronome.nextBeat % metronome.accentEvery === 0;
+				this.insert({ kind: "tone", at: beatAt(), tone: accent ? METRONOME_ACCENT : METRONOME_BEAT, owner, beat: true });
+				metronome.nextBeat++;
+			}
+			if (beatAt() >= metronome.until) {
+				this.metronomes.delete(owner);
+				recordEvent("audio:metronome_stopped", { reason: "ended" });
+			}
+		});
+	}
+
+	/**
+	 * Drop the owner's queued sounds and metronome, and stop its scheduled
+	 * sounds that haven't started. Sounds already playing finish normally.
+	 */
+	cancelScheduled(owner: SoundOwner): void {
+		this.queue = this.queue.filter((sound) => sound.owner !== owner);
+		if (this.metronomes.delete(owner)) recordEvent("audio:metronome_stopped", { reason: "cancelled" });
+		if (this.queue.length === 0 && this.metronomes.size === 0) {
+			this.stopScheduler();
+		}
+
+		const now = this.context?.currentTime ?? 0;
+		this.scheduledSources.forEach(({ startAt, owner: sourceOwner }, source) => {
+			if (sourceOwner !== owner) return;
+			if (startAt > now) {
+				try {
+					source.stop();
+				} catch {
+					// Already stopped
+				}
+			}
+			this.scheduledSources.delete(source);
+		});
+	}
+
+	/** One pass of the look-ahead loop */
+	private runScheduler(): void {
+		const now = performance.now();
+		const ctx = this.getContext();
+		const running = ctx.state === "running";
+		if (!running && (ctx.state === "suspended" || (ctx.state as ContextState) === "interrupted")) {
+			this.attemptResume("scheduler");
+		}
+
+		const horizon = now + (document.visibilityState === "hidden" ? HIDDEN_SCHEDULE_AHEAD_MS : SCHEDULE_AHEAD_MS);
+		this.queueBeats(horizon);
+		while (this.queue.length > 0 && this.queue[0].at <= horizon) {
+			const sound = this.queue[0];
+			if (sound.at < now - LATE_TOLERANCE_MS) {
+				this.queue.shift();
+				if (!sound.beat) recordEvent("audio:play_skipped", { reason: "late", lateMs: Math.round(now - sound.at) });
+				continue;
+			}
+			// Keep it queued until the context is running (or it's too late)
+			if (!running) break;
+
+			this.queue.shift();
+			const startAt = ctx.currentTime + Math.max(sound.at - now, 0) / 1000;
+			let source: AudioScheduledSourceNode | null;
+			if (sound.kind === "tone") {
+				const { frequency, duration, type = "sine", volume = 0.7, endFrequency } = sound.tone;
+				source = this.doPlayBeep(ctx, frequency, duration, type, volume, endFrequency, startAt, !sound.beat);
+			} else {
+				source = this.doPlayClip(ctx, sound.id, sound.volume, startAt);
+			}
+			if (source) {
+				const node = source;
+				this.scheduledSources.set(node, { startAt, owner: sound.owner });
+				node.onended = () => this.scheduledSources.delete(node);
+			}
+		}
+
+		if (this.queue.length === 0 && this.metronomes.size === 0) {
+			this.stopScheduler();
+		}
+	}
+
+	private stopScheduler(): void {
+		if (this.schedulerId !== null) {
+			clearInterval(this.schedulerId);
+			this.schedulerId = null;
+		}
+	}
+
+	// ==========================================================================
+	// Offline Rendering
+	// ==========================================================================
+
+	/**
+	 * Render sounds into mono PCM, faster than real time, with the same
+	 * tones, clips and master volume as live playback (mute doesn't apply -
+	 * rendering is an explicit request). `at` is milliseconds from the start.
+	 *
+	 * Rejects if the browser has no OfflineAudioContext.
+	 */
+	async render(sounds: QueuedSound[], duration: number, sampleRate: number): Promise<ClipData> {
+		if (typeof OfflineAudioContext === "undefined") {
+			throw new Error("This browser can't render audio");
+		}
+
+		const ctx = new OfflineAudioContext(1, Math.ceil(duration * sampleRate), sampleRate);
+		const master = ctx.createGain();
+		master.gain.value = this.output.volume;
+		master.connect(ctx.destination);
+
+		// Each clip is converted once, however often it plays
+		const clipBuffers = new Map<string, AudioBuffer>();
+		for (const sound of sounds) {
+			const startAt = sound.at / 1000;
+			if (sound.kind === "tone") {
+				startTone(ctx, master, sound.tone, startAt);
+				continue;
+			}
+			const clip = this.clips.get(sound.id);
+			if (!clip) continue;
+			let buffer = clipBuffers.get(sound.id);
+			if (!buffer) {
+				buffer = createClipBuffer(ctx, clip);
+				clipBuffers.set(sound.id, buffer);
+			}
+			startClip(ctx, master, buffer, sound.volume, startAt);
+		}
+
+		const rendered = await ctx.startRendering();
+		recordEvent("audio:rendered", { sounds: sounds.length, duration, sampleRate });
+		return { sampleRate, channels: [rendered.getChannelData(0)] };
+	}
+
 	// ==========================================================================
 	// Public API
 	// ==========================================================================
@@ -407,7 +926,7 @@ class AudioService {
 
 	/**
 	 * Test sound playback.
-	 * Plays a recognizable beep and returns diagnostic info.
+	 * Plays a recognizable beep (at the master volume) and returns diagnostic info.
 	 * Used by the settings panel "Test Sound" button.
 	 *
 	 * @returns Diagnostic info about the attempt
@@ -425,6 +944,11 @@ class AudioService {
 		try {
 			const success = await this.attemptResume("testSound");
 
+			if (success && this.context?.state === "running" && this.output.muted) {
+				recordEvent("audio:test_failed", { reason: "muted", state: this.context.state });
+				return { state: this.context.state, played: false, error: "Muted" };
+			}
+
 			if (success && this.context?.state === "running") {
 				this.doPlayBeep(this.context, 440, 0.3, "sine", 0.8);
 				recordEvent("audio:test_success", { state: this.context.state });
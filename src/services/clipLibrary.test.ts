@@ -0,0 +1,108 @@
+/**
+ * ClipLibrary Tests
+ *
+ * Decoding and IndexedDB are mocked; jsdom has neither.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./audioService", () => ({
+	audioService: {
+		decodeClip: vi.fn(),
+		registerClip: vi.fn(),
+		unregisterClip: vi.fn(),
+	},
+}));
+vi.mock("./clipStorage", () => ({
+	loadClips: vi.fn().mockResolvedValue([]),
+	saveClip: vi.fn().mockResolvedValue(undefined),
+	deleteClip: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+/** A mono clip of the given length at 8kHz */
+function decoded(seconds: number) {
+	return { sampleRate: 8000, channels: [new Float32Array(seconds * 8000)] };
+}
+
+/** A fresh library per test */
+async function setup() {
+	const { clipLibrary } = await import("./clipLibrary");
+	const { audioService } = await import("./audioService");
+	const storage = await import("./clipStorage");
+	const soundPacks = await import("./soundPacks");
+	return { clipLibrary, audioService, ...storage, ...soundPacks };
+}
+
+function audioFile(name: string, bytes = 1000) {
+	const file = new File([new Uint8Array(bytes)], name, { type: "audio/mpeg" });
+	// jsdom's File has no arrayBuffer()
+	return Object.assign(file, { arrayBuffer: async () => new ArrayBuffer(bytes) });
+}
+
+describe("clipLibrary", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		vi.clearAllMocks();
+		vi.resetModules();
+	});
+
+	it("should register stored clips on load", async () => {
+		const { clipLibrary, audioService, loadClips } = await setup();
+		const stored = { id: "clip-1", name: "Bell", ...decoded(1), duration: 1, createdAt: 1 };
+		vi.mocked(loadClips).mockResolvedValueOnce([stored]);
+
+		await clipLibrary.load();
+
+		expect(audioService.registerClip).toHaveBeenCalledWith("clip-1", stored);
+		expect(clipLibrary.getClips()).toEqual([stored]);
+	});
+
+	it("should decode, store and register an imported file", async () => {
+		const { clipLibrary, audioService, saveClip } = await setup();
+		vi.mocked(audioService.decodeClip).mockResolvedValueOnce(decoded(2));
+
+		const clip = await clipLibrary.importFile(audioFile("Go Go Go.mp3"));
+
+		expect(clip).toMatchObject({ name: "Go Go Go", duration: 2, sampleRate: 8000 });
+		expect(saveClip).toHaveBeenCalledWith(clip);
+		expect(audioService.registerClip).toHaveBeenCalledWith(clip.id, clip);
+		expect(clipLibrary.getClips()).toEqual([clip]);
+	});
+
+	it("should reject clips that are too long", async () => {
+		const { clipLibrary, audioService, saveClip } = await setup();
+		vi.mocked(audioService.decodeClip).mockResolvedValueOnce(decoded(30));
+
+		await expect(clipLibrary.importFile(audioFile("speech.mp3"))).rejects.toThrow("at most 10s");
+		expect(saveClip).not.toHaveBeenCalled();
+	});
+
+	it("should reject files that aren't audio", async () => {
+		const { clipLibrary, audioService } = await setup();
+		vi.mocked(audioService.decodeClip).mockRejectedValueOnce(new DOMException("Unable to decode"));
+
+		await expect(clipLibrary.importFile(audioFile("notes.txt"))).rejects.toThrow("Couldn't read notes.txt as audio");
+	});
+
+	it("should reject huge files without decoding them", async () => {
+		const { clipLibrary, audioService } = await setup();
+
+		await expect(clipLibrary.importFile(audioFile("album.flac", 6 * 1024 * 1024))).rejects.toThrow("too large");
+		expect(audioService.decodeClip).not.toHaveBeenCalled();
+	});
+
+	it("should put cues using a deleted clip back on the sound pack", async () => {
+		const { clipLibrary, audioService, deleteClip, getCueSettings, setCueSettings } = await setup();
+		vi.mocked(audioService.decodeClip).mockResolvedValueOnce(decoded(1));
+		const clip = await clipLibrary.importFile(audioFile("bell.wav"));
+		setCueSettings("start", { clipId: clip.id, volume: 0.5 });
+
+		await clipLibrary.remove(clip.id);
+
+		expect(deleteClip).toHaveBeenCalledWith(clip.id);
+		expect(audioService.unregisterClip).toHaveBeenCalledWith(clip.id);
+		expect(getCueSettings().start).toEqual({ enabled: true, volume: 0.5, clipId: null });
+		expect(clipLibrary.getClips()).toEqual([]);
+	});
+});
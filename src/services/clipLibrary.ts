@@ -0,0 +1,145 @@
+/**
+ * ClipLibrary - User Audio Clips for Cues
+ *
+ * Coaches can import their own short recordings (a shouted "go!", a gym
+ * bell sample) and assign them to cues in place of the synthesized beeps.
+ * Files are decoded once on import and stored as PCM in IndexedDB, so they
+ * work fully offline. Every clip is registered with audioService, which
+ * plays them through the same unlock/recovery path and master gain as the
+ * beeps.
+ *
+ * @example
+ * await clipLibrary.load(); // on startup
+ *
+ * const clip = await clipLibrary.importFile(file); // throws with a message to show
+ * setCueSettings("start", { clipId: clip.id });
+ */
+
+import { audioService, type ClipData } from "./audioService";
+import { type AudioClip, deleteClip, loadClips, saveClip } from "./clipStorage";
+import { sessionRecorder } from "./pwaDebugServices";
+import { type CueName, getCueSettings, setCueSettings } from "./soundPacks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Events recorded to session for debugging clip issues */
+type ClipEventType = "clip:imported" | "clip:import_failed" | "clip:deleted";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Cues are short; anything longer would run into the next cue */
+export const MAX_CLIP_SECONDS = 10;
+
+/** Refuse huge files before trying to decode them */
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: ClipEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+/** "Gym Bell.mp3" -> "Gym Bell" */
+function getClipName(fileName: string): string {
+	return fileName.replace(/\.[^.]+$/, "") || fileName;
+}
+
+function createClipId(): string {
+	return `clip-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ============================================================================
+// ClipLibrary Class
+// ============================================================================
+
+class ClipLibrary {
+	private clips: AudioClip[] = [];
+	private loading: Promise<AudioClip[]> | null = null;
+
+	/** Load stored clips and make them playable; safe to call repeatedly */
+	load(): Promise<AudioClip[]> {
+		if (!this.loading) {
+			this.loading = loadClips().then((clips) => {
+				this.clips = clips;
+				clips.forEach((clip) => audioService.registerClip(clip.id, clip));
+				return clips;
+			});
+		}
+		return this.loading;
+	}
+
+	getClips(): AudioClip[] {
+		return this.clips;
+	}
+
+	getClip(id: string): AudioClip | undefined {
+		return this.clips.find((clip) => clip.id === id);
+	}
+
+	/**
+	 * Decode, validate and store an audio file.
+	 * Rejects with a user-facing message if the file can't be used.
+	 */
+	async importFile(file: File): Promise<AudioClip> {
+		try {
+			if (file.size > MAX_FILE_BYTES) {
+				throw new Error(`${file.name} is too large - clips must be short sounds`);
+			}
+
+			let data: ClipData;
+			try {
+				data = await audioService.decodeClip(await file.arrayBuffer());
+			} catch {
+				throw new Error(`Couldn't read ${file.name} as audio`);
+			}
+
+			const duration = data.channels[0].length / data.sampleRate;
+			if (duration > MAX_CLIP_SECONDS) {
+				throw new Error(`${file.name} is ${Math.round(duration)}s - clips can be at most ${MAX_CLIP_SECONDS}s`);
+			}
+
+			const clip: AudioClip = {
+				id: createClipId(),
+				name: getClipName(file.name),
+				...data,
+				duration,
+				createdAt: Date.now(),
+			};
+			await saveClip(clip).catch(() => {
+				throw new Error(`Couldn't save ${file.name} - storage may be full`);
+			});
+
+			audioService.registerClip(clip.id, clip);
+			this.clips = [...this.clips, clip];
+			recordEvent("clip:imported", { name: clip.name, duration, sampleRate: clip.sampleRate });
+			return clip;
+		} catch (error) {
+			recordEvent("clip:import_failed", { name: file.name, type: file.type, error: (error as Error).message });
+			throw error;
+		}
+	}
+
+	/** Delete a clip; cues using it go back to the sound pack's beeps */
+	async remove(id: string): Promise<void> {
+		await deleteClip(id);
+		audioService.unregisterClip(id);
+		this.clips = this.clips.filter((clip) => clip.id !== id);
+
+		const cueSettings = getCueSettings();
+		for (const cue of Object.keys(cueSettings) as CueName[]) {
+			if (cueSettings[cue].clipId === id) {
+				setCueSettings(cue, { clipId: null });
+			}
+		}
+		recordEvent("clip:deleted", { id });
+	}
+}
+
+// Export singleton
+export const clipLibrary = new ClipLibrary();
@@ -0,0 +1,80 @@
+import { openDB, STORES } from "./database";
+
+const STORE_NAME = STORES.clips;
+
+/**
+ * A user audio clip, as stored.
+ *
+ * Kept as decoded PCM rather than the original file so playback never
+ * depends on the browser still supporting the file's codec.
+ */
+export interface AudioClip {
+	id: string;
+	/** File name without extension */
+	name: string;
+	sampleRate: number;
+	/** One Float32Array of samples per channel */
+	channels: Float32Array[];
+	/** Seconds */
+	duration: number;
+	createdAt: number;
+}
+
+/** Every stored clip, oldest first */
+export async function loadClips(): Promise<AudioClip[]> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve) => {
+			const transaction = db.transaction(STORE_NAME, "readonly");
+			const store = transaction.objectStore(STORE_NAME);
+			const request = store.getAll();
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			request.onsuccess = () => {
+				const clips = request.result as AudioClip[];
+				resolve(clips.sort((a, b) => a.createdAt - b.createdAt));
+			};
+
+			request.onerror = () => resolve([]);
+		});
+	} catch {
+		return [];
+	}
+}
+
+/** Unlike the other stores this one rejects - a clip that wasn't saved must not look imported */
+export async function saveClip(clip: AudioClip): Promise<void> {
+	const db = await openDB();
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, "readwrite");
+		const store = transaction.objectStore(STORE_NAME);
+
+		transaction.oncomplete = () => db.close();
+		transaction.onerror = () => db.close();
+
+		const request = store.put(clip, clip.id);
+		request.onsuccess = () => resolve();
+		request.onerror = () => reject(request.error);
+	});
+}
+
+export async function deleteClip(id: string): Promise<void> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(STORE_NAME, "readwrite");
+			const store = transaction.objectStore(STORE_NAME);
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			const request = store.delete(id);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	} catch {
+		// Silently fail
+	}
+}
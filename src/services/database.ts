@@ -0,0 +1,39 @@
+/**
+ * Shared IndexedDB database for everything the app persists.
+ *
+ * Each storage module owns one object store; they all live in the same
+ * database, so the store list and version are kept here in one place.
+ * Bump DB_VERSION when adding a store - the upgrade creates any missing ones.
+ */
+
+const DB_NAME = "igor-timer";
+const DB_VERSION = 4;
+
+export const STORES = {
+	/** Sets counter (setsStorage) */
+	sets: "sets",
+	/** In-progress interval workout (workoutStorage) */
+	workout: "workout",
+	/** User audio clips for cues (clipStorage) */
+	clips: "clips",
+	/** User timer presets (presetStorage) */
+	presets: "presets",
+} as const;
+
+export function openDB(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+		request.onerror = () => reject(request.error);
+		request.onsuccess = () => resolve(request.result);
+
+		request.onupgradeneeded = (event) => {
+			const db = (event.target as IDBOpenDBRequest).result;
+			for (const name of Object.values(STORES)) {
+				if (!db.objectStoreNames.contains(name)) {
+					db.createObjectStore(name);
+				}
+			}
+		};
+	});
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { attachHapticCues } from "./hapticCues";
+import type { hapticService } from "./hapticService";
+import { type TimerClock, TimerEngine, type TimerProfile } from "./timerEngine";
+
+const profile: TimerProfile = {
+	name: "Test",
+	workTime: 5,
+	restTime: 4,
+	rounds: 2,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 3,
+};
+
+/** Clock where each advance fires the engine's tick once */
+function createClock() {
+	let time = 0;
+	let tick: (() => void) | null = null;
+	const clock: TimerClock = {
+		now: () => time,
+		setInterval: (callback) => {
+			tick = callback;
+			return 1;
+		},
+		clearInterval: () => {
+			tick = null;
+		},
+	};
+	const advance = (seconds: number) => {
+		for (let i = 0; i < seconds; i++) {
+			time += 1000;
+			tick?.();
+		}
+	};
+	return { clock, advance };
+}
+
+function createHaptics() {
+	const haptics = { vibrate: vi.fn(), cancel: vi.fn() } as unknown as typeof hapticService;
+	const cues = () => vi.mocked(haptics.vibrate).mock.calls.map(([cue]) => cue);
+	return { haptics, cues };
+}
+
+describe("hapticCues", () => {
+	it("should vibrate transitions, countdown ticks and the finish", () => {
+		const { clock, advance } = createClock();
+		const { haptics, cues } = createHaptics();
+		const engine = new TimerEngine(profile, clock);
+		attachHapticCues(engine, haptics);
+
+		engine.start();
+		advance(3 + 5 + 4 + 5);
+
+		expect(cues()).toEqual([
+			"start",
+			"countdown", "countdown",
+			"start",
+			"countdown", "countdown", "countdown",
+			"end",
+			"countdown", "countdown", "countdown",
+			"start",
+			"countdown", "countdown", "countdown",
+			"finish",
+		]);
+	});
+
+	it("should stop on pause and stay still for skips while paused", () => {
+		const { clock } = createClock();
+		const { haptics, cues } = createHaptics();
+		const engine = new TimerEngine(profile, clock);
+		attachHapticCues(engine, haptics);
+
+		engine.start();
+		engine.pause();
+		engine.skipPhase();
+
+		expect(haptics.cancel).toHaveBeenCalled();
+		expect(cues()).toEqual(["start"]);
+	});
+});
@@ -0,0 +1,38 @@
+/**
+ * Vibration cues, attached to a TimerEngine as event listeners - the same
+ * moments as the audio cues, on their own channel.
+ */
+
+import { type HapticCue, hapticService } from "./hapticService";
+import type { TimerEngine } from "./timerEngine";
+import type { PlannedSegment } from "./workoutProgram";
+
+/** The cue for entering a segment; prep is silent */
+function getEntryCue(segment: PlannedSegment): HapticCue | null {
+	if (segment.type === "work" || segment.type === "warmup") return "start";
+	return segment.type === "prep" ? null : "end";
+}
+
+/** Vibrate for the engine's workout; returns a function that detaches the cues */
+export function attachHapticCues(engine: TimerEngine, haptics = hapticService): () => void {
+	const unsubscribers = [
+		engine.on("phaseChange", ({ segment, reason, state }) => {
+			// Silent while paused (e.g. skipping phases during a pause)
+			if (!state.isRunning) return;
+			const cue = reason === "start" ? "start" : getEntryCue(segment);
+			if (cue) haptics.vibrate(cue);
+		}),
+		engine.on("countdown", ({ state }) => {
+			if (state.isRunning) haptics.vibrate("countdown");
+		}),
+		engine.on("change", (state) => {
+			// Paused, reset or finished - stop a pattern mid-buzz
+			if (!state.isRunning) haptics.cancel();
+		}),
+		engine.on("finished", () => {
+			haptics.vibrate("finish");
+		}),
+	];
+
+	return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,106 @@
+/**
+ * HapticService Tests
+ *
+ * navigator.vibrate is stubbed; jsdom doesn't have it.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+const vibrate = vi.fn(() => true);
+
+describe("HapticService", () => {
+	beforeEach(() => {
+		Object.defineProperty(navigator, "vibrate", { configurable: true, value: vibrate });
+		localStorage.clear();
+		vi.clearAllMocks();
+		vi.resetModules();
+	});
+
+	afterEach(() => {
+		// @ts-expect-error - removing the stub
+		delete navigator.vibrate;
+	});
+
+	it("should give every cue a distinct default pattern", async () => {
+		const { DEFAULT_PATTERNS } = await import("./hapticService");
+		const patterns = Object.values(DEFAULT_PATTERNS).map((pattern) => pattern.join());
+
+		expect(new Set(patterns).size).toBe(patterns.length);
+	});
+
+	it("should stay still until enabled", async () => {
+		const { hapticService } = await import("./hapticService");
+
+		hapticService.vibrate("start");
+
+		expect(vibrate).not.toHaveBeenCalled();
+	});
+
+	it("should vibrate each cue's pattern once enabled", async () => {
+		const { hapticService } = await import("./hapticService");
+		hapticService.setSettings({ enabled: true });
+
+		hapticService.vibrate("start");
+		hapticService.vibrate("end");
+		hapticService.vibrate("countdown");
+		hapticService.vibrate("finish");
+
+		expect(vibrate.mock.calls).toEqual([[[500]], [[150, 100, 150]], [[60]], [[300, 150, 300, 150, 800]]]);
+	});
+
+	it("should use edited patterns and skip cues turned off, across reloads", async () => {
+		const first = await import("./hapticService");
+		first.hapticService.setSettings({ enabled: true });
+		first.hapticService.setCueSettings("end", { pattern: [100, 50, 100, 50, 100] });
+		first.hapticService.setCueSettings("countdown", { enabled: false });
+
+		vi.resetModules();
+		const { hapticService } = await import("./hapticService");
+		hapticService.vibrate("end");
+		hapticService.vibrate("countdown");
+
+		expect(vibrate.mock.calls).toEqual([[[100, 50, 100, 50, 100]]]);
+	});
+
+	it("should preview a cue even when turned off", async () => {
+		const { hapticService } = await import("./hapticService");
+
+		hapticService.vibrate("finish", { force: true });
+
+		expect(vibrate).toHaveBeenCalledWith([300, 150, 300, 150, 800]);
+	});
+
+	it("should do nothing where vibration is unsupported", async () => {
+		// @ts-expect-error - removing the stub
+		delete navigator.vibrate;
+		const { hapticService } = await import("./hapticService");
+		hapticService.setSettings({ enabled: true });
+
+		expect(hapticService.isSupported()).toBe(false);
+		expect(() => {
+			hapticService.vibrate("start");
+			hapticService.cancel();
+		}).not.toThrow();
+	});
+
+	describe("parsePattern", () => {
+		it("should read comma or space separated milliseconds", async () => {
+			const { parsePattern } = await import("./hapticService");
+
+			expect(parsePattern("200, 100,200")).toEqual([200, 100, 200]);
+			expect(parsePattern(" 300 0 300 ")).toEqual([300, 0, 300]);
+		});
+
+		it("should reject anything navigator.vibrate shouldn't get", async () => {
+			const { parsePattern } = await import("./hapticService");
+
+			expect(parsePattern("")).toBeNull();
+			expect(parsePattern("200, abc")).toBeNull();
+			expect(parsePattern("-100")).toBeNull();
+			expect(parsePattern("0, 0")).toBeNull();
+			expect(parsePattern("60000")).toBeNull();
+		});
+	});
+});
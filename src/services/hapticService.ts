@@ -0,0 +1,172 @@
+/**
+ * HapticService - Vibration Cues
+ *
+ * With music in headphones the beeps get lost; on Android a buzz in the
+ * pocket is the cue that always gets through. Each cue has its own
+ * pattern so they can be told apart without looking, and each can be
+ * edited or turned off. Settings persist to localStorage.
+ *
+ * Where navigator.vibrate doesn't exist (iOS Safari, desktop) every call
+ * is a silent no-op.
+ *
+ * @example
+ * hapticService.setSettings({ enabled: true });
+ * hapticService.vibrate("countdown");
+ *
+ * // Edit a pattern from user text
+ * const pattern = parsePattern("200, 100, 200");
+ * if (pattern) hapticService.setCueSettings("end", { pattern });
+ */
+
+import { sessionRecorder } from "./pwaDebugServices";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HapticCue = "start" | "end" | "countdown" | "finish";
+
+/** Alternating vibrate/pause lengths in milliseconds, as navigator.vibrate takes them */
+export type VibrationPattern = number[];
+
+export interface HapticCueSettings {
+	enabled: boolean;
+	pattern: VibrationPattern;
+}
+
+export interface HapticSettings {
+	enabled: boolean;
+	cues: Record<HapticCue, HapticCueSettings>;
+}
+
+/** Events recorded to session for debugging vibration issues */
+type HapticEventType = "haptic:vibrated" | "haptic:error";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SETTINGS_STORAGE_KEY = "igor-timer:haptics";
+
+/** Longest pattern step, and most steps, we accept from the settings input */
+const MAX_STEP_MS = 5000;
+const MAX_STEPS = 20;
+
+/** Cue names in display order, with labels for settings */
+export const HAPTIC_CUE_LABELS: Record<HapticCue, string> = {
+	start: "Work starts",
+	end: "Rest starts",
+	countdown: "Countdown",
+	finish: "Finish",
+};
+
+/** One long buzz to go, two short to rest, a tap per second, a long-long-longer finish */
+export const DEFAULT_PATTERNS: Record<HapticCue, VibrationPattern> = {
+	start: [500],
+	end: [150, 100, 150],
+	countdown: [60],
+	finish: [300, 150, 300, 150, 800],
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: HapticEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+function getDefaultSettings(): HapticSettings {
+	const cues = {} as Record<HapticCue, HapticCueSettings>;
+	for (const cue of Object.keys(DEFAULT_PATTERNS) as HapticCue[]) {
+		cues[cue] = { enabled: true, pattern: DEFAULT_PATTERNS[cue] };
+	}
+	return { enabled: false, cues };
+}
+
+function loadSettings(): HapticSettings {
+	const defaults = getDefaultSettings();
+	try {
+		const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "{}") as Partial<HapticSettings>;
+		const cues = { ...defaults.cues };
+		for (const cue of Object.keys(cues) as HapticCue[]) {
+			cues[cue] = { ...cues[cue], ...stored.cues?.[cue] };
+		}
+		return { enabled: stored.enabled ?? defaults.enabled, cues };
+	} catch {
+		return defaults;
+	}
+}
+
+/**
+ * Parse a pattern typed as milliseconds, e.g. "200, 100, 200".
+ * Returns null unless it's 1-20 whole numbers, each 0-5000, not all zero.
+ */
+export function parsePattern(text: string): VibrationPattern | null {
+	const parts = text.split(/[\s,]+/).filter(Boolean);
+	if (parts.length === 0 || parts.length > MAX_STEPS) return null;
+
+	const pattern = parts.map(Number);
+	const valid = pattern.every((ms) => Number.isInteger(ms) && ms >= 0 && ms <= MAX_STEP_MS);
+	return valid && pattern.some((ms) => ms > 0) ? pattern : null;
+}
+
+/** [200, 100, 200] -> "200, 100, 200" */
+export function formatPattern(pattern: VibrationPattern): string {
+	return pattern.join(", ");
+}
+
+// ============================================================================
+// HapticService Class
+// ============================================================================
+
+class HapticService {
+	private settings: HapticSettings = loadSettings();
+
+	isSupported(): boolean {
+		return typeof navigator !== "undefined" && typeof navigator.vibrate === "function";
+	}
+
+	getSettings(): HapticSettings {
+		return this.settings;
+	}
+
+	setSettings(changes: Partial<Omit<HapticSettings, "cues">>): void {
+		this.settings = { ...this.settings, ...changes };
+		this.save();
+	}
+
+	setCueSettings(cue: HapticCue, changes: Partial<HapticCueSettings>): void {
+		const cues = { ...this.settings.cues, [cue]: { ...this.settings.cues[cue], ...changes } };
+		this.settings = { ...this.settings, cues };
+		this.save();
+	}
+
+	/** Buzz a cue's pattern, if vibration and that cue are on (`force` for previews) */
+	vibrate(cue: HapticCue, { force = false }: { force?: boolean } = {}): void {
+		const { enabled, pattern } = this.settings.cues[cue];
+		if (!this.isSupported() || (!force && (!this.settings.enabled || !enabled))) return;
+
+		try {
+			// false when the browser refuses (e.g. no user gesture yet)
+			const accepted = navigator.vibrate(pattern);
+			recordEvent("haptic:vibrated", { cue, pattern, accepted });
+		} catch (error) {
+			recordEvent("haptic:error", { cue, error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	/** Stop any pattern still running (e.g. on pause or reset) */
+	cancel(): void {
+		if (this.isSupported()) {
+			navigator.vibrate(0);
+		}
+	}
+
+	private save(): void {
+		localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+	}
+}
+
+// Export singleton
+export const hapticService = new HapticService();
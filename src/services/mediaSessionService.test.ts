@@ -0,0 +1,127 @@
+/**
+ * MediaSessionService Tests
+ *
+ * jsdom has no Media Session API; navigator.mediaSession and MediaMetadata are mocked.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./audioService", () => ({ audioService: { setKeepAlive: vi.fn() } }));
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+class MockMediaMetadata {
+	title: string;
+	artist: string;
+	album: string;
+	constructor({ title = "", artist = "", album = "" }: MediaMetadataInit) {
+		this.title = title;
+		this.artist = artist;
+		this.album = album;
+	}
+}
+
+function mockMediaSession() {
+	const handlers = new Map<string, (() => void) | null>();
+	const unsupported = new Set<string>();
+	const mediaSession = {
+		metadata: null as MockMediaMetadata | null,
+		playbackState: "none",
+		setActionHandler: vi.fn((action: string, handler: (() => void) | null) => {
+			if (unsupported.has(action)) throw new TypeError("unsupported");
+			handlers.set(action, handler);
+		}),
+	};
+	Object.defineProperty(navigator, "mediaSession", { value: mediaSession, configurable: true });
+	vi.stubGlobal("MediaMetadata", MockMediaMetadata);
+	return { mediaSession, handlers, unsupported };
+}
+
+describe("mediaSessionService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	afterEach(() => {
+		// @ts-expect-error - removing the mock
+		delete navigator.mediaSession;
+		vi.unstubAllGlobals();
+	});
+
+	it("should show the title, artist and playback state", async () => {
+		const { mediaSession } = mockMediaSession();
+		const { mediaSessionService } = await import("./mediaSessionService");
+		const { audioService } = await import("./audioService");
+
+		mediaSessionService.update({ title: "WORK — Round 2/6", artist: "Tabata", playing: true });
+
+		expect(mediaSession.metadata).toMatchObject({ title: "WORK — Round 2/6", artist: "Tabata", album: "Igor Timer" });
+		expect(mediaSession.playbackState).toBe("playing");
+		expect(audioService.setKeepAlive).toHaveBeenCalledWith(true);
+	});
+
+	it("should keep the metadata when only the playback state changes", async () => {
+		const { mediaSession } = mockMediaSession();
+		const { mediaSessionService } = await import("./mediaSessionService");
+
+		mediaSessionService.update({ title: "REST — Round 1/3", artist: "5-1", playing: true });
+		const metadata = mediaSession.metadata;
+		mediaSessionService.update({ title: "REST — Round 1/3", artist: "5-1", playing: false });
+
+		expect(mediaSession.metadata).toBe(metadata);
+		expect(mediaSession.playbackState).toBe("paused");
+	});
+
+	it("should route play, pause and next-track to the timer", async () => {
+		const { handlers } = mockMediaSession();
+		const { mediaSessionService } = await import("./mediaSessionService");
+		const toggle = vi.fn();
+		const next = vi.fn();
+
+		const detach = mediaSessionService.setActions({ toggle, next });
+		handlers.get("play")?.();
+		handlers.get("pause")?.();
+		handlers.get("nexttrack")?.();
+
+		expect(toggle).toHaveBeenCalledTimes(2);
+		expect(next).toHaveBeenCalledTimes(1);
+
+		detach();
+		expect(handlers.get("play")).toBeNull();
+		expect(handlers.get("nexttrack")).toBeNull();
+	});
+
+	it("should skip actions the browser doesn't support", async () => {
+		const { handlers, unsupported } = mockMediaSession();
+		unsupported.add("nexttrack");
+		const { mediaSessionService } = await import("./mediaSessionService");
+		const toggle = vi.fn();
+
+		expect(() => mediaSessionService.setActions({ toggle, next: vi.fn() })).not.toThrow();
+		handlers.get("play")?.();
+		expect(toggle).toHaveBeenCalled();
+	});
+
+	it("should hide the controls and stop the keep-alive on clear", async () => {
+		const { mediaSession } = mockMediaSession();
+		const { mediaSessionService } = await import("./mediaSessionService");
+		const { audioService } = await import("./audioService");
+
+		mediaSessionService.update({ title: "WORK — Round 1/5", artist: "1 MIN", playing: true });
+		mediaSessionService.clear();
+
+		expect(mediaSession.metadata).toBeNull();
+		expect(mediaSession.playbackState).toBe("none");
+		expect(audioService.setKeepAlive).toHaveBeenLastCalledWith(false);
+	});
+
+	it("should do nothing without the Media Session API", async () => {
+		const { mediaSessionService } = await import("./mediaSessionService");
+		const { audioService } = await import("./audioService");
+
+		mediaSessionService.update({ title: "WORK", artist: "30 SEC", playing: true });
+		mediaSessionService.setActions({ toggle: vi.fn() })();
+
+		expect(mediaSessionService.isSupported()).toBe(false);
+		expect(audioService.setKeepAlive).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,128 @@
+/**
+ * MediaSessionService - Lock Screen and Headset Controls
+ *
+ * While a timer runs, the OS media controls (lock screen, notification
+ * shade, Bluetooth headset buttons) show what's going on and drive the
+ * timer: play/pause toggles it, next-track skips (or laps).
+ *
+ * The OS only offers these controls for a page that's playing audio, so
+ * while a session is active audioService keeps its AudioContext producing
+ * (inaudible) sound between cues.
+ *
+ * @example
+ * mediaSessionService.update({ title: "WORK — Round 3/6", artist: "Tabata", playing: true });
+ * const detach = mediaSessionService.setActions({ toggle, next: skipPhase });
+ *
+ * // Timer idle again
+ * detach();
+ * mediaSessionService.clear();
+ */
+
+import { audioService } from "./audioService";
+import { sessionRecorder } from "./pwaDebugServices";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MediaSessionInfo {
+	/** Main line, e.g. "WORK — Round 3/6" */
+	title: string;
+	/** Second line, e.g. the profile name */
+	artist: string;
+	playing: boolean;
+}
+
+export interface MediaSessionActions {
+	/** Play and pause both toggle - the timer knows which it is */
+	toggle: () => void;
+	/** Next-track button */
+	next?: () => void;
+}
+
+/** Events recorded to session for debugging media control issues */
+type MediaSessionEventType = "media_session:action" | "media_session:error";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ALBUM = "Igor Timer";
+
+const ARTWORK: MediaImage[] = [
+	{ src: "icons/icon-192.png", sizes: "192x192", type: "image/png" },
+	{ src: "icons/icon-512.png", sizes: "512x512", type: "image/png" },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: MediaSessionEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+// ============================================================================
+// MediaSessionService Class
+// ============================================================================
+
+class MediaSessionService {
+	isSupported(): boolean {
+		return typeof navigator !== "undefined" && "mediaSession" in navigator;
+	}
+
+	/** Show the current state on the OS controls */
+	update({ title, artist, playing }: MediaSessionInfo): void {
+		if (!this.isSupported()) return;
+
+		const { mediaSession } = navigator;
+		if (typeof MediaMetadata !== "undefined") {
+			const current = mediaSession.metadata;
+			// Replacing metadata makes some lock screens flicker; only do it on change
+			if (current?.title !== title || current?.artist !== artist) {
+				mediaSession.metadata = new MediaMetadata({ title, artist, album: ALBUM, artwork: ARTWORK });
+			}
+		}
+		mediaSession.playbackState = playing ? "playing" : "paused";
+		audioService.setKeepAlive(true);
+	}
+
+	/** Route the OS buttons to the timer; returns a function that removes them */
+	setActions({ toggle, next }: MediaSessionActions): () => void {
+		if (!this.isSupported()) return () => {};
+
+		const handlers: [MediaSessionAction, (() => void) | undefined][] = [
+			["play", toggle],
+			["pause", toggle],
+			["nexttrack", next],
+		];
+		for (const [action, handler] of handlers) {
+			this.setHandler(action, handler ? () => {
+				recordEvent("media_session:action", { action });
+				handler();
+			} : null);
+		}
+
+		return () => handlers.forEach(([action]) => this.setHandler(action, null));
+	}
+
+	/** Nothing running - hide the controls and let the audio rest */
+	clear(): void {
+		if (!this.isSupported()) return;
+		navigator.mediaSession.metadata = null;
+		navigator.mediaSession.playbackState = "none";
+		audioService.setKeepAlive(false);
+	}
+
+	private setHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+		try {
+			navigator.mediaSession.setActionHandler(action, handler);
+		} catch (error) {
+			// Browsers throw for actions they don't support
+			recordEvent("media_session:error", { action, error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+}
+
+// Export singleton
+export const mediaSessionService = new MediaSessionService();
@@ -0,0 +1,117 @@
+/**
+ * NotificationService Tests
+ *
+ * Notification and the service worker registration are mocked; jsdom has neither.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PlannedSegment } from "./workoutProgram";
+
+const showNotification = vi.fn().mockResolvedValue(undefined);
+
+class MockNotification {
+	static permission: NotificationPermission = "default";
+	static requestPermission = vi.fn(async () => {
+		MockNotification.permission = "granted";
+		return MockNotification.permission;
+	});
+}
+
+function segment(overrides: Partial<PlannedSegment>): PlannedSegment {
+	return { type: "work", duration: 30, round: 1, totalRounds: 6, cycle: 1, totalCycles: 1, ...overrides };
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+	Object.defineProperty(document, "visibilityState", { configurable: true, get: () => state });
+}
+
+describe("NotificationService", () => {
+	beforeEach(() => {
+		MockNotification.permission = "default";
+		vi.stubGlobal("Notification", MockNotification);
+		Object.defineProperty(navigator, "serviceWorker", {
+			configurable: true,
+			value: { getRegistration: vi.fn().mockResolvedValue({ showNotification }) },
+		});
+		localStorage.clear();
+		showNotification.mockClear();
+		vi.resetModules();
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		// @ts-expect-error - removing the mock
+		delete navigator.serviceWorker;
+		setVisibility("visible");
+	});
+
+	describe("getPhaseNotificationTitle", () => {
+		it("should show the round for work", async () => {
+			const { getPhaseNotificationTitle } = await import("./notificationService");
+
+			expect(getPhaseNotificationTitle(segment({ round: 4 }))).toBe("Round 4/6 — WORK");
+		});
+
+		it("should show the duration for everything else", async () => {
+			const { getPhaseNotificationTitle } = await import("./notificationService");
+
+			expect(getPhaseNotificationTitle(segment({ type: "rest", duration: 30 }))).toBe("Rest — 0:30");
+			expect(getPhaseNotificationTitle(segment({ type: "cycleRest", duration: 90 }))).toBe("Cycle rest — 1:30");
+		});
+	});
+
+	describe("permission", () => {
+		it("should report unsupported without the Notification API", async () => {
+			vi.stubGlobal("Notification", undefined);
+			const { notificationService } = await import("./notificationService");
+
+			expect(notificationService.getPermission()).toBe("unsupported");
+			expect(await notificationService.requestPermission()).toBe(false);
+		});
+
+		it("should only be enabled once permission is granted", async () => {
+			const { notificationService } = await import("./notificationService");
+			notificationService.setEnabled(true);
+
+			expect(notificationService.isEnabled()).toBe(false);
+
+			expect(await notificationService.requestPermission()).toBe(true);
+			expect(notificationService.isEnabled()).toBe(true);
+		});
+	});
+
+	describe("notifyPhase", () => {
+		beforeEach(() => {
+			MockNotification.permission = "granted";
+		});
+
+		it("should notify through the service worker while hidden", async () => {
+			const { notificationService } = await import("./notificationService");
+			notificationService.setEnabled(true);
+			setVisibility("hidden");
+
+			await notificationService.notifyPhase(segment({ type: "rest", duration: 30 }));
+
+			expect(showNotification).toHaveBeenCalledWith("Rest — 0:30", expect.objectContaining({ tag: expect.any(String) }));
+		});
+
+		it("should not notify while visible", async () => {
+			const { notificationService } = await import("./notificationService");
+			notificationService.setEnabled(true);
+			setVisibility("visible");
+
+			await notificationService.notifyPhase(segment({}));
+
+			expect(showNotification).not.toHaveBeenCalled();
+		});
+
+		it("should not notify when not opted in", async () => {
+			const { notificationService } = await import("./notificationService");
+			setVisibility("hidden");
+
+			await notificationService.notifyPhase(segment({}));
+
+			expect(showNotification).not.toHaveBeenCalled();
+		});
+	});
+});
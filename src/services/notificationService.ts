@@ -0,0 +1,137 @@
+/**
+ * NotificationService - Phase Notifications While Backgrounded
+ *
+ * With the screen locked or another app in front, audio cues are often
+ * suppressed. When enabled, each phase change is also posted as a system
+ * notification via the service worker registration (page-created
+ * `new Notification()` doesn't work on mobile).
+ *
+ * Notifications are only shown while the page is hidden - in the foreground
+ * the display and beeps already say it all.
+ *
+ * @example
+ * // In a click handler (permission prompts need a user gesture)
+ * if (await notificationService.requestPermission()) {
+ *   notificationService.setEnabled(true);
+ * }
+ *
+ * notificationService.notifyPhase(segment);
+ */
+
+import { sessionRecorder } from "./pwaDebugServices";
+import { getSegmentLabel, type PlannedSegment } from "./workoutProgram";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+/** Events recorded to session for debugging notification issues */
+type NotificationEventType =
+	| "notification:permission"
+	| "notification:shown"
+	| "notification:no_registration"
+	| "notification:error";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ENABLED_STORAGE_KEY = "igor-timer:notifications-enabled";
+
+/** Replaces the previous phase notification rather than stacking them */
+const NOTIFICATION_TAG = "igor-timer-phase";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: NotificationEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+/** M:SS, e.g. 0:30 or 12:05 */
+function formatDuration(seconds: number): string {
+	const mins = Math.floor(seconds / 60);
+	const secs = seconds % 60;
+	return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/** "CYCLE REST" -> "Cycle rest" */
+function toSentenceCase(label: string): string {
+	return label.charAt(0).toUpperCase() + label.slice(1).toLowerCase();
+}
+
+/**
+ * Notification text for entering a segment:
+ * work is "Round 4/6 — WORK", everything else "Rest — 0:30"
+ */
+export function getPhaseNotificationTitle(segment: PlannedSegment): string {
+	if (segment.type === "work") {
+		return `Round ${segment.round}/${segment.totalRounds} — ${getSegmentLabel(segment)}`;
+	}
+	return `${toSentenceCase(getSegmentLabel(segment))} — ${formatDuration(segment.duration)}`;
+}
+
+// ============================================================================
+// NotificationService Class
+// ============================================================================
+
+class NotificationService {
+	isSupported(): boolean {
+		return typeof Notification !== "undefined" && "serviceWorker" in navigator;
+	}
+
+	getPermission(): NotificationPermissionState {
+		return this.isSupported() ? Notification.permission : "unsupported";
+	}
+
+	/** Opted in and still permitted */
+	isEnabled(): boolean {
+		return this.getPermission() === "granted" && localStorage.getItem(ENABLED_STORAGE_KEY) === "true";
+	}
+
+	setEnabled(enabled: boolean): void {
+		localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+	}
+
+	/** Ask for permission (call from a user gesture). Resolves true if granted. */
+	async requestPermission(): Promise<boolean> {
+		if (!this.isSupported()) return false;
+		const permission = await Notification.requestPermission();
+		recordEvent("notification:permission", { permission });
+		return permission === "granted";
+	}
+
+	/** Announce entering a segment, if enabled and the page is hidden */
+	notifyPhase(segment: PlannedSegment): Promise<void> {
+		return this.show(getPhaseNotificationTitle(segment));
+	}
+
+	notifyFinished(): Promise<void> {
+		return this.show("Workout complete");
+	}
+
+	private async show(title: string): Promise<void> {
+		if (!this.isEnabled() || document.visibilityState !== "hidden") return;
+
+		try {
+			const registration = await navigator.serviceWorker.getRegistration();
+			if (!registration) {
+				recordEvent("notification:no_registration", { title });
+				return;
+			}
+			await registration.showNotification(title, {
+				tag: NOTIFICATION_TAG,
+				icon: "icons/icon-192.png",
+			});
+			recordEvent("notification:shown", { title });
+		} catch (error) {
+			recordEvent("notification:error", { title, error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+}
+
+// Export singleton
+export const notificationService = new NotificationService();
@@ -0,0 +1,153 @@
+/**
+ * PresetLibrary Tests
+ *
+ * IndexedDB is mocked; jsdom has none.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TimerProfile } from "./timerEngine";
+
+vi.mock("./presetStorage", () => ({
+	loadPresets: vi.fn().mockResolvedValue([]),
+	savePresets: vi.fn().mockResolvedValue(undefined),
+	deletePreset: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+const profile: TimerProfile = {
+	name: "custom",
+	workTime: 240,
+	restTime: 60,
+	rounds: 4,
+	cycles: 1,
+	cycleRestTime: 60,
+	prepTime: 10,
+};
+
+/** A fresh library per test */
+async function setup() {
+	const { presetLibrary, BUILT_IN_PRESETS } = await import("./presetLibrary");
+	const storage = await import("./presetStorage");
+	return { presetLibrary, BUILT_IN_PRESETS, ...storage };
+}
+
+describe("presetLibrary", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.resetModules();
+	});
+
+	it("should list built-ins before stored presets", async () => {
+		const { presetLibrary, BUILT_IN_PRESETS, loadPresets } = await setup();
+		vi.mocked(loadPresets).mockResolvedValueOnce([
+			{ id: "p1", name: "ROW", profile, favorite: false, order: 0, createdAt: 1 },
+		]);
+
+		await presetLibrary.load();
+
+		expect(presetLibrary.getPresets().map((p) => p.name)).toEqual([...BUILT_IN_PRESETS.map((p) => p.name), "ROW"]);
+		expect(presetLibrary.getPreset("p1")).toMatchObject({ favorite: false, builtIn: false });
+	});
+
+	it("should save a profile under its new name as a favourite", async () => {
+		const { presetLibrary, savePresets } = await setup();
+
+		const preset = await presetLibrary.save("  ROWING 4X4 ", profile);
+
+		expect(preset).toMatchObject({ name: "ROWING 4X4", favorite: true, builtIn: false });
+		expect(preset.profile).toEqual({ ...profile, name: "ROWING 4X4" });
+		expect(savePresets).toHaveBeenCalledWith([expect.objectContaining({ id: preset.id, order: 0 })]);
+		const presets = presetLibrary.getPresets();
+		expect(presets[presets.length - 1].id).toBe(preset.id);
+	});
+
+	it("should reject empty, long and taken names", async () => {
+		const { presetLibrary } = await setup();
+		await presetLibrary.save("ROW", profile);
+
+		await expect(presetLibrary.save("   ", profile)).rejects.toThrow("Give the preset a name");
+		await expect(presetLibrary.save("X".repeat(25), profile)).rejects.toThrow("at most 24");
+		await expect(presetLibrary.save("row", profile)).rejects.toThrow("already a preset called row");
+		await expect(presetLibrary.save("1 min", profile)).rejects.toThrow("already a preset");
+	});
+
+	it("should rename a preset, keeping its own name available", async () => {
+		const { presetLibrary } = await setup();
+		const preset = await presetLibrary.save("ROW", profile);
+
+		await presetLibrary.rename(preset.id, "row");
+
+		expect(presetLibrary.getPreset(preset.id)).toMatchObject({ name: "row", profile: { name: "row" } });
+	});
+
+	it("should keep built-ins read-only", async () => {
+		const { presetLibrary, savePresets, deletePreset } = await setup();
+
+		await expect(presetLibrary.rename("30sec", "HALF MIN")).rejects.toThrow("Built-in presets can't be changed");
+		await expect(presetLibrary.updateProfile("30sec", profile)).rejects.toThrow("Built-in");
+		await expect(presetLibrary.remove("30sec")).rejects.toThrow("Built-in");
+		expect(savePresets).not.toHaveBeenCalled();
+		expect(deletePreset).not.toHaveBeenCalled();
+	});
+
+	it("should duplicate any preset under a free name", async () => {
+		const { presetLibrary } = await setup();
+
+		const first = await presetLibrary.duplicate("5-1");
+		const second = await presetLibrary.duplicate("5-1");
+
+		expect(first).toMatchObject({ name: "5-1 COPY", favorite: false, profile: { workTime: 300, name: "5-1 COPY" } });
+		expect(second.name).toBe("5-1 COPY 2");
+	});
+
+	it("should swap neighbours when moving", async () => {
+		const { presetLibrary, savePresets } = await setup();
+		const a = await presetLibrary.save("A", profile);
+		const b = await presetLibrary.save("B", profile);
+		vi.mocked(savePresets).mockClear();
+
+		await presetLibrary.move(b.id, -1);
+		await presetLibrary.move(b.id, -1); // already first
+
+		const names = presetLibrary.getPresets().filter((p) => !p.builtIn).map((p) => p.name);
+		expect(names).toEqual(["B", "A"]);
+		expect(savePresets).toHaveBeenCalledTimes(1);
+		expect(savePresets).toHaveBeenCalledWith([
+			expect.objectContaining({ id: b.id, order: 0 }),
+			expect.objectContaining({ id: a.id, order: 1 }),
+		]);
+	});
+
+	it("should delete a preset", async () => {
+		const { presetLibrary, deletePreset } = await setup();
+		const preset = await presetLibrary.save("ROW", profile);
+
+		await presetLibrary.remove(preset.id);
+
+		expect(deletePreset).toHaveBeenCalledWith(preset.id);
+		expect(presetLibrary.getPreset(preset.id)).toBeUndefined();
+	});
+
+	it("should leave the list alone when storage fails", async () => {
+		const { presetLibrary, savePresets } = await setup();
+		vi.mocked(savePresets).mockRejectedValueOnce(new Error("QuotaExceededError"));
+
+		await expect(presetLibrary.save("ROW", profile)).rejects.toThrow("storage may be full");
+		expect(presetLibrary.isNameTaken("ROW")).toBe(false);
+	});
+
+	it("should notify subscribers with a new list on every change", async () => {
+		const { presetLibrary } = await setup();
+		const listener = vi.fn();
+		const before = presetLibrary.getPresets();
+
+		const unsubscribe = presetLibrary.subscribe(listener);
+		const preset = await presetLibrary.save("ROW", profile);
+		await presetLibrary.setFavorite(preset.id, false);
+		unsubscribe();
+		await presetLibrary.remove(preset.id);
+
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(presetLibrary.getPresets()).not.toBe(before);
+	});
+});
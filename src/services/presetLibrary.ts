@@ -0,0 +1,241 @@
+/**
+ * PresetLibrary - Built-in and User Timer Presets
+ *
+ * The built-in presets are read-only defaults. Users save their own
+ * profiles as named presets (IndexedDB, via presetStorage) and can rename,
+ * duplicate, delete, reorder and favourite them; favourites show as
+ * bubbles in the preset row, the rest in its overflow list. Names are
+ * unique (ignoring case) across built-in and user presets.
+ *
+ * Components read the list through usePresets(), which re-renders on
+ * every change.
+ *
+ * @example
+ * await presetLibrary.load(); // on startup
+ *
+ * const preset = await presetLibrary.save("ROWING 4X4", profile); // throws with a message to show
+ * await presetLibrary.move(preset.id, -1);
+ */
+
+import { deletePreset, loadPresets, savePresets, type UserPreset } from "./presetStorage";
+import { sessionRecorder } from "./pwaDebugServices";
+import type { TimerProfile } from "./timerEngine";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Preset {
+	id: string;
+	name: string;
+	profile: TimerProfile;
+	favorite: boolean;
+	/** Built-in defaults can't be changed, only duplicated */
+	builtIn: boolean;
+}
+
+/** Events recorded to session for debugging preset issues */
+type PresetEventType = "preset:saved" | "preset:deleted" | "preset:save_failed";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Long enough for "TABATA 20/10 X8", short enough for a bubble */
+export const MAX_PRESET_NAME_LENGTH = 24;
+
+function builtIn(id: string, name: string, workTime: number, restTime: number, rounds: number): Preset {
+	return {
+		id,
+		name,
+		profile: { name, workTime, restTime, rounds, cycles: 1, cycleRestTime: 60, prepTime: 5 },
+		favorite: true,
+		builtIn: true,
+	};
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+	builtIn("30sec", "30 SEC", 30, 5, 6),
+	builtIn("1min", "1 MIN", 60, 10, 5),
+	builtIn("5-1", "5-1", 300, 60, 3),
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: PresetEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+function createPresetId(): string {
+	return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toPreset({ id, name, profile, favorite }: UserPreset): Preset {
+	return { id, name, profile, favorite, builtIn: false };
+}
+
+// ============================================================================
+// PresetLibrary Class
+// ============================================================================
+
+class PresetLibrary {
+	/** In the user's order */
+	private userPresets: UserPreset[] = [];
+	/** Built-ins then user presets; a new array on every change */
+	private presets: Preset[] = BUILT_IN_PRESETS;
+	private listeners = new Set<() => void>();
+	private loading: Promise<Preset[]> | null = null;
+
+	/** Load stored presets; safe to call repeatedly */
+	load(): Promise<Preset[]> {
+		if (!this.loading) {
+			this.loading = loadPresets().then((presets) => {
+				// Keep any saved while loading
+				const stored = new Set(presets.map((preset) => preset.id));
+				this.userPresets = [...presets, ...this.userPresets.filter((preset) => !stored.has(preset.id))];
+				this.publish();
+				return this.presets;
+			});
+		}
+		return this.loading;
+	}
+
+	getPresets(): Preset[] {
+		return this.presets;
+	}
+
+	getPreset(id: string): Preset | undefined {
+		return this.presets.find((preset) => preset.id === id);
+	}
+
+	/** Called after every change; returns an unsubscribe function */
+	subscribe(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/** A trimmed name, or throws if it's empty, too long or taken (by a preset other than `exceptId`) */
+	validateName(name: string, exceptId?: string): string {
+		const trimmed = name.trim();
+		if (!trimmed) throw new Error("Give the preset a name");
+		if (trimmed.length > MAX_PRESET_NAME_LENGTH) {
+			throw new Error(`Preset names can be at most ${MAX_PRESET_NAME_LENGTH} characters`);
+		}
+		if (this.isNameTaken(trimmed, exceptId)) throw new Error(`There's already a preset called ${trimmed}`);
+		return trimmed;
+	}
+
+	isNameTaken(name: string, exceptId?: string): boolean {
+		const key = name.trim().toLowerCase();
+		return this.presets.some((preset) => preset.id !== exceptId && preset.name.toLowerCase() === key);
+	}
+
+	/** Save a profile as a new favourite preset at the end of the list */
+	async save(name: string, profile: TimerProfile, { favorite = true }: { favorite?: boolean } = {}): Promise<Preset> {
+		const validName = this.validateName(name);
+		const preset: UserPreset = {
+			id: createPresetId(),
+			name: validName,
+			profile: { ...profile, name: validName },
+			favorite,
+			order: Math.max(0, ...this.userPresets.map((p) => p.order + 1)),
+			createdAt: Date.now(),
+		};
+		await this.commit([preset], [...this.userPresets, preset]);
+		recordEvent("preset:saved", { id: preset.id, name: validName });
+		return toPreset(preset);
+	}
+
+	async rename(id: string, name: string): Promise<void> {
+		const preset = this.getUserPreset(id);
+		const validName = this.validateName(name, id);
+		await this.replace({ ...preset, name: validName, profile: { ...preset.profile, name: validName } });
+	}
+
+	/** Overwrite a preset's settings (keeping its name) */
+	async updateProfile(id: string, profile: TimerProfile): Promise<void> {
+		const preset = this.getUserPreset(id);
+		await this.replace({ ...preset, profile: { ...profile, name: preset.name } });
+	}
+
+	async setFavorite(id: string, favorite: boolean): Promise<void> {
+		await this.replace({ ...this.getUserPreset(id), favorite });
+	}
+
+	/** Copy any preset (built-ins included) to a new user preset, named "<name> COPY" */
+	async duplicate(id: string): Promise<Preset> {
+		const source = this.getPreset(id);
+		if (!source) throw new Error("That preset no longer exists");
+		// Room for " COPY" and a " 2"-style suffix
+		const base = `${source.name.slice(0, MAX_PRESET_NAME_LENGTH - 8)} COPY`;
+		return this.save(this.getUniqueName(base), source.profile, { favorite: false });
+	}
+
+	async remove(id: string): Promise<void> {
+		this.getUserPreset(id);
+		await deletePreset(id);
+		this.userPresets = this.userPresets.filter((preset) => preset.id !== id);
+		this.publish();
+		recordEvent("preset:deleted", { id });
+	}
+
+	/** Move a user preset up (-1) or down (1) the list */
+	async move(id: string, offset: -1 | 1): Promise<void> {
+		const index = this.userPresets.findIndex((preset) => preset.id === id);
+		const other = this.userPresets[index + offset];
+		if (index === -1 || !other) return;
+
+		const moved = { ...this.userPresets[index], order: other.order };
+		const swapped = { ...other, order: this.userPresets[index].order };
+		const next = [...this.userPresets];
+		next[index] = swapped;
+		next[index + offset] = moved;
+		await this.commit([moved, swapped], next);
+	}
+
+	/** `base`, or `base 2`, `base 3`... - whichever is free */
+	getUniqueName(base: string): string {
+		let name = base;
+		for (let n = 2; this.isNameTaken(name); n++) {
+			name = `${base} ${n}`;
+		}
+		return name;
+	}
+
+	private getUserPreset(id: string): UserPreset {
+		const preset = this.userPresets.find((p) => p.id === id);
+		if (!preset) {
+			throw new Error(this.getPreset(id)?.builtIn ? "Built-in presets can't be changed" : "That preset no longer exists");
+		}
+		return preset;
+	}
+
+	private replace(preset: UserPreset): Promise<void> {
+		return this.commit(
+			[preset],
+			this.userPresets.map((p) => (p.id === preset.id ? preset : p)),
+		);
+	}
+
+	/** Store changed presets, then make `next` the list */
+	private async commit(changed: UserPreset[], next: UserPreset[]): Promise<void> {
+		try {
+			await savePresets(changed);
+		} catch (error) {
+			recordEvent("preset:save_failed", { error: error instanceof Error ? error.message : String(error) });
+			throw new Error("Couldn't save presets - storage may be full");
+		}
+		this.userPresets = next;
+		this.publish();
+	}
+
+	private publish(): void {
+		this.presets = [...BUILT_IN_PRESETS, ...this.userPresets.map(toPreset)];
+		this.listeners.forEach((listener) => listener());
+	}
+}
+
+// Export singleton
+export const presetLibrary = new PresetLibrary();
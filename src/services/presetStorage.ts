@@ -0,0 +1,85 @@
+import { openDB, STORES } from "./database";
+import type { TimerProfile } from "./timerEngine";
+
+const STORE_NAME = STORES.presets;
+
+/** A user's saved timer profile, as stored */
+export interface UserPreset {
+	id: string;
+	name: string;
+	profile: TimerProfile;
+	/** Shown as a bubble in the preset row; the rest go in the overflow list */
+	favorite: boolean;
+	/** Position in the user's list */
+	order: number;
+	createdAt: number;
+}
+
+/** Every stored preset, in the user's order */
+export async function loadPresets(): Promise<UserPreset[]> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve) => {
+			const transaction = db.transaction(STORE_NAME, "readonly");
+			const store = transaction.objectStore(STORE_NAME);
+			const request = store.getAll();
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			request.onsuccess = () => {
+				const presets = request.result as UserPreset[];
+				resolve(presets.sort((a, b) => a.order - b.order));
+			};
+
+			request.onerror = () => resolve([]);
+		});
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Store presets (new or changed) in one transaction, so a reorder is saved
+ * whole or not at all. Rejects on failure - an unsaved preset must not
+ * look saved.
+ */
+export async function savePresets(presets: UserPreset[]): Promise<void> {
+	const db = await openDB();
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, "readwrite");
+		const store = transaction.objectStore(STORE_NAME);
+
+		transaction.oncomplete = () => {
+			db.close();
+			resolve();
+		};
+		transaction.onerror = () => {
+			db.close();
+			reject(transaction.error);
+		};
+
+		for (const preset of presets) {
+			store.put(preset, preset.id);
+		}
+	});
+}
+
+export async function deletePreset(id: string): Promise<void> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(STORE_NAME, "readwrite");
+			const store = transaction.objectStore(STORE_NAME);
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			const request = store.delete(id);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	} catch {
+		// Silently fail
+	}
+}
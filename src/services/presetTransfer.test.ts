@@ -0,0 +1,152 @@
+/**
+ * Preset Import & Export Tests
+ *
+ * IndexedDB is mocked; jsdom has none.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TimerProfile } from "./timerEngine";
+
+vi.mock("./presetStorage", () => ({
+	loadPresets: vi.fn().mockResolvedValue([]),
+	savePresets: vi.fn().mockResolvedValue(undefined),
+	deletePreset: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+const row: TimerProfile = {
+	name: "ROW",
+	workTime: 240,
+	restTime: 60,
+	rounds: 4,
+	cycles: 1,
+	cycleRestTime: 60,
+	prepTime: 10,
+};
+
+/** A fresh library per test */
+async function setup() {
+	const { presetLibrary } = await import("./presetLibrary");
+	const transfer = await import("./presetTransfer");
+	return { presetLibrary, ...transfer };
+}
+
+function presetFile(presets: unknown[], overrides: Record<string, unknown> = {}) {
+	return JSON.stringify({ format: "igor-timer-presets", version: 1, exportedAt: "", presets, ...overrides });
+}
+
+describe("presetTransfer", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.resetModules();
+	});
+
+	it("should export user presets in the documented format", async () => {
+		const { presetLibrary, exportPresets, getPresetFileName } = await setup();
+		await presetLibrary.save("ROW", row, { favorite: false });
+		const now = new Date("2025-03-14T07:30:00Z");
+
+		const file = JSON.parse(exportPresets(presetLibrary.getPresets(), now));
+
+		expect(file).toEqual({
+			format: "igor-timer-presets",
+			version: 1,
+			exportedAt: "2025-03-14T07:30:00.000Z",
+			presets: [{ name: "ROW", favorite: false, profile: row }],
+		});
+		expect(getPresetFileName(now)).toBe("igor-timer-presets-2025-03-14.json");
+	});
+
+	it("should round-trip an export through import", async () => {
+		const { presetLibrary, exportPresets, parsePresetFile, importPresets } = await setup();
+		const saved = await presetLibrary.save("ROW", row);
+		const json = exportPresets(presetLibrary.getPresets());
+		await presetLibrary.remove(saved.id);
+
+		const entries = parsePresetFile(json);
+		expect(await importPresets(entries)).toEqual({ imported: 1, skipped: 0 });
+
+		expect(presetLibrary.getPresets().find((p) => p.name === "ROW")).toMatchObject({ favorite: true, profile: row });
+	});
+
+	it("should refuse files that aren't preset files", async () => {
+		const { parsePresetFile } = await setup();
+
+		expect(() => parsePresetFile("{oops")).toThrow("isn't valid JSON");
+		expect(() => parsePresetFile(JSON.stringify({ presets: [] }))).toThrow("isn't an Igor Timer preset file");
+		expect(() => parsePresetFile(presetFile([], { version: 2 }))).toThrow("newer version");
+		expect(() => parsePresetFile(presetFile([], { presets: {} }))).toThrow("no presets list");
+	});
+
+	it("should give each invalid entry its own error", async () => {
+		const { parsePresetFile } = await setup();
+
+		const entries = parsePresetFile(
+			presetFile([
+				{ name: "GOOD", profile: row },
+				{ name: "NEGATIVE", profile: { ...row, workTime: -30 } },
+				{ name: "TABLE", profile: { ...row, progression: { type: "custom", rounds: [{ work: 60, rest: 1.5 }] } } },
+				{ name: "", profile: row },
+				{ name: "good", profile: row },
+				"junk",
+			]),
+		);
+
+		expect(entries.map((entry) => entry.error)).toEqual([
+			undefined,
+			"Work time must be a whole number from 1 to 3600",
+			"Round 1 rest must be a whole number from 0 to 3600",
+			"Missing a name",
+			"Same name as entry 1 in this file",
+			"Not a preset",
+		]);
+		expect(entries[0].profile).toEqual({ ...row, name: "GOOD" });
+	});
+
+	it("should mark names that are already taken", async () => {
+		const { presetLibrary, parsePresetFile } = await setup();
+		const saved = await presetLibrary.save("ROW", row);
+
+		const [mine, builtIn] = parsePresetFile(presetFile([{ name: "row", profile: row }, { name: "1 MIN", profile: row }]));
+
+		expect(mine.conflict?.id).toBe(saved.id);
+		expect(builtIn.conflict).toMatchObject({ id: "1min", builtIn: true });
+	});
+
+	it("should skip, keep both or replace as chosen", async () => {
+		const { presetLibrary, parsePresetFile, importPresets } = await setup();
+		const a = await presetLibrary.save("A", row);
+		await presetLibrary.save("B", row);
+		await presetLibrary.save("C", row);
+
+		const entries = parsePresetFile(
+			presetFile([
+				{ name: "A", favorite: false, profile: { ...row, workTime: 30 } },
+				{ name: "B", profile: { ...row, workTime: 40 } },
+				{ name: "C", profile: { ...row, workTime: 50 } },
+				{ name: "BAD", profile: { ...row, rounds: 0 } },
+			]),
+		);
+		const result = await importPresets(entries, { 1: "replace", 2: "skip" });
+
+		expect(result).toEqual({ imported: 2, skipped: 2 });
+		expect(presetLibrary.getPreset(a.id)).toMatchObject({ name: "A", favorite: false, profile: { workTime: 30 } });
+		const user = presetLibrary.getPresets().filter((p) => !p.builtIn);
+		expect(user.map((p) => [p.name, p.profile.workTime])).toEqual([
+			["A", 30],
+			["B", 240],
+			["C", 240],
+			["C 2", 50],
+		]);
+	});
+
+	it("should keep both rather than replace a built-in", async () => {
+		const { presetLibrary, parsePresetFile, importPresets } = await setup();
+
+		const entries = parsePresetFile(presetFile([{ name: "5-1", profile: { ...row, workTime: 30 } }]));
+		await importPresets(entries, { 1: "replace" });
+
+		expect(presetLibrary.getPreset("5-1")?.profile.workTime).toBe(300);
+		expect(presetLibrary.getPresets().find((p) => p.name === "5-1 2")?.profile.workTime).toBe(30);
+	});
+});
@@ -0,0 +1,196 @@
+/**
+ * Preset Import & Export
+ *
+ * Moves user presets between phones (or from a coach to a class) as a JSON
+ * file. The format is documented in tech/preset-file-format.md; bump
+ * PRESET_FILE_VERSION when it changes and keep reading the old versions.
+ *
+ * Importing is two steps so the user can review it first: parsePresetFile()
+ * checks every entry - invalid ones get an error message, ones whose name
+ * is already taken are marked as conflicts - then importPresets() saves
+ * the valid entries, resolving each conflict as the user chose.
+ *
+ * @example
+ * const json = exportPresets(presetLibrary.getPresets()); // download as getPresetFileName()
+ *
+ * const entries = parsePresetFile(await file.text()); // throws if it isn't a preset file
+ * const { imported, skipped } = await importPresets(entries, { 2: "replace" });
+ */
+
+import { MAX_PRESET_NAME_LENGTH, type Preset, presetLibrary } from "./presetLibrary";
+import { validateProfile } from "./profileValidation";
+import { sessionRecorder } from "./pwaDebugServices";
+import type { TimerProfile } from "./timerEngine";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One preset in a file */
+export interface PresetFileEntry {
+	name: string;
+	favorite: boolean;
+	profile: TimerProfile;
+}
+
+export interface PresetFile {
+	format: typeof PRESET_FILE_FORMAT;
+	version: number;
+	/** ISO 8601 */
+	exportedAt: string;
+	presets: PresetFileEntry[];
+}
+
+/** A file entry, checked against the current presets */
+export interface ImportEntry {
+	/** Position in the file, from 1 */
+	index: number;
+	name: string;
+	favorite: boolean;
+	/** Set when the entry is valid */
+	profile?: TimerProfile;
+	/** Why the entry can't be imported */
+	error?: string;
+	/** The existing preset with the same name (ignoring case) */
+	conflict?: Preset;
+}
+
+/** What to do with an entry whose name is taken: skip it, keep both (renaming the import), or overwrite */
+export type ConflictResolution = "skip" | "rename" | "replace";
+
+/** Events recorded to session for debugging import issues */
+type TransferEventType = "presets:exported" | "presets:imported";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PRESET_FILE_FORMAT = "igor-timer-presets";
+export const PRESET_FILE_VERSION = 1;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: TransferEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/** A preset file for the user presets given (built-ins are left out - every copy of the app has them) */
+export function exportPresets(presets: Preset[], now: Date = new Date()): string {
+	const file: PresetFile = {
+		format: PRESET_FILE_FORMAT,
+		version: PRESET_FILE_VERSION,
+		exportedAt: now.toISOString(),
+		presets: presets
+			.filter((preset) => !preset.builtIn)
+			.map(({ name, favorite, profile }) => ({ name, favorite, profile })),
+	};
+	recordEvent("presets:exported", { count: file.presets.length });
+	return JSON.stringify(file, null, 2);
+}
+
+/** "igor-timer-presets-2025-03-14.json" */
+export function getPresetFileName(now: Date = new Date()): string {
+	return `${PRESET_FILE_FORMAT}-${now.toISOString().slice(0, 10)}.json`;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+function parseEntry(value: unknown, index: number, seen: Map<string, number>, existing: Preset[]): ImportEntry {
+	if (!isObject(value)) return { index, name: "", favorite: false, error: "Not a preset" };
+
+	const name = typeof value.name === "string" ? value.name.trim() : "";
+	const entry: ImportEntry = { index, name, favorite: value.favorite !== false };
+
+	if (!name) return { ...entry, error: "Missing a name" };
+	if (name.length > MAX_PRESET_NAME_LENGTH) {
+		return { ...entry, error: `Name can be at most ${MAX_PRESET_NAME_LENGTH} characters` };
+	}
+
+	const key = name.toLowerCase();
+	const earlier = seen.get(key);
+	if (earlier !== undefined) return { ...entry, error: `Same name as entry ${earlier} in this file` };
+	seen.set(key, index);
+
+	try {
+		// The preset's name is the profile's name; a file can leave it out of the profile
+		const profile = validateProfile(isObject(value.profile) ? { ...value.profile, name } : value.profile);
+		const conflict = existing.find((preset) => preset.name.toLowerCase() === key);
+		return conflict ? { ...entry, profile, conflict } : { ...entry, profile };
+	} catch (error) {
+		return { ...entry, error: (error as Error).message };
+	}
+}
+
+/**
+ * Check a preset file's entries against the current presets.
+ * Throws (with a message to show) only if the file as a whole isn't readable.
+ */
+export function parsePresetFile(text: string, existing: Preset[] = presetLibrary.getPresets()): ImportEntry[] {
+	let file: unknown;
+	try {
+		file = JSON.parse(text);
+	} catch {
+		throw new Error("This file isn't valid JSON");
+	}
+	if (!isObject(file) || file.format !== PRESET_FILE_FORMAT) {
+		throw new Error("This isn't an Igor Timer preset file");
+	}
+	if (typeof file.version !== "number" || file.version > PRESET_FILE_VERSION) {
+		throw new Error("This preset file needs a newer version of the app - reload to update");
+	}
+	if (!Array.isArray(file.presets)) throw new Error("This preset file has no presets list");
+
+	const seen = new Map<string, number>();
+	return file.presets.map((value, i) => parseEntry(value, i + 1, seen, existing));
+}
+
+/**
+ * Save the valid entries. Conflicts follow `resolutions` (by entry index),
+ * defaulting to keeping both; a built-in can't be replaced, so replacing
+ * one keeps both too.
+ */
+export async function importPresets(
+	entries: ImportEntry[],
+	resolutions: Record<number, ConflictResolution> = {},
+): Promise<{ imported: number; skipped: number }> {
+	// Stored presets must be loaded for their names to count as taken
+	await presetLibrary.load();
+
+	let imported = 0;
+	let skipped = 0;
+	for (const { index, name, favorite, profile, conflict } of entries) {
+		if (!profile) {
+			skipped++;
+			continue;
+		}
+
+		const resolution = conflict ? (resolutions[index] ?? "rename") : undefined;
+		if (resolution === "skip") {
+			skipped++;
+		} else if (resolution === "replace" && conflict && !conflict.builtIn) {
+			await presetLibrary.updateProfile(conflict.id, profile);
+			await presetLibrary.setFavorite(conflict.id, favorite);
+			imported++;
+		} else {
+			// Room for a " 2"-style suffix
+			const base = resolution ? name.slice(0, MAX_PRESET_NAME_LENGTH - 3).trim() : name;
+			await presetLibrary.save(presetLibrary.getUniqueName(base), profile, { favorite });
+			imported++;
+		}
+	}
+
+	recordEvent("presets:imported", { imported, skipped });
+	return { imported, skipped };
+}
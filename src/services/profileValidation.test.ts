@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { validateProfile } from "./profileValidation";
+
+const base = {
+	name: "5-1",
+	workTime: 300,
+	restTime: 60,
+	rounds: 3,
+	cycles: 1,
+	cycleRestTime: 60,
+	prepTime: 5,
+};
+
+describe("validateProfile", () => {
+	it("should return a clean copy without unknown fields", () => {
+		const profile = validateProfile({ ...base, name: "  5-1 ", theme: "dark", metronome: { bpm: 30, extra: 1 } });
+		expect(profile).toEqual({ ...base, metronome: { bpm: 30 } });
+	});
+
+	it("should name the field at fault", () => {
+		expect(() => validateProfile(null)).toThrow("Not a timer profile");
+		expect(() => validateProfile({ ...base, restTime: "60" })).toThrow("Rest time must be a whole number from 0 to 3600");
+		expect(() => validateProfile({ ...base, rounds: 0 })).toThrow("Rounds must be a whole number from 1 to 100");
+		expect(() => validateProfile({ ...base, exercises: [{ name: "Row" }, { name: 3 }] })).toThrow(
+			"Exercise 2 name must be text",
+		);
+		expect(() => validateProfile({ ...base, progression: { type: "zigzag" } })).toThrow('Unknown progression "zigzag"');
+		expect(() => validateProfile({ ...base, metronome: { bpm: 300 } })).toThrow("Cadence must be a whole number");
+	});
+
+	it("should check program segments and repeats", () => {
+		const program = [
+			{ type: "prep", duration: 10 },
+			{ type: "repeat", times: 2, items: [{ type: "work", duration: 30 }, { type: "sprint", duration: 10 }] },
+		];
+		expect(() => validateProfile({ ...base, program })).toThrow('Segment 2 item 2 has unknown type "sprint"');
+
+		program[1] = { type: "repeat", times: 2, items: [{ type: "work", duration: 30.5 }] };
+		expect(() => validateProfile({ ...base, program })).toThrow("Segment 2 item 1 duration must be a whole number");
+	});
+
+	it("should refuse programs that expand too far", () => {
+		const nest = (depth: number, times: number): unknown =>
+			depth === 0 ? { type: "work", duration: 1 } : { type: "repeat", times, items: [nest(depth - 1, times)] };
+
+		expect(() => validateProfile({ ...base, program: [nest(2, 20)] })).not.toThrow();
+		expect(() => validateProfile({ ...base, program: [nest(3, 20)] })).toThrow("at most 2000 segments");
+		expect(() => validateProfile({ ...base, program: [nest(5, 1)] })).toThrow("nests repeats too deeply");
+	});
+});
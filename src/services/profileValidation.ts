@@ -0,0 +1,179 @@
+/**
+ * Profile Validation
+ *
+ * Timer profiles that come from outside the app - a shared link, an
+ * imported file - are checked field by field before they reach the
+ * engine. validateProfile() returns a clean copy (unknown fields dropped)
+ * or throws an Error whose message names the offending field, ready to
+ * show to the user.
+ *
+ * @example
+ * try {
+ *   const profile = validateProfile(JSON.parse(text));
+ * } catch (error) {
+ *   showError(error.message); // "Round 3 rest must be a whole number from 0 to 3600"
+ * }
+ */
+
+import type { TimerProfile } from "./timerEngine";
+import {
+	type Exercise,
+	type Metronome,
+	type ProgramItem,
+	type RoundDurations,
+	type RoundProgression,
+	SEGMENT_LABELS,
+	type SegmentType,
+} from "./workoutProgram";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** An hour is far past any phase anyone times with this */
+export const MAX_PHASE_SECONDS = 3600;
+export const MAX_ROUNDS = 100;
+export const MAX_CYCLES = 20;
+/** Fast jump rope; anything quicker isn't a cadence anyone keeps */
+export const MAX_BPM = 240;
+export const MAX_ACCENT_EVERY = 16;
+const MAX_NAME_LENGTH = 60;
+const MAX_NOTES_LENGTH = 200;
+/** Repeat nesting and expanded length, so a program can't hang the flattener */
+const MAX_REPEAT_DEPTH = 4;
+const MAX_SEGMENTS = 2000;
+
+// ============================================================================
+// Field Checks
+// ============================================================================
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function wholeNumber(value: unknown, label: string, min: number, max: number): number {
+	if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+		throw new Error(`${label} must be a whole number from ${min} to ${max}`);
+	}
+	return value;
+}
+
+function text(value: unknown, label: string, maxLength: number): string {
+	if (typeof value !== "string") throw new Error(`${label} must be text`);
+	if (value.length > maxLength) throw new Error(`${label} can be at most ${maxLength} characters`);
+	return value;
+}
+
+function list(value: unknown, label: string, max: number): unknown[] {
+	if (!Array.isArray(value)) throw new Error(`${label} must be a list`);
+	if (value.length > max) throw new Error(`${label} can have at most ${max} entries`);
+	return value;
+}
+
+function exercise(value: unknown, label: string): Exercise {
+	if (!isObject(value)) throw new Error(`${label} must be an exercise`);
+	const name = text(value.name, `${label} name`, MAX_NAME_LENGTH);
+	return value.notes === undefined ? { name } : { name, notes: text(value.notes, `${label} notes`, MAX_NOTES_LENGTH) };
+}
+
+function metronome(value: unknown): Metronome {
+	if (!isObject(value)) throw new Error("Cadence must be a BPM setting");
+	const bpm = wholeNumber(value.bpm, "Cadence", 1, MAX_BPM);
+	if (value.accentEvery === undefined) return { bpm };
+	return { bpm, accentEvery: wholeNumber(value.accentEvery, "Accent", 2, MAX_ACCENT_EVERY) };
+}
+
+function progression(value: unknown): RoundProgression {
+	if (!isObject(value)) throw new Error("Progression must be a setting");
+	switch (value.type) {
+		case "constant":
+			return { type: "constant" };
+		case "linear":
+		case "pyramid":
+			return {
+				type: value.type,
+				workStep: wholeNumber(value.workStep, "Work step", -MAX_PHASE_SECONDS, MAX_PHASE_SECONDS),
+				restStep: wholeNumber(value.restStep, "Rest step", -MAX_PHASE_SECONDS, MAX_PHASE_SECONDS),
+			};
+		case "custom": {
+			const rounds = list(value.rounds, "Rounds table", MAX_ROUNDS).map((round, i): RoundDurations => {
+				if (!isObject(round)) throw new Error(`Round ${i + 1} must have work and rest`);
+				return {
+					work: wholeNumber(round.work, `Round ${i + 1} work`, 1, MAX_PHASE_SECONDS),
+					rest: wholeNumber(round.rest, `Round ${i + 1} rest`, 0, MAX_PHASE_SECONDS),
+				};
+			});
+			if (rounds.length === 0) throw new Error("Rounds table must have at least one round");
+			return { type: "custom", rounds };
+		}
+		default:
+			throw new Error(`Unknown progression "${String(value.type)}"`);
+	}
+}
+
+/** Checks items and counts the segments they expand to */
+function programItems(value: unknown, depth: number, path: string): { items: ProgramItem[]; count: number } {
+	const items: ProgramItem[] = [];
+	let count = 0;
+
+	list(value, path ? `${path} items` : "Program", MAX_SEGMENTS).forEach((item, i) => {
+		const label = `${path ? `${path} item` : "Segment"} ${i + 1}`;
+		if (!isObject(item)) throw new Error(`${label} must be a segment`);
+
+		if (item.type === "repeat") {
+			if (depth >= MAX_REPEAT_DEPTH) throw new Error(`${label} nests repeats too deeply`);
+			const times = wholeNumber(item.times, `${label} repeat count`, 0, MAX_ROUNDS);
+			const inner = programItems(item.items, depth + 1, label);
+			items.push({ type: "repeat", times, items: inner.items });
+			count += times * inner.count;
+		} else {
+			if (typeof item.type !== "string" || !(item.type in SEGMENT_LABELS)) {
+				throw new Error(`${label} has unknown type "${String(item.type)}"`);
+			}
+			items.push({
+				type: item.type as SegmentType,
+				duration: wholeNumber(item.duration, `${label} duration`, 0, MAX_PHASE_SECONDS),
+				...(item.label !== undefined && { label: text(item.label, `${label} label`, MAX_NAME_LENGTH) }),
+				...(item.exercise !== undefined && { exercise: exercise(item.exercise, `${label} exercise`) }),
+				...(item.metronome !== undefined && { metronome: metronome(item.metronome) }),
+			});
+			count++;
+		}
+		if (count > MAX_SEGMENTS) throw new Error(`Program can have at most ${MAX_SEGMENTS} segments`);
+	});
+
+	return { items, count };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/** A clean, checked copy of a profile from outside the app; throws with a user-facing message */
+export function validateProfile(value: unknown): TimerProfile {
+	if (!isObject(value)) throw new Error("Not a timer profile");
+
+	const profile: TimerProfile = {
+		name: text(value.name, "Name", MAX_NAME_LENGTH).trim(),
+		workTime: wholeNumber(value.workTime, "Work time", 1, MAX_PHASE_SECONDS),
+		restTime: wholeNumber(value.restTime, "Rest time", 0, MAX_PHASE_SECONDS),
+		rounds: wholeNumber(value.rounds, "Rounds", 1, MAX_ROUNDS),
+		cycles: wholeNumber(value.cycles, "Cycles", 1, MAX_CYCLES),
+		cycleRestTime: wholeNumber(value.cycleRestTime, "Cycle rest", 0, MAX_PHASE_SECONDS),
+		prepTime: wholeNumber(value.prepTime, "Prep time", 0, MAX_PHASE_SECONDS),
+	};
+	if (!profile.name) throw new Error("Name can't be empty");
+
+	if (value.progression !== undefined) profile.progression = progression(value.progression);
+	if (value.exercises !== undefined) {
+		profile.exercises = list(value.exercises, "Exercises", MAX_ROUNDS).map((item, i) =>
+			exercise(item, `Exercise ${i + 1}`),
+		);
+	}
+	if (value.program !== undefined) profile.program = programItems(value.program, 0, "").items;
+	if (value.metronome !== undefined) profile.metronome = metronome(value.metronome);
+
+	return profile;
+}
@@ -0,0 +1,246 @@
+/**
+ * QR Code Encoder Tests
+ *
+ * Known vectors come from ISO/IEC 18004 and its widely used worked example
+ * ("HELLO WORLD" at 1-M). The round trips read codes back with a small
+ * reader written independently here: it locates the function patterns
+ * from the spec's tables, unmasks, follows the zigzag, checks every
+ * block's Reed-Solomon syndromes and decodes the byte segment.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	addErrorCorrection,
+	ERROR_CORRECTION_LEVELS,
+	type ErrorCorrectionLevel,
+	encodeQr,
+	encodeText,
+	getFormatBits,
+	getVersionBits,
+	type QrCode,
+} from "./qrCode";
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+/** Alignment pattern centres, from the spec's table */
+const ALIGNMENT_POSITIONS: Record<number, number[]> = {
+	1: [],
+	2: [6, 18],
+	3: [6, 22],
+	4: [6, 26],
+	5: [6, 30],
+	6: [6, 34],
+	7: [6, 22, 38],
+	8: [6, 24, 42],
+	9: [6, 26, 46],
+	10: [6, 28, 50],
+};
+
+/** [block count, data codewords per block] groups and ECC per block, from the spec's table */
+const BLOCK_STRUCTURE: Record<string, { groups: [number, number][]; ecc: number }> = {
+	"1-M": { groups: [[1, 16]], ecc: 10 },
+	"2-L": { groups: [[1, 34]], ecc: 10 },
+	"4-M": { groups: [[2, 32]], ecc: 18 },
+	"5-Q": { groups: [[2, 15], [2, 16]], ecc: 18 },
+	"7-H": { groups: [[4, 13], [1, 14]], ecc: 26 },
+	"10-M": { groups: [[4, 43], [1, 44]], ecc: 26 },
+};
+
+const READER_MASKS: ((row: number, column: number) => boolean)[] = [
+	(i, j) => (i + j) % 2 === 0,
+	(i) => i % 2 === 0,
+	(_i, j) => j % 3 === 0,
+	(i, j) => (i + j) % 3 === 0,
+	(i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+	(i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+	(i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+	(i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+function isFunctionModule(version: number, size: number, row: number, column: number): boolean {
+	// Finders with separators, plus the format areas beside them
+	if (row <= 8 && column <= 8) return true;
+	if (row <= 8 && column >= size - 8) return true;
+	if (row >= size - 8 && column <= 8) return true;
+	if (row === 6 || column === 6) return true;
+	if (version >= 7 && ((row < 6 && column >= size - 11) || (column < 6 && row >= size - 11))) return true;
+
+	const positions = ALIGNMENT_POSITIONS[version];
+	return positions.some((y, i) =>
+		positions.some((x, j) => {
+			const last = positions.length - 1;
+			if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return false;
+			return Math.abs(row - y) <= 2 && Math.abs(column - x) <= 2;
+		}),
+	);
+}
+
+/** The format bits next to the top-left finder, most significant first */
+function readFormatBits({ modules }: QrCode): number {
+	const cells: [number, number][] = [
+		[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+		[7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+	];
+	return cells.reduce((bits, [row, column]) => (bits << 1) | (modules[row][column] ? 1 : 0), 0);
+}
+
+function readCodewords(qr: QrCode, mask: number): number[] {
+	const { version, size, modules } = qr;
+	const bits: number[] = [];
+	let upward = true;
+	for (let right = size - 1; right > 0; right -= 2) {
+		if (right === 6) right--;
+		for (let k = 0; k < size; k++) {
+			const row = upward ? size - 1 - k : k;
+			for (const column of [right, right - 1]) {
+				if (isFunctionModule(version, size, row, column)) continue;
+				bits.push(modules[row][column] !== READER_MASKS[mask](row, column) ? 1 : 0);
+			}
+		}
+		upward = !upward;
+	}
+
+	const codewords: number[] = [];
+	for (let i = 0; i + 8 <= bits.length; i += 8) {
+		codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+	}
+	return codewords;
+}
+
+/** GF(256) with the QR polynomial, via log tables */
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+for (let i = 0, x = 1; i < 255; i++) {
+	EXP[i] = x;
+	LOG[x] = i;
+	x = (x << 1) ^ (x & 0x80 ? 0x11d : 0);
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+
+/** A codeword block is valid when it evaluates to zero at α^0 ... α^(ecc-1) */
+function syndromesAreZero(block: number[], ecc: number): boolean {
+	for (let i = 0; i < ecc; i++) {
+		let value = 0;
+		for (const coefficient of block) {
+			value = (value === 0 ? 0 : EXP[LOG[value] + i]) ^ coefficient;
+		}
+		if (value !== 0) return false;
+	}
+	return true;
+}
+
+/** Undo the interleaving; returns each block's data and ECC codewords */
+function deinterleave(codewords: number[], { groups, ecc }: { groups: [number, number][]; ecc: number }) {
+	const lengths = groups.flatMap(([count, length]) => new Array<number>(count).fill(length));
+	const blocks = lengths.map(() => [] as number[]);
+	let next = 0;
+	for (let i = 0; i < Math.max(...lengths); i++) {
+		lengths.forEach((length, b) => {
+			if (i < length) blocks[b].push(codewords[next++]);
+		});
+	}
+	const eccBlocks = lengths.map(() => [] as number[]);
+	for (let i = 0; i < ecc; i++) {
+		eccBlocks.forEach((block) => block.push(codewords[next++]));
+	}
+	return blocks.map((data, b) => ({ data, ecc: eccBlocks[b] }));
+}
+
+/** A byte-mode segment's text */
+function decodeByteSegment(data: number[], version: number): string {
+	const bits = data.flatMap((byte) => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+	const read = (from: number, length: number) => bits.slice(from, from + length).reduce((v, bit) => (v << 1) | bit, 0);
+
+	expect(read(0, 4)).toBe(0b0100);
+	const countBits = version <= 9 ? 8 : 16;
+	const length = read(4, countBits);
+	const bytes = Array.from({ length }, (_, i) => read(4 + countBits + i * 8, 8));
+	return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+function readQr(qr: QrCode): { level: ErrorCorrectionLevel; mask: number; text: string } {
+	const format = readFormatBits(qr);
+	const match = ERROR_CORRECTION_LEVELS.flatMap((level) =>
+		Array.from({ length: 8 }, (_, mask) => ({ level, mask })),
+	).find(({ level, mask }) => getFormatBits(level, mask) === format);
+	if (!match) throw new Error("No format information");
+
+	const structure = BLOCK_STRUCTURE[`${qr.version}-${match.level}`];
+	const blocks = deinterleave(readCodewords(qr, match.mask), structure);
+	for (const block of blocks) {
+		expect(syndromesAreZero([...block.data, ...block.ecc], structure.ecc)).toBe(true);
+	}
+	return { ...match, text: decodeByteSegment(blocks.flatMap((block) => block.data), qr.version) };
+}
+
+function randomText(length: number, seed: number): string {
+	let state = seed;
+	return Array.from({ length }, () => {
+		state = (state * 1103515245 + 12345) % 2 ** 31;
+		return "abcdefghijklmnopqrstuvwxyz0123456789#=/-_:.?"[state % 45];
+	}).join("");
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("qrCode", () => {
+	it("should encode HELLO WORLD at 1-M to the reference codewords", () => {
+		const { version, data } = encodeText("HELLO WORLD", "M");
+
+		expect(version).toBe(1);
+		expect(data).toEqual([32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17]);
+		expect(addErrorCorrection(data, 1, "M").slice(16)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+	});
+
+	it("should encode digits in numeric mode", () => {
+		// The spec's example: "01234567" at 1-M
+		expect(encodeText("01234567", "M").data.slice(0, 6)).toEqual([0x10, 0x20, 0x0c, 0x56, 0x61, 0x80]);
+	});
+
+	it("should produce the reference format and version bits", () => {
+		expect(getFormatBits("L", 0).toString(2).padStart(15, "0")).toBe("111011111000100");
+		expect(getFormatBits("M", 0).toString(2).padStart(15, "0")).toBe("101010000010010");
+		expect(getFormatBits("H", 7).toString(2).padStart(15, "0")).toBe("000100000111011");
+		expect(getVersionBits(7)).toBe(0x07c94);
+		expect(getVersionBits(40)).toBe(0x28c69);
+	});
+
+	it("should choose the smallest version that fits", () => {
+		// Byte capacities from the spec: 1-L holds 17, 10-M holds 213
+		expect(encodeText("a".repeat(17), "L").version).toBe(1);
+		expect(encodeText("a".repeat(18), "L").version).toBe(2);
+		expect(encodeText("a".repeat(213), "M").version).toBe(10);
+		expect(encodeText("a".repeat(214), "M").version).toBe(11);
+		expect(encodeText("a".repeat(2953), "L").version).toBe(40);
+		expect(() => encodeText("a".repeat(1274), "H")).toThrow("Too much to fit in a QR code at level H");
+	});
+
+	it("should draw finder, timing and dark modules", () => {
+		const { size, modules } = encodeQr("https://example.com", "L");
+		const finderRow = modules[0].slice(0, 8).map(Number);
+
+		expect(size).toBe(25);
+		expect(finderRow).toEqual([1, 1, 1, 1, 1, 1, 1, 0]);
+		expect(modules[6].slice(8, size - 8).map(Number)).toEqual([1, 0, 1, 0, 1, 0, 1, 0, 1]);
+		expect(modules[size - 8][8]).toBe(true);
+	});
+
+	it.each([
+		["https://igor-gym-timer.surge.sh/#w=WzEsIlRBQkFUQSIsMjAsMTAsOF0", "M", 4],
+		["ROW 4×4 🚣", "M", 1],
+		[randomText(30, 1), "L", 2],
+		[randomText(60, 2), "Q", 5],
+		[randomText(60, 3), "H", 7],
+		[randomText(200, 4), "M", 10],
+	] as [string, ErrorCorrectionLevel, number][])("should read %s back at level %s", (text, level, version) => {
+		const qr = encodeQr(text, level);
+		const read = readQr(qr);
+
+		expect(qr.version).toBe(version);
+		expect(read).toEqual({ level, mask: qr.mask, text });
+	});
+});
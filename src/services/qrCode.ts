@@ -0,0 +1,492 @@
+/**
+ * QR Code Encoder
+ *
+ * A self-contained QR Code Model 2 encoder (ISO/IEC 18004), so share links
+ * can be shown as a code on a wall screen with no network. Text is encoded
+ * as a single segment in the most compact mode it fits - numeric,
+ * alphanumeric or byte (UTF-8) - in the smallest version (1-40) that holds
+ * it at the chosen error-correction level. All eight masks are tried and
+ * the one with the lowest penalty score is kept.
+ *
+ * @example
+ * const qr = encodeQr(getShareUrl(profile), "Q");
+ * qr.modules[y][x]; // true for a dark module, qr.size modules square
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How much of the code can be damaged and still read: about 7%, 15%, 25% or 30% */
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+	version: number;
+	level: ErrorCorrectionLevel;
+	mask: number;
+	/** Modules per side */
+	size: number;
+	/** Rows of modules; true is dark */
+	modules: boolean[][];
+}
+
+type Mode = "numeric" | "alphanumeric" | "byte";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/** The two bits each level puts in the format information */
+const LEVEL_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+	L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+	Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+	H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+	L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+	M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+	Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+	H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const MODE_INDICATORS: Record<Mode, number> = { numeric: 0x1, alphanumeric: 0x2, byte: 0x4 };
+
+/** Character count bits for versions 1-9, 10-26 and 27-40 */
+const CHAR_COUNT_BITS: Record<Mode, [number, number, number]> = {
+	numeric: [10, 12, 14],
+	alphanumeric: [9, 11, 13],
+	byte: [8, 16, 16],
+};
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+// Penalty weights for choosing a mask
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+// ============================================================================
+// Bits & Reed-Solomon
+// ============================================================================
+
+class BitBuffer {
+	readonly bits: number[] = [];
+
+	append(value: number, length: number): void {
+		for (let i = length - 1; i >= 0; i--) this.bits.push((value >>> i) & 1);
+	}
+}
+
+function getBit(value: number, index: number): boolean {
+	return ((value >>> index) & 1) !== 0;
+}
+
+/** Product in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+	let z = 0;
+	for (let i = 7; i >= 0; i--) {
+		z = (z << 1) ^ ((z >>> 7) * 0x11d);
+		z ^= ((y >>> i) & 1) * x;
+	}
+	return z & 0xff;
+}
+
+/** Generator polynomial coefficients (highest first, leading 1 dropped) */
+function reedSolomonDivisor(degree: number): number[] {
+	const result = new Array<number>(degree).fill(0);
+	result[degree - 1] = 1;
+	let root = 1;
+	for (let i = 0; i < degree; i++) {
+		for (let j = 0; j < degree; j++) {
+			result[j] = gfMultiply(result[j], root);
+			if (j + 1 < degree) result[j] ^= result[j + 1];
+		}
+		root = gfMultiply(root, 0x02);
+	}
+	return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+	const result = new Array<number>(divisor.length).fill(0);
+	for (const byte of data) {
+		const factor = byte ^ (result.shift() as number);
+		result.push(0);
+		divisor.forEach((coefficient, i) => {
+			result[i] ^= gfMultiply(coefficient, factor);
+		});
+	}
+	return result;
+}
+
+// ============================================================================
+// Capacity
+// ============================================================================
+
+function getSize(version: number): number {
+	return version * 4 + 17;
+}
+
+/** Modules left for data and error correction once the function patterns are placed */
+function getRawDataModules(version: number): number {
+	let result = (16 * version + 128) * version + 64;
+	if (version >= 2) {
+		const alignments = Math.floor(version / 7) + 2;
+		result -= (25 * alignments - 10) * alignments - 55;
+		if (version >= 7) result -= 36;
+	}
+	return result;
+}
+
+function getDataCodewordCount(version: number, level: ErrorCorrectionLevel): number {
+	return (
+		Math.floor(getRawDataModules(version) / 8) -
+		ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version]
+	);
+}
+
+/** Centre coordinates of the alignment patterns, on both axes */
+function getAlignmentPositions(version: number): number[] {
+	if (version === 1) return [];
+	const count = Math.floor(version / 7) + 2;
+	const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+	const positions = [6];
+	for (let position = getSize(version) - 7; positions.length < count; position -= step) {
+		positions.splice(1, 0, position);
+	}
+	return positions;
+}
+
+// ============================================================================
+// Data Encoding
+// ============================================================================
+
+function getMode(text: string): Mode {
+	if (/^[0-9]*$/.test(text)) return "numeric";
+	if ([...text].every((char) => ALPHANUMERIC_CHARSET.includes(char))) return "alphanumeric";
+	return "byte";
+}
+
+function getCharCountBits(mode: Mode, version: number): number {
+	return CHAR_COUNT_BITS[mode][version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+function appendPayload(buffer: BitBuffer, mode: Mode, text: string, bytes: Uint8Array): void {
+	if (mode === "numeric") {
+		for (let i = 0; i < text.length; i += 3) {
+			const group = text.slice(i, i + 3);
+			buffer.append(Number(group), group.length * 3 + 1);
+		}
+	} else if (mode === "alphanumeric") {
+		for (let i = 0; i < text.length; i += 2) {
+			const first = ALPHANUMERIC_CHARSET.indexOf(text[i]);
+			if (i + 1 < text.length) {
+				buffer.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+			} else {
+				buffer.append(first, 6);
+			}
+		}
+	} else {
+		for (const byte of bytes) buffer.append(byte, 8);
+	}
+}
+
+/**
+ * The data codewords for `text` (mode, count, payload, terminator and
+ * padding) in the smallest version that holds it; throws if none does.
+ */
+export function encodeText(text: string, level: ErrorCorrectionLevel): { version: number; data: number[] } {
+	const mode = getMode(text);
+	const bytes = new TextEncoder().encode(text);
+	const count = mode === "byte" ? bytes.length : text.length;
+
+	const payload = new BitBuffer();
+	appendPayload(payload, mode, text, bytes);
+
+	for (let version = MIN_VERSION; version <= MAX_VERSION; version++) {
+		const countBits = getCharCountBits(mode, version);
+		const capacityBits = getDataCodewordCount(version, level) * 8;
+		if (count >= 1 << countBits || 4 + countBits + payload.bits.length > capacityBits) continue;
+
+		const buffer = new BitBuffer();
+		buffer.append(MODE_INDICATORS[mode], 4);
+		buffer.append(count, countBits);
+		buffer.bits.push(...payload.bits);
+		buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+		buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+
+		const data: number[] = [];
+		for (let i = 0; i < buffer.bits.length; i += 8) {
+			data.push(buffer.bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+		}
+		for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+		return { version, data };
+	}
+
+	throw new Error(`Too much to fit in a QR code at level ${level}`);
+}
+
+/** Split data into blocks, add each block's error correction, and interleave them */
+export function addErrorCorrection(data: number[], version: number, level: ErrorCorrectionLevel): number[] {
+	const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+	const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+	const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+	const shortBlockCount = blockCount - (rawCodewords % blockCount);
+	const shortBlockLength = Math.floor(rawCodewords / blockCount);
+	const divisor = reedSolomonDivisor(eccLength);
+
+	const blocks: number[][] = [];
+	for (let i = 0, offset = 0; i < blockCount; i++) {
+		const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+		offset += block.length;
+		const ecc = reedSolomonRemainder(block, divisor);
+		// A placeholder so every block has the same length while interleaving
+		if (i < shortBlockCount) block.push(0);
+		blocks.push([...block, ...ecc]);
+	}
+
+	const result: number[] = [];
+	for (let i = 0; i < blocks[0].length; i++) {
+		blocks.forEach((block, j) => {
+			if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+		});
+	}
+	return result;
+}
+
+// ============================================================================
+// Format & Version Information
+// ============================================================================
+
+/** The 15 format bits (level and mask, BCH protected and masked) */
+export function getFormatBits(level: ErrorCorrectionLevel, mask: number): number {
+	const data = (LEVEL_FORMAT_BITS[level] << 3) | mask;
+	let remainder = data;
+	for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+	return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/** The 18 version bits (versions 7 and up) */
+export function getVersionBits(version: number): number {
+	let remainder = version;
+	for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+	return (version << 12) | remainder;
+}
+
+// ============================================================================
+// Matrix
+// ============================================================================
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+	(x, y) => (x + y) % 2 === 0,
+	(_x, y) => y % 2 === 0,
+	(x) => x % 3 === 0,
+	(x, y) => (x + y) % 3 === 0,
+	(x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+	(x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+	(x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+	(x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class Matrix {
+	readonly modules: boolean[][];
+	/** Finder, timing, alignment, format and version modules - never masked */
+	readonly isFunction: boolean[][];
+
+	constructor(
+		readonly version: number,
+		readonly size: number = getSize(version),
+	) {
+		this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+		this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+		this.drawFunctionPatterns();
+	}
+
+	private setFunction(x: number, y: number, dark: boolean): void {
+		this.modules[y][x] = dark;
+		this.isFunction[y][x] = true;
+	}
+
+	private drawFunctionPatterns(): void {
+		const { size } = this;
+		for (let i = 0; i < size; i++) {
+			this.setFunction(6, i, i % 2 === 0);
+			this.setFunction(i, 6, i % 2 === 0);
+		}
+
+		this.drawFinder(3, 3);
+		this.drawFinder(size - 4, 3);
+		this.drawFinder(3, size - 4);
+
+		const positions = getAlignmentPositions(this.version);
+		const last = positions.length - 1;
+		positions.forEach((y, i) => {
+			positions.forEach((x, j) => {
+				// Skip the three corners the finders occupy
+				if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+				this.drawAlignment(x, y);
+			});
+		});
+
+		// Reserve the format areas; the real bits go in once the mask is chosen
+		this.drawFormatBits(0);
+		this.drawVersionBits();
+	}
+
+	/** A finder pattern and its separator, centred on (x, y) */
+	private drawFinder(x: number, y: number): void {
+		for (let dy = -4; dy <= 4; dy++) {
+			for (let dx = -4; dx <= 4; dx++) {
+				const distance = Math.max(Math.abs(dx), Math.abs(dy));
+				const xx = x + dx;
+				const yy = y + dy;
+				if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+					this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+				}
+			}
+		}
+	}
+
+	private drawAlignment(x: number, y: number): void {
+		for (let dy = -2; dy <= 2; dy++) {
+			for (let dx = -2; dx <= 2; dx++) {
+				this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+			}
+		}
+	}
+
+	drawFormatBits(bits: number): void {
+		const { size } = this;
+		// Around the top-left finder
+		for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+		this.setFunction(8, 7, getBit(bits, 6));
+		this.setFunction(8, 8, getBit(bits, 7));
+		this.setFunction(7, 8, getBit(bits, 8));
+		for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+		// Split between the other two finders
+		for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+		for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+		this.setFunction(8, size - 8, true); // Always dark
+	}
+
+	private drawVersionBits(): void {
+		if (this.version < 7) return;
+		const bits = getVersionBits(this.version);
+		for (let i = 0; i < 18; i++) {
+			const dark = getBit(bits, i);
+			const a = this.size - 11 + (i % 3);
+			const b = Math.floor(i / 3);
+			this.setFunction(a, b, dark);
+			this.setFunction(b, a, dark);
+		}
+	}
+
+	/** Place codewords in the zigzag from the bottom right, two columns at a time */
+	drawCodewords(codewords: number[]): void {
+		const { size } = this;
+		let i = 0;
+		for (let right = size - 1; right >= 1; right -= 2) {
+			// The vertical timing pattern takes column 6
+			if (right === 6) right = 5;
+			const upward = ((right + 1) & 2) === 0;
+			for (let vertical = 0; vertical < size; vertical++) {
+				const y = upward ? size - 1 - vertical : vertical;
+				for (let j = 0; j < 2; j++) {
+					const x = right - j;
+					if (!this.isFunction[y][x] && i < codewords.length * 8) {
+						this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+						i++;
+					}
+				}
+			}
+		}
+	}
+
+	/** Toggle the data modules the mask selects; applying it twice undoes it */
+	applyMask(mask: number): void {
+		for (let y = 0; y < this.size; y++) {
+			for (let x = 0; x < this.size; x++) {
+				if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+			}
+		}
+	}
+
+	/** Lower is easier for scanners: few long runs, blocks or finder look-alikes, and balanced dark/light */
+	getPenalty(): number {
+		const { size, modules } = this;
+		const lines: boolean[][] = [...modules, ...modules.map((_, x) => modules.map((row) => row[x]))];
+		let penalty = 0;
+
+		for (const line of lines) {
+			let runLength = 1;
+			for (let i = 1; i <= size; i++) {
+				if (i < size && line[i] === line[i - 1]) {
+					runLength++;
+				} else {
+					if (runLength >= 5) penalty += PENALTY_RUN + runLength - 5;
+					runLength = 1;
+				}
+			}
+
+			const pattern = line.map((dark) => (dark ? "1" : "0")).join("");
+			for (const finderLike of ["10111010000", "00001011101"]) {
+				for (let at = pattern.indexOf(finderLike); at !== -1; at = pattern.indexOf(finderLike, at + 1)) {
+					penalty += PENALTY_FINDER_LIKE;
+				}
+			}
+		}
+
+		for (let y = 0; y < size - 1; y++) {
+			for (let x = 0; x < size - 1; x++) {
+				const dark = modules[y][x];
+				if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+					penalty += PENALTY_BLOCK;
+				}
+			}
+		}
+
+		const dark = modules.reduce((total, row) => total + row.filter(Boolean).length, 0);
+		const total = size * size;
+		penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+		return penalty;
+	}
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/** Encode text as a QR code; throws if it's too long for any version at this level */
+export function encodeQr(text: string, level: ErrorCorrectionLevel = "M"): QrCode {
+	const { version, data } = encodeText(text, level);
+	const matrix = new Matrix(version);
+	matrix.drawCodewords(addErrorCorrection(data, version, level));
+
+	let bestMask = 0;
+	let bestPenalty = Number.POSITIVE_INFINITY;
+	for (let mask = 0; mask < MASKS.length; mask++) {
+		matrix.applyMask(mask);
+		matrix.drawFormatBits(getFormatBits(level, mask));
+		const penalty = matrix.getPenalty();
+		if (penalty < bestPenalty) {
+			bestMask = mask;
+			bestPenalty = penalty;
+		}
+		matrix.applyMask(mask);
+	}
+
+	matrix.applyMask(bestMask);
+	matrix.drawFormatBits(getFormatBits(level, bestMask));
+	return { version, level, mask: bestMask, size: matrix.size, modules: matrix.modules };
+}
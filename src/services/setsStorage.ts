@@ -1,5 +1,6 @@
-const DB_NAME = "igor-timer";
-const STORE_NAME = "sets";
+import { openDB, STORES } from "./database";
+
+const STORE_NAME = STORES.sets;
 const KEY = "current";
 const THIRTY_MINUTES_MS = 30 * 60 * 1000;
 
@@ -8,22 +9,6 @@ interface SetsData {
 	lastUpdated: number;
 }
 
-function openDB(): Promise<IDBDatabase> {
-	return new Promise((resolve, reject) => {
-		const request = indexedDB.open(DB_NAME, 1);
-
-		request.onerror = () => reject(request.error);
-		request.onsuccess = () => resolve(request.result);
-
-		request.onupgradeneeded = (event) => {
-			const db = (event.target as IDBOpenDBRequest).result;
-			if (!db.objectStoreNames.contains(STORE_NAME)) {
-				db.createObjectStore(STORE_NAME);
-			}
-		};
-	});
-}
-
 export async function loadSetsCount(): Promise<number> {
 	try {
 		const db = await openDB();
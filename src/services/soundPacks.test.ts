@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { audioService } from "./audioService";
+import {
+	CUE_LABELS,
+	type CueName,
+	getCueSettings,
+	getSelectedSoundPack,
+	playCue,
+	SOUND_PACKS,
+	scheduleCue,
+	setCueSettings,
+	setSelectedSoundPack,
+} from "./soundPacks";
+
+vi.mock("./audioService", () => ({
+	audioService: {
+		scheduleTone: vi.fn(),
+		scheduleClip: vi.fn(),
+		hasClip: vi.fn((id: string) => id === "clip-go"),
+	},
+}));
+
+const CUES = Object.keys(CUE_LABELS) as CueName[];
+
+function pack(id: string) {
+	return SOUND_PACKS.find((p) => p.id === id)!;
+}
+
+describe("soundPacks", () => {
+	beforeEach(() => {
+		localStorage.clear();
+		vi.mocked(audioService.scheduleTone).mockClear();
+		vi.mocked(audioService.scheduleClip).mockClear();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should define every cue in every pack", () => {
+		for (const soundPack of SOUND_PACKS) {
+			expect(Object.keys(soundPack.cues).sort()).toEqual([...CUES].sort());
+		}
+	});
+
+	it("should make every cue audible outside the classic pack", () => {
+		for (const soundPack of SOUND_PACKS.filter((p) => p.id !== "classic")) {
+			for (const cue of CUES) {
+				expect(soundPack.cues[cue].tones.length, `${soundPack.id}.${cue}`).toBeGreaterThan(0);
+			}
+		}
+	});
+
+	describe("selection", () => {
+		it("should default to classic", () => {
+			expect(getSelectedSoundPack().id).toBe("classic");
+		});
+
+		it("should persist the selected pack", () => {
+			setSelectedSoundPack("whistle");
+
+			expect(getSelectedSoundPack().id).toBe("whistle");
+		});
+
+		it("should fall back to classic for an unknown pack", () => {
+			setSelectedSoundPack("kazoo");
+
+			expect(getSelectedSoundPack().id).toBe("classic");
+		});
+	});
+
+	describe("cue settings", () => {
+		it("should default every cue to on at full volume", () => {
+			for (const cue of CUES) {
+				expect(getCueSettings()[cue]).toEqual({ enabled: true, volume: 1, clipId: null });
+			}
+		});
+
+		it("should persist changes to one cue only", () => {
+			setCueSettings("halfway", { enabled: false });
+			setCueSettings("halfway", { volume: 0.4 });
+
+			expect(getCueSettings().halfway).toEqual({ enabled: false, volume: 0.4, clipId: null });
+			expect(getCueSettings().start).toEqual({ enabled: true, volume: 1, clipId: null });
+		});
+	});
+
+	describe("scheduleCue", () => {
+		it("should schedule tones at their offsets", () => {
+			scheduleCue("start", 1000, pack("classic"));
+
+			expect(vi.mocked(audioService.scheduleTone).mock.calls).toEqual([
+				[{ type: "sine", frequency: 800, endFrequency: undefined, duration: 0.15, volume: 0.8 }, 1000, undefined],
+				[{ type: "sine", frequency: 1000, endFrequency: undefined, duration: 0.15, volume: 0.8 }, 1100, undefined],
+				[{ type: "sine", frequency: 1200, endFrequency: undefined, duration: 0.25, volume: 0.9 }, 1200, undefined],
+			]);
+		});
+
+		it("should repeat tones with the pack's gap", () => {
+			scheduleCue("start", 1000, pack("boxingBell"));
+
+			const times = vi.mocked(audioService.scheduleTone).mock.calls.map(([, at]) => at);
+			expect(times).toEqual([1000, 1250, 1500]);
+			expect(audioService.scheduleTone).toHaveBeenLastCalledWith(
+				expect.objectContaining({ frequency: 1320, endFrequency: 1290, type: "triangle" }),
+				1500,
+				undefined,
+			);
+		});
+
+		it("should schedule nothing for a silent cue", () => {
+			scheduleCue("halfway", 1000, pack("classic"));
+
+			expect(audioService.scheduleTone).not.toHaveBeenCalled();
+		});
+
+		it("should scale tones by the cue's volume", () => {
+			setCueSettings("countdown", { volume: 0.5 });
+
+			scheduleCue("countdown", 1000, pack("classic"));
+
+			expect(audioService.scheduleTone).toHaveBeenCalledWith(expect.objectContaining({ volume: 0.3 }), 1000, undefined);
+		});
+
+		it("should skip a muted cue", () => {
+			setCueSettings("countdown", { enabled: false });
+
+			scheduleCue("countdown", 1000, pack("classic"));
+
+			expect(audioService.scheduleTone).not.toHaveBeenCalled();
+		});
+
+		it("should play an assigned clip instead of the tones", () => {
+			setCueSettings("start", { clipId: "clip-go", volume: 0.5 });
+
+			scheduleCue("start", 1000, pack("classic"));
+
+			expect(audioService.scheduleClip).toHaveBeenCalledWith("clip-go", 1000, 0.5, undefined);
+			expect(audioService.scheduleTone).not.toHaveBeenCalled();
+		});
+
+		it("should fall back to the tones when the clip isn't loaded", () => {
+			setCueSettings("start", { clipId: "clip-deleted" });
+
+			scheduleCue("start", 1000, pack("classic"));
+
+			expect(audioService.scheduleClip).not.toHaveBeenCalled();
+			expect(audioService.scheduleTone).toHaveBeenCalledTimes(3);
+		});
+
+		it("should tag every sound with the owner", () => {
+			const owner = Symbol("cues");
+			setCueSettings("end", { clipId: "clip-go" });
+
+			scheduleCue("start", 1000, pack("classic"), owner);
+			scheduleCue("end", 2000, pack("classic"), owner);
+
+			expect(vi.mocked(audioService.scheduleTone).mock.calls.map((call) => call[2])).toEqual([owner, owner, owner]);
+			expect(audioService.scheduleClip).toHaveBeenCalledWith("clip-go", 2000, 1, owner);
+		});
+
+		it("should use the selected pack by default", () => {
+			setSelectedSoundPack("digital");
+
+			scheduleCue("countdown", 1000);
+
+			expect(audioService.scheduleTone).toHaveBeenCalledWith(
+				expect.objectContaining({ frequency: 1000, type: "square" }),
+				1000,
+				undefined,
+			);
+		});
+	});
+
+	describe("playCue", () => {
+		it("should schedule the cue for now", () => {
+			vi.spyOn(performance, "now").mockReturnValue(5000);
+
+			playCue("countdown", pack("classic"));
+
+			expect(audioService.scheduleTone).toHaveBeenCalledWith(expect.objectContaining({ frequency: 660 }), 5000, undefined);
+		});
+	});
+});
@@ -0,0 +1,295 @@
+/**
+ * Sound Packs - Synthesized Cue Recipes
+ *
+ * Every timer cue maps to a recipe: a short sequence of oscillator tones
+ * (type, frequency glide, length, volume), optionally repeated. Packs are
+ * plain data scheduled through audioService, so adding a pack means
+ * adding an entry to SOUND_PACKS - nothing in the timer changes.
+ *
+ * Each cue can also be muted or turned down on its own (e.g. keep the
+ * countdown but drop the halfway beep), or play a user clip instead
+ * (see clipLibrary); that applies across packs.
+ *
+ * @example
+ * setSelectedSoundPack("boxingBell");
+ * playCue("start"); // ding-ding-ding
+ * scheduleCue("countdown", performance.now() + 1000);
+ */
+
+import { audioService, type QueuedSound, type SoundOwner } from "./audioService";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CueName = "start" | "end" | "countdown" | "finish" | "halfway" | "lastTen" | "warning";
+
+/** One oscillator note */
+export interface ToneRecipe {
+	type: OscillatorType;
+	/** Hz */
+	frequency: number;
+	/** Hz to glide to over the tone (e.g. a whistle's rise) */
+	endFrequency?: number;
+	/** Seconds */
+	duration: number;
+	/** 0-1 */
+	volume: number;
+	/** Milliseconds after the cue (or repeat) starts */
+	offset: number;
+}
+
+export interface CueRecipe {
+	/** Empty for a silent cue */
+	tones: ToneRecipe[];
+	/** Times to play the tones (default 1) */
+	repeats?: number;
+	/** Milliseconds between repeat starts */
+	repeatGap?: number;
+}
+
+export interface SoundPack {
+	id: string;
+	name: string;
+	cues: Record<CueName, CueRecipe>;
+}
+
+/** User adjustments for one cue, whatever the pack */
+export interface CueSettings {
+	enabled: boolean;
+	/** 0-1, scales the recipe's tone volumes */
+	volume: number;
+	/** User clip to play instead of the pack's tones */
+	clipId: string | null;
+}
+
+// ============================================================================
+// Built-in Packs
+// ============================================================================
+
+const SILENT: CueRecipe = { tones: [] };
+
+function tone(
+	frequency: number,
+	duration: number,
+	{ type = "sine", volume = 0.7, offset = 0, endFrequency }: Partial<Omit<ToneRecipe, "frequency" | "duration">> = {},
+): ToneRecipe {
+	return { type, frequency, endFrequency, duration, volume, offset };
+}
+
+/** The original beeps */
+const classic: SoundPack = {
+	id: "classic",
+	name: "Classic",
+	cues: {
+		// "GO!" - ascending
+		start: {
+			tones: [
+				tone(800, 0.15, { volume: 0.8 }),
+				tone(1000, 0.15, { volume: 0.8, offset: 100 }),
+				tone(1200, 0.25, { volume: 0.9, offset: 200 }),
+			],
+		},
+		// Rest starting - descending double beep
+		end: { tones: [tone(800, 0.2), tone(600, 0.3, { offset: 200 })] },
+		countdown: { tones: [tone(660, 0.08, { volume: 0.6 })] },
+		// Victory fanfare: C E G high C
+		finish: {
+			tones: [
+				tone(523, 0.2, { volume: 0.8 }),
+				tone(659, 0.2, { volume: 0.8, offset: 150 }),
+				tone(784, 0.2, { volume: 0.8, offset: 300 }),
+				tone(1047, 0.4, { volume: 0.9, offset: 450 }),
+			],
+		},
+		halfway: SILENT,
+		lastTen: SILENT,
+		// Time cap approaching - two quick high beeps
+		warning: { tones: [tone(1400, 0.1, { type: "square", volume: 0.6 })], repeats: 2, repeatGap: 150 },
+	},
+};
+
+/** Ring bell dings with a long decay; wooden clapper for the last 10 seconds */
+const bell = (duration: number) => tone(1320, duration, { type: "triangle", volume: 0.9, endFrequency: 1290 });
+
+const boxingBell: SoundPack = {
+	id: "boxingBell",
+	name: "Boxing Bell",
+	cues: {
+		start: { tones: [bell(0.6)], repeats: 3, repeatGap: 250 },
+		end: { tones: [bell(1.2)] },
+		countdown: { tones: [tone(1320, 0.05, { type: "triangle", volume: 0.5 })] },
+		finish: { tones: [bell(0.8)], repeats: 5, repeatGap: 300 },
+		halfway: { tones: [bell(0.4)], repeats: 2, repeatGap: 250 },
+		lastTen: { tones: [tone(220, 0.05, { type: "square", volume: 0.6 })], repeats: 3, repeatGap: 120 },
+		warning: { tones: [bell(0.4)], repeats: 2, repeatGap: 200 },
+	},
+};
+
+/** Referee whistle blows - rising glides */
+const blow = (duration: number) => tone(2600, duration, { volume: 0.6, endFrequency: 2900 });
+
+const whistle: SoundPack = {
+	id: "whistle",
+	name: "Whistle",
+	cues: {
+		start: { tones: [blow(0.5)] },
+		end: { tones: [blow(0.15)], repeats: 2, repeatGap: 200 },
+		countdown: { tones: [tone(2600, 0.06, { volume: 0.4 })] },
+		finish: { tones: [blow(0.4)], repeats: 3, repeatGap: 500 },
+		halfway: { tones: [blow(0.12)] },
+		lastTen: { tones: [blow(0.08)], repeats: 2, repeatGap: 120 },
+		warning: { tones: [blow(0.1)], repeats: 3, repeatGap: 150 },
+	},
+};
+
+/** Square-wave watch beeps */
+const digital: SoundPack = {
+	id: "digital",
+	name: "Digital",
+	cues: {
+		start: {
+			tones: [
+				tone(1000, 0.1, { type: "square", volume: 0.5 }),
+				tone(1500, 0.2, { type: "square", volume: 0.5, offset: 120 }),
+			],
+		},
+		end: { tones: [tone(600, 0.15, { type: "square", volume: 0.5 })], repeats: 2, repeatGap: 200 },
+		countdown: { tones: [tone(1000, 0.05, { type: "square", volume: 0.4 })] },
+		finish: { tones: [tone(1200, 0.1, { type: "square", volume: 0.5 })], repeats: 4, repeatGap: 150 },
+		halfway: { tones: [tone(1500, 0.08, { type: "square", volume: 0.4 })] },
+		lastTen: { tones: [tone(1500, 0.08, { type: "square", volume: 0.4 })], repeats: 2, repeatGap: 100 },
+		warning: { tones: [tone(2000, 0.08, { type: "square", volume: 0.5 })], repeats: 3, repeatGap: 120 },
+	},
+};
+
+/** Quiet, low sine glides for shared spaces */
+const soft: SoundPack = {
+	id: "soft",
+	name: "Soft",
+	cues: {
+		start: { tones: [tone(440, 0.4, { volume: 0.4, endFrequency: 660 })] },
+		end: { tones: [tone(660, 0.4, { volume: 0.4, endFrequency: 440 })] },
+		countdown: { tones: [tone(520, 0.08, { volume: 0.3 })] },
+		finish: {
+			tones: [
+				tone(392, 0.25, { volume: 0.4 }),
+				tone(494, 0.25, { volume: 0.4, offset: 200 }),
+				tone(587, 0.25, { volume: 0.4, offset: 400 }),
+				tone(784, 0.5, { volume: 0.4, offset: 600 }),
+			],
+		},
+		halfway: { tones: [tone(587, 0.2, { volume: 0.35 })] },
+		lastTen: { tones: [tone(494, 0.15, { volume: 0.35 })], repeats: 2, repeatGap: 200 },
+		warning: { tones: [tone(880, 0.1, { volume: 0.4 })], repeats: 2, repeatGap: 180 },
+	},
+};
+
+export const SOUND_PACKS: SoundPack[] = [classic, boxingBell, whistle, digital, soft];
+
+/** Cue names in display order, with labels for settings */
+export const CUE_LABELS: Record<CueName, string> = {
+	start: "Start",
+	end: "End",
+	countdown: "Countdown",
+	finish: "Finish",
+	halfway: "Halfway",
+	lastTen: "Last 10s",
+	warning: "Time cap warning",
+};
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+const SELECTED_PACK_STORAGE_KEY = "igor-timer:sound-pack";
+
+export function getSelectedSoundPack(): SoundPack {
+	const id = localStorage.getItem(SELECTED_PACK_STORAGE_KEY);
+	return SOUND_PACKS.find((pack) => pack.id === id) ?? classic;
+}
+
+export function setSelectedSoundPack(id: string): void {
+	localStorage.setItem(SELECTED_PACK_STORAGE_KEY, id);
+}
+
+// ============================================================================
+// Per-Cue Settings
+// ============================================================================
+
+const CUE_SETTINGS_STORAGE_KEY = "igor-timer:cue-settings";
+
+const DEFAULT_CUE_SETTINGS: CueSettings = { enabled: true, volume: 1, clipId: null };
+
+export function getCueSettings(): Record<CueName, CueSettings> {
+	let stored: Partial<Record<CueName, Partial<CueSettings>>> = {};
+	try {
+		stored = JSON.parse(localStorage.getItem(CUE_SETTINGS_STORAGE_KEY) ?? "{}");
+	} catch {
+		// Corrupt settings - fall back to defaults
+	}
+
+	const settings = {} as Record<CueName, CueSettings>;
+	for (const cue of Object.keys(CUE_LABELS) as CueName[]) {
+		settings[cue] = { ...DEFAULT_CUE_SETTINGS, ...stored[cue] };
+	}
+	return settings;
+}
+
+export function setCueSettings(cue: CueName, changes: Partial<CueSettings>): void {
+	const settings = getCueSettings();
+	settings[cue] = { ...settings[cue], ...changes };
+	localStorage.setItem(CUE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// ============================================================================
+// Playback
+// ============================================================================
+
+/**
+ * The sounds a cue makes, starting at `at` milliseconds, from a pack (the
+ * selected one by default), honouring its cue settings: an assigned clip,
+ * unless it isn't loaded (yet) - then the pack's tones, repeats and offsets.
+ */
+export function getCueSounds(cue: CueName, at: number, pack: SoundPack = getSelectedSoundPack()): QueuedSound[] {
+	const { enabled, volume: cueVolume, clipId } = getCueSettings()[cue];
+	if (!enabled || cueVolume <= 0) return [];
+
+	if (clipId && audioService.hasClip(clipId)) {
+		return [{ kind: "clip", at, id: clipId, volume: cueVolume }];
+	}
+
+	const { tones, repeats = 1, repeatGap = 0 } = pack.cues[cue];
+	const sounds: QueuedSound[] = [];
+	for (let repeat = 0; repeat < repeats; repeat++) {
+		for (const { offset, volume, ...tone } of tones) {
+			sounds.push({ kind: "tone", at: at + repeat * repeatGap + offset, tone: { ...tone, volume: volume * cueVolume } });
+		}
+	}
+	return sounds;
+}
+
+/**
+ * Queue a cue to start at `at` (performance.now() milliseconds); every
+ * sound goes on the AudioContext clock. Pass an `owner` to be able to
+ * cancel it.
+ */
+export function scheduleCue(
+	cue: CueName,
+	at: number,
+	pack: SoundPack = getSelectedSoundPack(),
+	owner?: SoundOwner,
+): void {
+	for (const sound of getCueSounds(cue, at, pack)) {
+		if (sound.kind === "clip") {
+			audioService.scheduleClip(sound.id, sound.at, sound.volume, owner);
+		} else {
+			audioService.scheduleTone(sound.tone, sound.at, owner);
+		}
+	}
+}
+
+/** Play a cue now */
+export function playCue(cue: CueName, pack: SoundPack = getSelectedSoundPack()): void {
+	scheduleCue(cue, performance.now(), pack);
+}
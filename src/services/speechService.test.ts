@@ -0,0 +1,108 @@
+/**
+ * SpeechService Tests
+ *
+ * speechSynthesis and SpeechSynthesisUtterance are stubbed; jsdom has neither.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const recordStateChange = vi.fn();
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange } }));
+
+class MockUtterance {
+	voice: unknown = null;
+	lang = "";
+	rate = 1;
+	constructor(public text: string) {}
+}
+
+const voices = [
+	{ voiceURI: "en-GB-1", name: "Daniel", lang: "en-GB" },
+	{ voiceURI: "en-US-1", name: "Samantha", lang: "en-US" },
+];
+
+const mockSpeechSynthesis = {
+	speak: vi.fn(),
+	cancel: vi.fn(),
+	getVoices: vi.fn(() => voices),
+	addEventListener: vi.fn(),
+	removeEventListener: vi.fn(),
+};
+
+describe("SpeechService", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubGlobal("speechSynthesis", mockSpeechSynthesis);
+		vi.stubGlobal("SpeechSynthesisUtterance", MockUtterance);
+		localStorage.clear();
+		vi.clearAllMocks();
+		vi.resetModules();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	const spokenTexts = () => mockSpeechSynthesis.speak.mock.calls.map(([u]) => (u as MockUtterance).text);
+
+	it("should stay silent until enabled", async () => {
+		const { speechService } = await import("./speechService");
+
+		speechService.speak("Rest");
+
+		expect(mockSpeechSynthesis.speak).not.toHaveBeenCalled();
+	});
+
+	it("should speak with the chosen voice and rate, and log it", async () => {
+		const { speechService } = await import("./speechService");
+		speechService.setSettings({ enabled: true, voiceURI: "en-US-1", rate: 1.5 });
+
+		speechService.speak("Round 3 of 6");
+
+		const utterance = mockSpeechSynthesis.speak.mock.calls[0][0] as MockUtterance;
+		expect(utterance.text).toBe("Round 3 of 6");
+		expect(utterance.voice).toBe(voices[1]);
+		expect(utterance.rate).toBe(1.5);
+		expect(recordStateChange).toHaveBeenCalledWith(
+			expect.objectContaining({
+				type: "speech:spoken",
+				details: { text: "Round 3 of 6", voice: "Samantha", rate: 1.5 },
+			}),
+		);
+	});
+
+	it("should persist settings across reloads", async () => {
+		const first = await import("./speechService");
+		first.speechService.setSettings({ enabled: true, rate: 0.8 });
+
+		vi.resetModules();
+		const { speechService } = await import("./speechService");
+
+		expect(speechService.getSettings()).toEqual({ enabled: true, voiceURI: null, rate: 0.8 });
+	});
+
+	it("should delay speech and drop it when cancelled", async () => {
+		const { speechService } = await import("./speechService");
+		speechService.setSettings({ enabled: true });
+
+		speechService.speak("Rest", { delayMs: 500 });
+		speechService.speak("Halfway", { delayMs: 500 });
+		vi.advanceTimersByTime(499);
+		expect(mockSpeechSynthesis.speak).not.toHaveBeenCalled();
+
+		speechService.cancel();
+		vi.advanceTimersByTime(1000);
+
+		expect(mockSpeechSynthesis.speak).not.toHaveBeenCalled();
+		expect(mockSpeechSynthesis.cancel).toHaveBeenCalled();
+	});
+
+	it("should allow previews while disabled", async () => {
+		const { speechService } = await import("./speechService");
+
+		speechService.speak("Round 3 of 6", { force: true });
+
+		expect(spokenTexts()).toEqual(["Round 3 of 6"]);
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * SpeechService - Spoken Cues via Web Speech Synthesis
+ *
+ * Beeps are easy to confuse with the phone across the room; when enabled,
+ * cues are also spoken ("Round 3 of 6", "Rest", "3", "2", "1", ...).
+ * Voice and rate are user settings, persisted to localStorage.
+ *
+ * Each utterance is recorded to the session like the audio:* events.
+ *
+ * @example
+ * speechService.setSettings({ enabled: true, rate: 1.2 });
+ * speechService.speak("Halfway");
+ *
+ * // Let a beep finish before talking over it
+ * speechService.speak("Rest", { delayMs: 500 });
+ */
+
+import { sessionRecorder } from "./pwaDebugServices";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SpeechSettings {
+	enabled: boolean;
+	/** SpeechSynthesisVoice.voiceURI; null for the system default */
+	voiceURI: string | null;
+	/** 0.5 (slow) to 2 (fast); 1 is normal */
+	rate: number;
+}
+
+export interface SpeakOptions {
+	/** Wait before speaking, e.g. for a beep to finish */
+	delayMs?: number;
+	/** Ignore the enabled setting (previews from settings) */
+	force?: boolean;
+}
+
+/** Events recorded to session for debugging speech issues */
+type SpeechEventType = "speech:spoken" | "speech:error";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SETTINGS_STORAGE_KEY = "igor-timer:speech";
+
+const DEFAULT_SETTINGS: SpeechSettings = {
+	enabled: false,
+	voiceURI: null,
+	rate: 1,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: SpeechEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+function loadSettings(): SpeechSettings {
+	try {
+		const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+		return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+	} catch {
+		return DEFAULT_SETTINGS;
+	}
+}
+
+// ============================================================================
+// SpeechService Class
+// ============================================================================
+
+class SpeechService {
+	private settings: SpeechSettings = loadSettings();
+
+	/** Delayed utterances not yet spoken, so cancel() can drop them */
+	private pending = new Set<ReturnType<typeof setTimeout>>();
+
+	isSupported(): boolean {
+		return typeof speechSynthesis !== "undefined" && typeof SpeechSynthesisUtterance !== "undefined";
+	}
+
+	getSettings(): SpeechSettings {
+		return this.settings;
+	}
+
+	setSettings(changes: Partial<SpeechSettings>): void {
+		this.settings = { ...this.settings, ...changes };
+		localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+	}
+
+	/** Installed voices; may be empty until the browser fires voiceschanged */
+	getVoices(): SpeechSynthesisVoice[] {
+		return this.isSupported() ? speechSynthesis.getVoices() : [];
+	}
+
+	/** Subscribe to the voice list loading/changing; returns unsubscribe */
+	onVoicesChanged(callback: () => void): () => void {
+		if (!this.isSupported()) return () => {};
+		speechSynthesis.addEventListener("voiceschanged", callback);
+		return () => speechSynthesis.removeEventListener("voiceschanged", callback);
+	}
+
+	speak(text: string, { delayMs = 0, force = false }: SpeakOptions = {}): void {
+		if (!this.isSupported() || (!this.settings.enabled && !force)) return;
+
+		if (delayMs <= 0) {
+			this.doSpeak(text);
+			return;
+		}
+		const timeout = setTimeout(() => {
+			this.pending.delete(timeout);
+			this.doSpeak(text);
+		}, delayMs);
+		this.pending.add(timeout);
+	}
+
+	/** Stop talking and drop anything queued (e.g. on pause or reset) */
+	cancel(): void {
+		this.pending.forEach((timeout) => clearTimeout(timeout));
+		this.pending.clear();
+		if (this.isSupported()) {
+			speechSynthesis.cancel();
+		}
+	}
+
+	private doSpeak(text: string): void {
+		const { voiceURI, rate } = this.settings;
+		try {
+			const utterance = new SpeechSynthesisUtterance(text);
+			const voice = voiceURI ? this.getVoices().find((v) => v.voiceURI === voiceURI) : undefined;
+			if (voice) {
+				utterance.voice = voice;
+				utterance.lang = voice.lang;
+			}
+			utterance.rate = rate;
+			speechSynthesis.speak(utterance);
+			recordEvent("speech:spoken", { text, voice: voice?.name ?? "default", rate });
+		} catch (error) {
+			recordEvent("speech:error", { text, error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+}
+
+// Export singleton
+export const speechService = new SpeechService();
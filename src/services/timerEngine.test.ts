@@ -0,0 +1,294 @@
+import { describe, expect, it } from "vitest";
+import { TimerEngine, type TimerClock, type TimerEventMap, type TimerProfile } from "./timerEngine";
+
+const profile: TimerProfile = {
+	name: "Test",
+	workTime: 3,
+	restTime: 2,
+	rounds: 2,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 2,
+};
+
+/** Clock driven by hand: `advance` moves time and fires due intervals */
+function createManualClock() {
+	let time = 0;
+	let nextId = 1;
+	const intervals = new Map<number, { callback: () => void; ms: number; due: number }>();
+
+	const clock: TimerClock = {
+		now: () => time,
+		setInterval: (callback, ms) => {
+			intervals.set(nextId, { callback, ms, due: time + ms });
+			return nextId++;
+		},
+		clearInterval: (id) => {
+			intervals.delete(id);
+		},
+	};
+
+	const advance = (ms: number) => {
+		const end = time + ms;
+		for (;;) {
+			const next = [...intervals.values()].sort((a, b) => a.due - b.due)[0];
+			if (!next || next.due > end) break;
+			time = Math.max(time, next.due);
+			next.due += next.ms;
+			next.callback();
+		}
+		time = end;
+	};
+
+	/** Jump ahead without firing intervals (a stalled tab) */
+	const stall = (ms: number) => {
+		time += ms;
+	};
+
+	return { clock, advance, stall };
+}
+
+function record<K extends keyof TimerEventMap>(engine: TimerEngine, type: K): TimerEventMap[K][] {
+	const events: TimerEventMap[K][] = [];
+	engine.on(type, (event) => events.push(event));
+	return events;
+}
+
+describe("TimerEngine", () => {
+	it("should start idle with totals from the program", () => {
+		const engine = new TimerEngine(profile, createManualClock().clock);
+
+		expect(engine.snapshot.phase).toBe("idle");
+		expect(engine.snapshot.totalRounds).toBe(2);
+		expect(engine.totalDuration).toBe(10);
+	});
+
+	it("should run through the program on its clock", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+
+		engine.start();
+		expect(engine.snapshot.phase).toBe("prep");
+
+		advance(2000);
+		expect(engine.snapshot.phase).toBe("work");
+		expect(engine.snapshot.timeLeft).toBe(3);
+
+		advance(8000);
+		expect(engine.snapshot.phase).toBe("done");
+		expect(engine.snapshot.isRunning).toBe(false);
+		expect(engine.snapshot.totalElapsed).toBe(10);
+	});
+
+	it("should emit phase changes with their reason", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+		const phases = record(engine, "phaseChange");
+
+		engine.start();
+		advance(5000);
+		engine.skipPhase();
+
+		expect(phases.map((e) => [e.segment.type, e.reason])).toEqual([
+			["prep", "start"],
+			["work", "tick"],
+			["rest", "tick"],
+			["work", "skip"],
+		]);
+	});
+
+	it("should emit countdown seconds within a phase", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine({ ...profile, prepTime: 5 }, clock);
+		const countdown = record(engine, "countdown");
+
+		engine.start();
+		advance(4000);
+
+		expect(countdown.map((e) => e.secondsLeft)).toEqual([3, 2, 1]);
+	});
+
+	it("should emit halfway and last-ten milestones in long phases only", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine({ ...profile, workTime: 30, restTime: 10 }, clock);
+		const milestones = record(engine, "milestone");
+
+		engine.start();
+		advance(2000 + 30_000 + 10_000);
+
+		// Work (30s) gets both; the 10s rest is too short for either
+		expect(milestones.map((e) => [e.kind, e.state.timeLeft])).toEqual([
+			["halfway", 15],
+			["lastTen", 10],
+		]);
+	});
+
+	describe("getUpcomingCues", () => {
+		it("should be empty unless running", () => {
+			const engine = new TimerEngine(profile, createManualClock().clock);
+
+			expect(engine.getUpcomingCues()).toEqual([]);
+		});
+
+		it("should time the rest of the phase's cues from now", () => {
+			const { clock, advance } = createManualClock();
+			const engine = new TimerEngine({ ...profile, workTime: 20 }, clock);
+
+			engine.start();
+			advance(2000 + 9500);
+
+			// 9.5s into 20s of work; halfway and 10s left coincide, and 10s left wins
+			expect(engine.getUpcomingCues()).toEqual([
+				{ type: "milestone", kind: "lastTen", inMs: 500 },
+				{ type: "countdown", secondsLeft: 3, inMs: 7500 },
+				{ type: "countdown", secondsLeft: 2, inMs: 8500 },
+				{ type: "countdown", secondsLeft: 1, inMs: 9500 },
+				{ type: "phaseEnd", next: engine.segments[2], inMs: 10_500 },
+			]);
+		});
+
+		it("should report the end of the last phase with nothing next", () => {
+			const { clock, advance } = createManualClock();
+			const engine = new TimerEngine(profile, clock);
+
+			engine.start();
+			advance(9000);
+
+			expect(engine.getUpcomingCues()).toEqual([{ type: "phaseEnd", next: null, inMs: 1000 }]);
+		});
+
+		it("should follow added time", () => {
+			const { clock } = createManualClock();
+			const engine = new TimerEngine(profile, clock);
+
+			engine.start();
+			engine.addTime(10);
+
+			const cues = engine.getUpcomingCues();
+			expect(cues[cues.length - 1]).toMatchObject({ type: "phaseEnd", inMs: 12_000 });
+		});
+	});
+
+	it("should emit round changes and finish once", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+		const rounds = record(engine, "roundChange");
+		const finished = record(engine, "finished");
+
+		engine.start();
+		advance(20_000);
+
+		expect(rounds.map((e) => e.round)).toEqual([2]);
+		expect(finished).toHaveLength(1);
+		expect(finished[0].reason).toBe("tick");
+	});
+
+	it("should report only the landing phase after a stall", () => {
+		const { clock, advance, stall } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+		const phases = record(engine, "phaseChange");
+
+		engine.start();
+		stall(7500);
+		advance(250);
+
+		expect(engine.snapshot.currentRound).toBe(2);
+		expect(phases.map((e) => e.segment.type)).toEqual(["prep", "work"]);
+	});
+
+	it("should not count paused time", () => {
+		const { clock, advance, stall } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+
+		engine.start();
+		advance(1000);
+		engine.pause();
+		stall(60_000);
+		engine.start();
+		advance(1000);
+
+		expect(engine.snapshot.totalElapsed).toBe(2);
+		expect(engine.snapshot.phase).toBe("work");
+	});
+
+	it("should keep the running program when the program changes mid-workout", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+
+		engine.start();
+		engine.setProgram({ ...profile, rounds: 5 });
+		advance(1000);
+
+		expect(engine.snapshot.totalRounds).toBe(2);
+
+		engine.reset();
+		expect(engine.snapshot.totalRounds).toBe(5);
+	});
+
+	it("should notify subscribers of every state change until unsubscribed", () => {
+		const { clock, advance } = createManualClock();
+		const engine = new TimerEngine(profile, clock);
+		const changes = record(engine, "change");
+		const unsubscribe = engine.on("change", () => {
+			throw new Error("should be unsubscribed");
+		});
+		unsubscribe();
+
+		engine.start();
+		advance(1000);
+		engine.pause();
+
+		expect(changes.map((s) => s.totalElapsed)).toEqual([0, 1, 1]);
+		expect(changes[changes.length - 1].isPaused).toBe(true);
+	});
+
+	describe("sessions", () => {
+		it("should have no session when idle", () => {
+			const engine = new TimerEngine(profile, createManualClock().clock);
+
+			expect(engine.getSession()).toBeNull();
+		});
+
+		it("should fast-forward a running session restored on a new clock", () => {
+			const first = createManualClock();
+			const engine = new TimerEngine(profile, first.clock);
+			engine.start();
+			first.advance(1000);
+			const session = engine.getSession()!;
+
+			// New page load: the clock restarted, and 5s passed while away
+			const second = createManualClock();
+			second.stall(500);
+			const restored = new TimerEngine(profile, second.clock);
+			restored.restore({ ...session, startTime: second.clock.now() - 6000 });
+
+			expect(restored.snapshot.isRunning).toBe(true);
+			expect(restored.snapshot.phase).toBe("rest");
+			expect(restored.snapshot.totalElapsed).toBe(6);
+
+			second.advance(4000);
+			expect(restored.snapshot.phase).toBe("done");
+		});
+
+		it("should restore a paused session without advancing", () => {
+			const first = createManualClock();
+			const engine = new TimerEngine(profile, first.clock);
+			engine.start();
+			first.advance(3000);
+			engine.pause();
+			const session = engine.getSession()!;
+
+			const second = createManualClock();
+			second.stall(60_000);
+			const restored = new TimerEngine(profile, second.clock);
+			restored.restore({ ...session, startTime: session.startTime + 60_000, pausedAt: session.pausedAt! + 60_000 });
+
+			expect(restored.snapshot.isPaused).toBe(true);
+			expect(restored.snapshot.totalElapsed).toBe(3);
+
+			restored.start();
+			second.advance(1000);
+			expect(restored.snapshot.totalElapsed).toBe(4);
+		});
+	});
+});
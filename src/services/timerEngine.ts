@@ -0,0 +1,564 @@
+/**
+ * TimerEngine - Headless Interval Timer
+ *
+ * Runs a workout program against a clock with no React, DOM or audio
+ * dependencies. Consumers read `snapshot` and subscribe to typed events;
+ * cues (audio, debug logging, ...) are just listeners.
+ *
+ * Time is derived from the clock on every tick rather than accumulated, so
+ * late or skipped callbacks (throttled background tabs, GC pauses) can't
+ * make the workout run long.
+ *
+ * @example
+ * const engine = new TimerEngine(profile);
+ * engine.on("phaseChange", ({ segment }) => console.log(getSegmentLabel(segment)));
+ * engine.on("finished", () => console.log("done"));
+ * engine.start();
+ */
+
+import {
+	flattenProgram,
+	getProfileProgram,
+	type PlannedSegment,
+	type Exercise,
+	type Metronome,
+	type ProgramItem,
+	programDuration,
+	type RoundProgression,
+	resolvePosition,
+	segmentStartTime,
+	type SegmentType,
+} from "./workoutProgram";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Phase = "idle" | SegmentType | "done";
+
+export interface TimerProfile {
+	name: string;
+	workTime: number;
+	restTime: number;
+	rounds: number;
+	cycles: number;
+	/** Rest between cycles, in place of the normal rest after a cycle's last round */
+	cycleRestTime: number;
+	prepTime: number;
+	/** How work/rest vary by round; constant when unset */
+	progression?: RoundProgression;
+	/** Exercise for each round (by position; the same in every cycle) */
+	exercises?: Exercise[];
+	/** Custom segment program; when set it replaces the work/rest/rounds generator */
+	program?: ProgramItem[];
+	/** Cadence ticks during work phases */
+	metronome?: Metronome;
+}
+
+export interface TimerState {
+	isRunning: boolean;
+	isPaused: boolean;
+	phase: Phase;
+	timeLeft: number;
+	/** Index into the engine's `segments`; -1 when idle, segments.length when done */
+	segmentIndex: number;
+	currentRound: number;
+	totalRounds: number;
+	currentCycle: number;
+	totalCycles: number;
+	totalElapsed: number;
+}
+
+/** Time source and scheduler; injectable so the engine runs anywhere (and in tests) */
+export interface TimerClock {
+	/** Monotonic milliseconds */
+	now(): number;
+	setInterval(callback: () => void, ms: number): number;
+	clearInterval(id: number): void;
+}
+
+/** A workout in progress: what's running and its timing, in clock milliseconds */
+export interface TimerSession {
+	segments: PlannedSegment[];
+	state: TimerState;
+	startTime: number;
+	pausedMs: number;
+	/** When the current pause began; null while running */
+	pausedAt: number | null;
+}
+
+/** Why the phase changed */
+export type PhaseChangeReason = "start" | "tick" | "skip" | "previous";
+
+export type MilestoneKind = "halfway" | "lastTen";
+
+/** A cue still to come in the current phase, `inMs` from now */
+export type UpcomingCue =
+	| { type: "countdown"; secondsLeft: number; inMs: number }
+	| { type: "milestone"; kind: MilestoneKind; inMs: number }
+	/** The phase ending; `next` is null when it's the last one */
+	| { type: "phaseEnd"; next: PlannedSegment | null; inMs: number };
+
+export interface TimerEventMap {
+	/** Any state change - the new snapshot */
+	change: TimerState;
+	phaseChange: { segment: PlannedSegment; segmentIndex: number; reason: PhaseChangeReason; state: TimerState };
+	/** Each of the final seconds of a phase */
+	countdown: { secondsLeft: number; state: TimerState };
+	/** Halfway through a work phase, or 10 seconds left, in phases long enough to care */
+	milestone: { kind: MilestoneKind; state: TimerState };
+	roundChange: { round: number; cycle: number; state: TimerState };
+	/** Ran out on the clock ("tick") or skipped past the last phase ("skip") */
+	finished: { reason: PhaseChangeReason; state: TimerState };
+	/** Manual skip / previous / add-time */
+	adjust: { type: "skip" | "previous" | "addTime"; details: Record<string, unknown> };
+}
+
+export type TimerEventType = keyof TimerEventMap;
+
+type Listener<K extends TimerEventType> = (event: TimerEventMap[K]) => void;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How often the clock is sampled. Well under a second so a late interval
+ * callback never shows a stale second; state only updates when the whole
+ * elapsed second actually changes.
+ */
+const TICK_INTERVAL_MS = 250;
+
+/** Countdown events fire for the last this-many seconds of a phase */
+const COUNTDOWN_SECONDS = 3;
+
+/** Phases shorter than this get no halfway / last-10-seconds milestones */
+const MIN_MILESTONE_DURATION = 20;
+const LAST_TEN_SECONDS = 10;
+
+/**
+ * Going back within this many seconds of a phase starting goes to the
+ * previous phase; any later restarts the current one (like a music player).
+ */
+const PREVIOUS_PHASE_THRESHOLD = 3;
+
+const DEFAULT_STATE: TimerState = {
+	isRunning: false,
+	isPaused: false,
+	phase: "idle",
+	timeLeft: 0,
+	segmentIndex: -1,
+	currentRound: 1,
+	totalRounds: 6,
+	currentCycle: 1,
+	totalCycles: 1,
+	totalElapsed: 0,
+};
+
+/** Browser clock: performance.now() is unaffected by system clock changes */
+export const systemClock: TimerClock = {
+	now: () => performance.now(),
+	setInterval: (callback, ms) => window.setInterval(callback, ms),
+	clearInterval: (id) => window.clearInterval(id),
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Idle state for a program: round/cycle totals come from its first cycle */
+export function getIdleState(segments: PlannedSegment[]): TimerState {
+	return {
+		...DEFAULT_STATE,
+		totalRounds: segments[0]?.totalRounds ?? 0,
+		totalCycles: segments[0]?.totalCycles ?? 1,
+	};
+}
+
+/** Which milestone (if any) a phase reaches at `timeLeft` */
+function getMilestone(segment: PlannedSegment, timeLeft: number): MilestoneKind | null {
+	if (segment.duration < MIN_MILESTONE_DURATION) return null;
+	// 10 seconds left takes precedence when it's also halfway (20s phases)
+	if (timeLeft === LAST_TEN_SECONDS) return "lastTen";
+	if (segment.type === "work" && timeLeft === Math.ceil(segment.duration / 2)) return "halfway";
+	return null;
+}
+
+/** A phase's countdown, milestones and end, `inMs` from the start of the workout */
+function getSegmentCues(segments: PlannedSegment[], index: number): UpcomingCue[] {
+	const segment = segments[index];
+	const endMs = (segmentStartTime(segments, index) + segment.duration) * 1000;
+	/** When `timeLeft` first shows `seconds` */
+	const at = (seconds: number) => endMs - seconds * 1000;
+
+	const cues: UpcomingCue[] = [];
+	for (let timeLeft = segment.duration - 1; timeLeft > 0; timeLeft--) {
+		const milestone = getMilestone(segment, timeLeft);
+		if (timeLeft <= COUNTDOWN_SECONDS) {
+			cues.push({ type: "countdown", secondsLeft: timeLeft, inMs: at(timeLeft) });
+		} else if (milestone) {
+			cues.push({ type: "milestone", kind: milestone, inMs: at(timeLeft) });
+		}
+	}
+	cues.push({ type: "phaseEnd", next: segments[index + 1] ?? null, inMs: at(0) });
+	return cues;
+}
+
+/**
+ * Every cue of a whole workout run straight through, `inMs` from its start
+ * (the "start" cue itself isn't included) - the timeline for rendering it
+ * to a file.
+ */
+export function getWorkoutCues(program: TimerProfile | PlannedSegment[]): UpcomingCue[] {
+	const segments = toSegments(program);
+	return segments.flatMap((_, index) => getSegmentCues(segments, index));
+}
+
+function toSegments(program: TimerProfile | PlannedSegment[]): PlannedSegment[] {
+	return Array.isArray(program) ? program : flattenProgram(getProfileProgram(program));
+}
+
+// ============================================================================
+// TimerEngine Class
+// ============================================================================
+
+export class TimerEngine {
+	private readonly clock: TimerClock;
+	/** What a fresh start would run */
+	private plannedSegments: PlannedSegment[];
+	/** What's running - a snapshot taken at start, adjusted by addTime */
+	private runningSegments: PlannedSegment[];
+	private state: TimerState;
+	private readonly listeners: { [K in TimerEventType]: Set<Listener<K>> } = {
+		change: new Set(),
+		phaseChange: new Set(),
+		countdown: new Set(),
+		milestone: new Set(),
+		roundChange: new Set(),
+		finished: new Set(),
+		adjust: new Set(),
+	};
+	private intervalId: number | null = null;
+
+	// Wall-clock accounting: elapsed = now - startTime - pausedMs (- current pause)
+	private startTime = 0;
+	private pausedMs = 0;
+	private pausedAt: number | null = null;
+
+	constructor(program: TimerProfile | PlannedSegment[], clock: TimerClock = systemClock) {
+		this.clock = clock;
+		this.plannedSegments = toSegments(program);
+		this.runningSegments = this.plannedSegments;
+		this.state = getIdleState(this.plannedSegments);
+	}
+
+	// ==========================================================================
+	// Public API
+	// ==========================================================================
+
+	/** Current state; a new object after every change, so it's safe to compare by reference */
+	get snapshot(): TimerState {
+		return this.state;
+	}
+
+	/** The segments being run (or that a fresh start would run) */
+	get segments(): PlannedSegment[] {
+		return this.state.phase === "idle" ? this.plannedSegments : this.runningSegments;
+	}
+
+	/** Total running time of `segments`, in seconds */
+	get totalDuration(): number {
+		return programDuration(this.segments);
+	}
+
+	/**
+	 * Replace the program for the next fresh start. A workout in progress
+	 * keeps the program it started with.
+	 */
+	setProgram(program: TimerProfile | PlannedSegment[]): void {
+		this.plannedSegments = toSegments(program);
+		if (this.state.phase !== "idle") return;
+
+		const idle = getIdleState(this.plannedSegments);
+		// Only notify when something visible changed
+		if (idle.totalRounds !== this.state.totalRounds || idle.totalCycles !== this.state.totalCycles) {
+			this.setState(idle);
+		}
+	}
+
+	/** Subscribe to an event; returns the unsubscribe function */
+	on<K extends TimerEventType>(type: K, listener: Listener<K>): () => void {
+		this.listeners[type].add(listener);
+		return () => {
+			this.listeners[type].delete(listener);
+		};
+	}
+
+	/** Start fresh, or resume if paused */
+	start(): void {
+		if (this.state.isRunning) return;
+
+		if (this.state.isPaused) {
+			// Resume - exclude the paused stretch from elapsed time
+			if (this.pausedAt !== null) {
+				this.pausedMs += this.clock.now() - this.pausedAt;
+				this.pausedAt = null;
+			}
+			this.setState({ ...this.state, isRunning: true, isPaused: false });
+		} else {
+			this.runningSegments = this.plannedSegments;
+			this.startTime = this.clock.now();
+			this.pausedMs = 0;
+			this.pausedAt = null;
+
+			const position = resolvePosition(this.runningSegments, 0);
+			const segment = position?.segment;
+			this.setState({
+				...getIdleState(this.runningSegments),
+				isRunning: true,
+				phase: segment?.type ?? "prep",
+				timeLeft: position?.timeLeft ?? 0,
+				segmentIndex: position?.segmentIndex ?? 0,
+			});
+			if (position) {
+				this.emit("phaseChange", {
+					segment: position.segment,
+					segmentIndex: position.segmentIndex,
+					reason: "start",
+					state: this.state,
+				});
+			}
+		}
+
+		this.startInterval();
+	}
+
+	pause(): void {
+		this.clearInterval();
+		if (this.state.isRunning) {
+			this.pausedAt = this.clock.now();
+		}
+		this.setState({ ...this.state, isRunning: false, isPaused: true });
+	}
+
+	toggle(): void {
+		if (this.state.isRunning) {
+			this.pause();
+		} else {
+			this.start();
+		}
+	}
+
+	reset(): void {
+		this.clearInterval();
+		this.pausedAt = null;
+		this.runningSegments = this.plannedSegments;
+		this.setState(getIdleState(this.plannedSegments));
+	}
+
+	/**
+	 * Sample the clock and catch up to it. Called on every interval; call it
+	 * directly to catch up immediately (e.g. when a hidden tab becomes visible).
+	 * After a long stall this may jump across several phases at once; only
+	 * the phase we land in is reported.
+	 */
+	tick(): void {
+		if (!this.state.isRunning) return;
+
+		const totalElapsed = Math.floor(this.getElapsedMs() / 1000);
+		if (totalElapsed === this.state.totalElapsed) return;
+
+		this.applyElapsed(totalElapsed, "tick");
+	}
+
+	/** Jump to the start of the next phase (finishes the workout from the last one) */
+	skipPhase(): void {
+		if (!this.isAdjustable()) return;
+		const { segmentIndex, phase } = this.state;
+		const target = segmentStartTime(this.runningSegments, segmentIndex + 1);
+
+		this.emit("adjust", { type: "skip", details: { fromIndex: segmentIndex, fromPhase: phase, toElapsed: target } });
+		this.seekTo(target);
+		this.applyElapsed(target, "skip");
+	}
+
+	/**
+	 * Restart the current phase, or go back to the previous one if the
+	 * current phase only just started.
+	 */
+	previousPhase(): void {
+		if (!this.isAdjustable()) return;
+		const { segmentIndex, phase } = this.state;
+		const currentStart = segmentStartTime(this.runningSegments, segmentIndex);
+		const intoPhase = Math.floor(this.getElapsedMs() / 1000) - currentStart;
+		const targetIndex = intoPhase < PREVIOUS_PHASE_THRESHOLD ? Math.max(segmentIndex - 1, 0) : segmentIndex;
+		const target = segmentStartTime(this.runningSegments, targetIndex);
+
+		this.emit("adjust", { type: "previous", details: { fromIndex: segmentIndex, fromPhase: phase, toIndex: targetIndex } });
+		this.seekTo(target);
+		this.applyElapsed(target, "previous");
+	}
+
+	/**
+	 * Lengthen (or, with a negative value, shorten) the current phase.
+	 * Shortening never ends the phase - at least one second is left.
+	 */
+	addTime(seconds: number): void {
+		if (!this.isAdjustable()) return;
+		const { segmentIndex, phase, timeLeft, totalElapsed } = this.state;
+		if (!this.runningSegments[segmentIndex]) return;
+
+		const delta = Math.max(seconds, 1 - timeLeft);
+		this.runningSegments = this.runningSegments.map((s, i) =>
+			i === segmentIndex ? { ...s, duration: s.duration + delta } : s,
+		);
+
+		this.emit("adjust", { type: "addTime", details: { index: segmentIndex, phase, seconds: delta } });
+		this.applyElapsed(totalElapsed, "tick");
+	}
+
+	/**
+	 * The current phase's remaining countdown, milestones and end, timed
+	 * from now - the same moments the events fire, known ahead of time so
+	 * sounds can be scheduled rather than played late from a tick. Empty
+	 * unless running.
+	 */
+	getUpcomingCues(): UpcomingCue[] {
+		const { isRunning, segmentIndex } = this.state;
+		const segment = this.runningSegments[segmentIndex];
+		if (!isRunning || !segment) return [];
+
+		const elapsedMs = this.getElapsedMs();
+		return getSegmentCues(this.runningSegments, segmentIndex)
+			.map((cue) => ({ ...cue, inMs: cue.inMs - elapsedMs }))
+			.filter((cue) => cue.inMs > 0);
+	}
+
+	/** The workout in progress, for persisting; null when idle or done */
+	getSession(): TimerSession | null {
+		if (!this.isAdjustable()) return null;
+		return {
+			segments: this.runningSegments,
+			state: this.state,
+			startTime: this.startTime,
+			pausedMs: this.pausedMs,
+			pausedAt: this.pausedAt,
+		};
+	}
+
+	/**
+	 * Continue a session from getSession(). A running session catches up to
+	 * the clock straight away, so time that passed meanwhile isn't lost.
+	 */
+	restore(session: TimerSession): void {
+		this.clearInterval();
+		this.runningSegments = session.segments;
+		this.startTime = session.startTime;
+		this.pausedMs = session.pausedMs;
+		this.pausedAt = session.state.isRunning ? null : (session.pausedAt ?? this.clock.now());
+		this.setState(session.state);
+
+		this.applyElapsed(Math.floor(this.getElapsedMs() / 1000), "tick");
+		if (this.state.isRunning) {
+			this.startInterval();
+		}
+	}
+
+	/** Stop the clock (e.g. on unmount) without changing state */
+	dispose(): void {
+		this.clearInterval();
+	}
+
+	// ==========================================================================
+	// Private Methods
+	// ==========================================================================
+
+	private emit<K extends TimerEventType>(type: K, event: TimerEventMap[K]): void {
+		this.listeners[type].forEach((listener) => listener(event));
+	}
+
+	private setState(state: TimerState): void {
+		this.state = state;
+		this.emit("change", state);
+	}
+
+	private startInterval(): void {
+		this.clearInterval();
+		this.intervalId = this.clock.setInterval(() => this.tick(), TICK_INTERVAL_MS);
+	}
+
+	private clearInterval(): void {
+		if (this.intervalId !== null) {
+			this.clock.clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+
+	/** Whether there's a workout in progress (running or paused) to adjust */
+	private isAdjustable(): boolean {
+		return this.state.isRunning || this.state.isPaused;
+	}
+
+	/** Elapsed workout time, frozen while paused */
+	private getElapsedMs(): number {
+		return (this.pausedAt ?? this.clock.now()) - this.startTime - this.pausedMs;
+	}
+
+	/** Move the clock so that `seconds` have elapsed (keeps pause accounting intact) */
+	private seekTo(seconds: number): void {
+		this.startTime = (this.pausedAt ?? this.clock.now()) - this.pausedMs - seconds * 1000;
+	}
+
+	/**
+	 * Derive state from elapsed seconds and emit what changed. Manual jumps
+	 * report a phase change even when landing back in the same phase.
+	 */
+	private applyElapsed(totalElapsed: number, reason: PhaseChangeReason): void {
+		const previous = this.state;
+		const segments = this.runningSegments;
+		const position = resolvePosition(segments, totalElapsed);
+
+		if (!position) {
+			// Ran past the final segment
+			this.clearInterval();
+			this.setState({
+				...previous,
+				phase: "done",
+				timeLeft: 0,
+				segmentIndex: segments.length,
+				isRunning: false,
+				isPaused: false,
+				totalElapsed: programDuration(segments),
+			});
+			this.emit("finished", { reason, state: this.state });
+			return;
+		}
+
+		const { segment, segmentIndex, timeLeft } = position;
+		this.setState({
+			...previous,
+			phase: segment.type,
+			timeLeft,
+			segmentIndex,
+			currentRound: segment.round,
+			totalRounds: segment.totalRounds,
+			currentCycle: segment.cycle,
+			totalCycles: segment.totalCycles,
+			totalElapsed,
+		});
+
+		if (segmentIndex !== previous.segmentIndex || reason !== "tick") {
+			this.emit("phaseChange", { segment, segmentIndex, reason, state: this.state });
+		} else if (timeLeft <= COUNTDOWN_SECONDS) {
+			this.emit("countdown", { secondsLeft: timeLeft, state: this.state });
+		} else if (timeLeft !== previous.timeLeft) {
+			const milestone = getMilestone(segment, timeLeft);
+			if (milestone) {
+				this.emit("milestone", { kind: milestone, state: this.state });
+			}
+		}
+		if (segment.round !== previous.currentRound || segment.cycle !== previous.currentCycle) {
+			this.emit("roundChange", { round: segment.round, cycle: segment.cycle, state: this.state });
+		}
+	}
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import type { speechService } from "./speechService";
+import { type TimerClock, TimerEngine, type TimerProfile } from "./timerEngine";
+import { attachVoiceCues, getPhaseAnnouncement } from "./voiceCues";
+import type { PlannedSegment } from "./workoutProgram";
+
+const profile: TimerProfile = {
+	name: "Test",
+	workTime: 20,
+	restTime: 10,
+	rounds: 2,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 5,
+	exercises: [{ name: "Burpees" }, { name: "Squats" }],
+};
+
+function segment(overrides: Partial<PlannedSegment>): PlannedSegment {
+	return { type: "work", duration: 30, round: 3, totalRounds: 6, cycle: 1, totalCycles: 1, ...overrides };
+}
+
+/** Clock where each advance fires the engine's tick once */
+function createClock() {
+	let time = 0;
+	let tick: (() => void) | null = null;
+	const clock: TimerClock = {
+		now: () => time,
+		setInterval: (callback) => {
+			tick = callback;
+			return 1;
+		},
+		clearInterval: () => {
+			tick = null;
+		},
+	};
+	const advance = (seconds: number) => {
+		for (let i = 0; i < seconds; i++) {
+			time += 1000;
+			tick?.();
+		}
+	};
+	return { clock, advance };
+}
+
+function createSpeech() {
+	const spoken: string[] = [];
+	const speech = {
+		speak: vi.fn((text: string) => spoken.push(text)),
+		cancel: vi.fn(),
+	} as unknown as typeof speechService;
+	return { speech, spoken };
+}
+
+describe("voiceCues", () => {
+	describe("getPhaseAnnouncement", () => {
+		it("should announce the round and exercise for work", () => {
+			expect(getPhaseAnnouncement(segment({}))).toBe("Go. Round 3 of 6");
+			expect(getPhaseAnnouncement(segment({ exercise: { name: "Burpees" } }))).toBe("Go. Round 3 of 6. Burpees");
+		});
+
+		it("should skip the round for single-round workouts", () => {
+			expect(getPhaseAnnouncement(segment({ round: 1, totalRounds: 1 }))).toBe("Go");
+		});
+
+		it("should name other phases", () => {
+			expect(getPhaseAnnouncement(segment({ type: "rest" }))).toBe("Rest");
+			expect(getPhaseAnnouncement(segment({ type: "prep" }))).toBe("Get ready");
+		});
+	});
+
+	it("should speak cues in order through a workout", () => {
+		const { clock, advance } = createClock();
+		const { speech, spoken } = createSpeech();
+		const engine = new TimerEngine(profile, clock);
+		attachVoiceCues(engine, speech);
+
+		engine.start();
+		advance(5 + 20);
+
+		expect(spoken).toEqual([
+			"Get ready",
+			"3", "2", "1",
+			"Go. Round 1 of 2. Burpees",
+			// Halfway through 20s is also 10s left - the time wins
+			"10 seconds",
+			"3", "2", "1",
+			"Rest",
+		]);
+	});
+
+	it("should cancel queued speech on pause and announce completion", () => {
+		const { clock, advance } = createClock();
+		const { speech, spoken } = createSpeech();
+		const engine = new TimerEngine({ ...profile, rounds: 1, exercises: undefined }, clock);
+		attachVoiceCues(engine, speech);
+
+		engine.start();
+		engine.pause();
+		expect(speech.cancel).toHaveBeenCalled();
+
+		engine.start();
+		advance(25);
+
+		expect(spoken[spoken.length - 1]).toBe("Workout complete");
+	});
+});
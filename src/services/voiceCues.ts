@@ -0,0 +1,70 @@
+/**
+ * Spoken workout cues, attached to a TimerEngine as event listeners.
+ *
+ * Announcements are timed to land after the matching beep rather than on
+ * top of it: the start/end beeps take ~450ms, the finish fanfare ~850ms.
+ */
+
+import { speechService } from "./speechService";
+import type { TimerEngine, TimerEventMap } from "./timerEngine";
+import type { PlannedSegment, SegmentType } from "./workoutProgram";
+
+/** Wait for phase-change and milestone beeps to finish */
+const AFTER_PHASE_BEEP_MS = 500;
+/** Countdown ticks are short */
+const AFTER_COUNTDOWN_BEEP_MS = 100;
+/** Wait for the finish fanfare */
+const AFTER_FINISH_BEEP_MS = 900;
+
+const MILESTONE_ANNOUNCEMENTS: Record<TimerEventMap["milestone"]["kind"], string> = {
+	halfway: "Halfway",
+	lastTen: "10 seconds",
+};
+
+const SPOKEN_LABELS: Record<SegmentType, string> = {
+	prep: "Get ready",
+	warmup: "Warm up",
+	work: "Go",
+	rest: "Rest",
+	cycleRest: "Cycle rest",
+	cooldown: "Cool down",
+};
+
+/** What to say on entering a segment, e.g. "Go. Round 3 of 6. Burpees" */
+export function getPhaseAnnouncement(segment: PlannedSegment): string {
+	const parts = [segment.label ?? SPOKEN_LABELS[segment.type]];
+	if (segment.type === "work" && segment.totalRounds > 1) {
+		parts.push(`Round ${segment.round} of ${segment.totalRounds}`);
+	}
+	if (segment.exercise) {
+		parts.push(segment.exercise.name);
+	}
+	return parts.join(". ");
+}
+
+/** Speak cues for the engine's workout; returns a function that detaches them */
+export function attachVoiceCues(engine: TimerEngine, speech = speechService): () => void {
+	const unsubscribers = [
+		engine.on("phaseChange", ({ segment, state }) => {
+			if (!state.isRunning) return;
+			// A new phase makes anything still queued stale
+			speech.cancel();
+			speech.speak(getPhaseAnnouncement(segment), { delayMs: AFTER_PHASE_BEEP_MS });
+		}),
+		engine.on("countdown", ({ secondsLeft, state }) => {
+			if (state.isRunning) speech.speak(String(secondsLeft), { delayMs: AFTER_COUNTDOWN_BEEP_MS });
+		}),
+		engine.on("milestone", ({ kind, state }) => {
+			if (state.isRunning) speech.speak(MILESTONE_ANNOUNCEMENTS[kind], { delayMs: AFTER_PHASE_BEEP_MS });
+		}),
+		engine.on("change", (state) => {
+			// Paused, reset or finished
+			if (!state.isRunning) speech.cancel();
+		}),
+		engine.on("finished", () => {
+			speech.speak("Workout complete", { delayMs: AFTER_FINISH_BEEP_MS });
+		}),
+	];
+
+	return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { audioService } from "./audioService";
+import { CUE_LABELS, type CueName, type SoundPack } from "./soundPacks";
+import type { TimerProfile } from "./timerEngine";
+import { encodeWav, getWorkoutAudioFileName, getWorkoutSounds, renderWorkoutAudio } from "./workoutAudio";
+
+const CUES = Object.keys(CUE_LABELS) as CueName[];
+
+/** One tone per cue, its frequency the cue's index, so the timeline reads back as names */
+const testPack: SoundPack = {
+	id: "test",
+	name: "Test",
+	cues: Object.fromEntries(
+		CUES.map((cue, i) => [cue, { tones: [{ type: "sine", frequency: i, duration: 0.1, volume: 1, offset: 0 }] }]),
+	) as SoundPack["cues"],
+};
+
+// prep 0-2s, work 2-8s, rest 8-10s, work 10-16s
+const profile: TimerProfile = {
+	name: "Row 6/2",
+	workTime: 6,
+	restTime: 2,
+	rounds: 2,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 2,
+};
+
+function timeline(ticks = false) {
+	return getWorkoutSounds(profile, { pack: testPack, ticks }).sounds.map((sound) => [
+		sound.at,
+		sound.kind === "tone" ? (CUES[sound.tone.frequency] ?? "tick") : sound.id,
+	]);
+}
+
+function readBytes(blob: Blob): Promise<DataView> {
+	return new Promise((resolve) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(new DataView(reader.result as ArrayBuffer));
+		reader.readAsArrayBuffer(blob);
+	});
+}
+
+describe("workoutAudio", () => {
+	beforeEach(() => {
+		localStorage.clear();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should place every cue at its time in the workout", () => {
+		expect(timeline()).toEqual([
+			[0, "start"],
+			[1000, "countdown"],
+			[2000, "start"],
+			[5000, "countdown"],
+			[6000, "countdown"],
+			[7000, "countdown"],
+			[8000, "end"],
+			[9000, "countdown"],
+			[10000, "start"],
+			[13000, "countdown"],
+			[14000, "countdown"],
+			[15000, "countdown"],
+			[16000, "end"],
+			[16000, "finish"],
+		]);
+		expect(getWorkoutSounds(profile).duration).toBe(19);
+	});
+
+	it("should tick through work seconds that have no cue", () => {
+		const ticks = timeline(true).filter(([, name]) => name === "tick");
+		expect(ticks.map(([at]) => at)).toEqual([3000, 4000, 11000, 12000]);
+	});
+
+	it("should tick at the profile's cadence, accenting the bar", () => {
+		const { sounds } = getWorkoutSounds(
+			{ ...profile, workTime: 2, rounds: 1, metronome: { bpm: 120, accentEvery: 3 } },
+			{ pack: testPack },
+		);
+		const beats = sounds.filter((sound) => sound.kind === "tone" && sound.tone.frequency > 100);
+
+		// Work runs 2-4s; 3000 is the countdown, so it gets no beat
+		expect(beats.map((sound) => [sound.at, sound.kind === "tone" && sound.tone.frequency])).toEqual([
+			[2500, 1800],
+			[3500, 2400],
+		]);
+	});
+
+	it("should leave out beats that land on a cue despite rounding", () => {
+		// At 42 BPM, beat 21 of work starting at 2s comes to 32000.000000000004 - the first countdown
+		const { sounds } = getWorkoutSounds(
+			{ ...profile, workTime: 33, rounds: 1, metronome: { bpm: 42 } },
+			{ pack: testPack },
+		);
+		const beats = sounds.filter((sound) => sound.kind === "tone" && sound.tone.frequency > 100);
+
+		expect(beats).toHaveLength(22);
+		expect(beats.filter((sound) => Math.abs(sound.at - 32000) < 1)).toEqual([]);
+	});
+
+	it("should leave out cues that are turned off", () => {
+		localStorage.setItem("igor-timer:cue-settings", JSON.stringify({ countdown: { enabled: false } }));
+		expect(timeline().some(([, name]) => name === "countdown")).toBe(false);
+	});
+
+	it("should encode 16-bit PCM WAV", async () => {
+		const blob = encodeWav({ sampleRate: 8000, channels: [new Float32Array([0, 1, -1, 2])] });
+		const view = await readBytes(blob);
+
+		expect(blob.type).toBe("audio/wav");
+		expect(view.byteLength).toBe(44 + 8);
+		expect(String.fromCharCode(...new Uint8Array(view.buffer, 0, 4))).toBe("RIFF");
+		expect(view.getUint32(24, true)).toBe(8000);
+		expect(view.getUint16(34, true)).toBe(16);
+		// 0, full scale, negative full scale, clipped
+		expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([0, 32767, -32768, 32767]);
+	});
+
+	it("should render the timeline through the audio service", async () => {
+		const render = vi
+			.spyOn(audioService, "render")
+			.mockResolvedValue({ sampleRate: 22050, channels: [new Float32Array(10)] });
+
+		const blob = await renderWorkoutAudio(profile, { pack: testPack });
+
+		expect(render).toHaveBeenCalledWith(expect.arrayContaining([expect.objectContaining({ at: 16000 })]), 19, 22050);
+		expect(blob.size).toBe(44 + 20);
+	});
+
+	it("should name the file after the profile", () => {
+		expect(getWorkoutAudioFileName(profile)).toBe("Row 6-2 workout.wav");
+		expect(getWorkoutAudioFileName({ ...profile, name: "???" })).toBe("Igor Timer workout.wav");
+	});
+});
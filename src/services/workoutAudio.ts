@@ -0,0 +1,137 @@
+/**
+ * Workout Audio Export
+ *
+ * Renders a whole workout's cues - every beep at its exact time, silence
+ * in between - to a WAV file, so it can be played from a music player or
+ * gym sound system instead of the app. The timeline comes from the same
+ * engine cue logic, sound pack recipes (and user clips) and metronome as
+ * live playback; rendering runs in an OfflineAudioContext and the WAV is
+ * encoded in the browser.
+ *
+ * @example
+ * const blob = await renderWorkoutAudio(profile, { ticks: true });
+ * const url = URL.createObjectURL(blob); // download as getWorkoutAudioFileName(profile)
+ */
+
+import { audioService, type ClipData, METRONOME_ACCENT, METRONOME_BEAT, type QueuedSound } from "./audioService";
+import { getCueNames } from "./audioCues";
+import { getCueSounds, getSelectedSoundPack, type SoundPack } from "./soundPacks";
+import { getWorkoutCues, type TimerProfile } from "./timerEngine";
+import { flattenProgram, getProfileProgram, type Metronome, programDuration } from "./workoutProgram";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkoutAudioOptions {
+	/** Tick once a second through work phases that have no metronome of their own */
+	ticks?: boolean;
+	/** Default: the selected pack */
+	pack?: SoundPack;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Plenty for beeps, and half the size of CD quality */
+const SAMPLE_RATE = 22050;
+
+/** Room after the last phase for the finish cue to ring out */
+const TAIL_SECONDS = 3;
+
+const SECOND_TICKS: Metronome = { bpm: 60 };
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/** Every sound in the workout, `at` milliseconds from its start, and the total length in seconds */
+export function getWorkoutSounds(
+	profile: TimerProfile,
+	{ ticks = false, pack = getSelectedSoundPack() }: WorkoutAudioOptions = {},
+): { sounds: QueuedSound[]; duration: number } {
+	const segments = flattenProgram(getProfileProgram(profile));
+
+	const sounds = getCueSounds("start", 0, pack);
+	// Whole milliseconds, so beats match cues despite floating-point error
+	const cueTimes = new Set([0]);
+	for (const cue of getWorkoutCues(segments)) {
+		cueTimes.add(Math.round(cue.inMs));
+		for (const name of getCueNames(cue)) {
+			sounds.push(...getCueSounds(name, cue.inMs, pack));
+		}
+	}
+
+	// Metronomes tick as they would live; beat 0 is the phase's own cue
+	let startMs = 0;
+	for (const segment of segments) {
+		const metronome = segment.metronome ?? (ticks && segment.type === "work" ? SECOND_TICKS : undefined);
+		if (metronome) {
+			const interval = 60000 / metronome.bpm;
+			for (let beat = 1; beat * interval < segment.duration * 1000; beat++) {
+				const at = startMs + beat * interval;
+				const accent = metronome.accentEvery && beat % metronome.accentEvery === 0;
+				// Cues already mark these moments
+				if (!cueTimes.has(Math.round(at))) sounds.push({ kind: "tone", at, tone: accent ? METRONOME_ACCENT : METRONOME_BEAT });
+			}
+		}
+		startMs += segment.duration * 1000;
+	}
+
+	sounds.sort((a, b) => a.at - b.at);
+	return { sounds, duration: programDuration(segments) + TAIL_SECONDS };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** Render the workout to a WAV file; rejects if the browser can't render audio */
+export async function renderWorkoutAudio(profile: TimerProfile, options?: WorkoutAudioOptions): Promise<Blob> {
+	const { sounds, duration } = getWorkoutSounds(profile, options);
+	return encodeWav(await audioService.render(sounds, duration, SAMPLE_RATE));
+}
+
+/** 16-bit PCM WAV; samples outside -1..1 are clipped */
+export function encodeWav({ sampleRate, channels }: ClipData): Blob {
+	const channelCount = channels.length;
+	const frames = channels[0].length;
+	const dataBytes = frames * channelCount * 2;
+	const view = new DataView(new ArrayBuffer(44 + dataBytes));
+
+	const writeString = (offset: number, text: string) => {
+		for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+	};
+
+	writeString(0, "RIFF");
+	view.setUint32(4, 36 + dataBytes, true);
+	writeString(8, "WAVE");
+	writeString(12, "fmt ");
+	view.setUint32(16, 16, true); // fmt chunk size
+	view.setUint16(20, 1, true); // PCM
+	view.setUint16(22, channelCount, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * channelCount * 2, true); // byte rate
+	view.setUint16(32, channelCount * 2, true); // block align
+	view.setUint16(34, 16, true); // bits per sample
+	writeString(36, "data");
+	view.setUint32(40, dataBytes, true);
+
+	let offset = 44;
+	for (let frame = 0; frame < frames; frame++) {
+		for (const samples of channels) {
+			const sample = Math.max(-1, Math.min(1, samples[frame]));
+			view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+			offset += 2;
+		}
+	}
+
+	return new Blob([view], { type: "audio/wav" });
+}
+
+/** "5/1" -> "5-1 workout.wav", without characters file systems reject */
+export function getWorkoutAudioFileName(profile: TimerProfile): string {
+	const name = profile.name.replace(/[\\/:*?"<>|]+/g, "-").trim();
+	return `${/\w/.test(name) ? name : "Igor Timer"} workout.wav`;
+}
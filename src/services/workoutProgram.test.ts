@@ -0,0 +1,234 @@
+/**
+ * Workout Program Tests
+ *
+ * Tests for segment flattening, round/cycle numbering and position lookup.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	findNextExercise,
+	flattenProgram,
+	getRoundDurations,
+	getSegmentLabel,
+	intervalProgram,
+	type ProgramItem,
+	programDuration,
+	type RepeatBlock,
+	resolvePosition,
+} from "./workoutProgram";
+
+const intervalProfile = {
+	prepTime: 5,
+	workTime: 20,
+	restTime: 10,
+	rounds: 3,
+	cycles: 2,
+	cycleRestTime: 60,
+};
+
+describe("workoutProgram", () => {
+	describe("intervalProgram", () => {
+		it("should produce prep, rounds and cycle rests with no trailing rest", () => {
+			const segments = flattenProgram(intervalProgram(intervalProfile));
+
+			expect(segments.map((s) => s.type)).toEqual([
+				"prep",
+				"work", "rest", "work", "rest", "work",
+				"cycleRest",
+				"work", "rest", "work", "rest", "work",
+			]);
+		});
+
+		it("should number rounds within each cycle", () => {
+			const segments = flattenProgram(intervalProgram(intervalProfile));
+			const work = segments.filter((s) => s.type === "work");
+
+			expect(work.map((s) => [s.cycle, s.round])).toEqual([
+				[1, 1], [1, 2], [1, 3],
+				[2, 1], [2, 2], [2, 3],
+			]);
+			expect(work.every((s) => s.totalRounds === 3 && s.totalCycles === 2)).toBe(true);
+		});
+
+		it("should keep cycle numbering when cycle rest is zero", () => {
+			const segments = flattenProgram(intervalProgram({ ...intervalProfile, cycleRestTime: 0 }));
+
+			expect(segments.some((s) => s.type === "cycleRest")).toBe(false);
+			expect(segments[segments.length - 1].cycle).toBe(2);
+			expect(segments[segments.length - 1].round).toBe(3);
+		});
+
+		it("should give the metronome to work segments only", () => {
+			const metronome = { bpm: 28, accentEvery: 4 };
+			const segments = flattenProgram(intervalProgram({ ...intervalProfile, metronome }));
+
+			for (const segment of segments) {
+				expect(segment.metronome).toEqual(segment.type === "work" ? metronome : undefined);
+			}
+		});
+
+		it("should drop zero-length prep and rest", () => {
+			const segments = flattenProgram(
+				intervalProgram({ ...intervalProfile, prepTime: 0, restTime: 0, cycles: 1 }),
+			);
+
+			expect(segments.map((s) => s.type)).toEqual(["work", "work", "work"]);
+		});
+	});
+
+	describe("flattenProgram", () => {
+		const tabata: RepeatBlock = {
+			type: "repeat",
+			times: 8,
+			items: [{ type: "work", duration: 20 }, { type: "rest", duration: 10 }],
+		};
+		const program: ProgramItem[] = [
+			{ type: "warmup", duration: 300 },
+			tabata,
+			{ type: "rest", duration: 120, label: "BREATHE" },
+			tabata,
+			{ type: "cooldown", duration: 300 },
+		];
+
+		it("should expand repeat blocks in order", () => {
+			const segments = flattenProgram(program);
+
+			expect(segments).toHaveLength(1 + 16 + 1 + 16 + 1);
+			expect(segments[0].type).toBe("warmup");
+			expect(segments[17]).toMatchObject({ type: "rest", duration: 120, label: "BREATHE" });
+			expect(segments[segments.length - 1].type).toBe("cooldown");
+		});
+
+		it("should count every work segment as a round", () => {
+			const segments = flattenProgram(program);
+
+			expect(segments[0].round).toBe(1);
+			expect(segments[segments.length - 1].round).toBe(16);
+			expect(segments[0].totalRounds).toBe(16);
+		});
+
+		it("should expand nested repeat blocks", () => {
+			const segments = flattenProgram([
+				{ type: "repeat", times: 2, items: [{ type: "repeat", times: 3, items: [{ type: "work", duration: 5 }] }] },
+			]);
+
+			expect(segments).toHaveLength(6);
+		});
+
+		it("should sum durations", () => {
+			expect(programDuration(flattenProgram(program))).toBe(300 + 8 * 30 + 120 + 8 * 30 + 300);
+		});
+	});
+
+	describe("resolvePosition", () => {
+		const segments = flattenProgram([
+			{ type: "prep", duration: 2 },
+			{ type: "work", duration: 3 },
+			{ type: "rest", duration: 2 },
+		]);
+
+		it("should count down within a segment", () => {
+			expect(resolvePosition(segments, 0)).toMatchObject({ segmentIndex: 0, timeLeft: 2 });
+			expect(resolvePosition(segments, 3)).toMatchObject({ segmentIndex: 1, timeLeft: 2 });
+		});
+
+		it("should move to the next segment exactly at its boundary", () => {
+			expect(resolvePosition(segments, 2)).toMatchObject({ segmentIndex: 1, timeLeft: 3 });
+		});
+
+		it("should return null after the final segment", () => {
+			expect(resolvePosition(segments, 7)).toBeNull();
+		});
+	});
+
+	describe("getSegmentLabel", () => {
+		it("should prefer a segment's own label", () => {
+			expect(getSegmentLabel({ type: "work", duration: 20, label: "SPRINT" })).toBe("SPRINT");
+			expect(getSegmentLabel({ type: "cycleRest", duration: 60 })).toBe("CYCLE REST");
+		});
+	});
+
+	describe("getRoundDurations", () => {
+		const base = { workTime: 20, restTime: 30, rounds: 4 };
+
+		it("should repeat the same durations without a progression", () => {
+			expect(getRoundDurations(base)).toEqual(Array(4).fill({ work: 20, rest: 30 }));
+		});
+
+		it("should step durations linearly, shrinking rest", () => {
+			const rounds = getRoundDurations({ ...base, progression: { type: "linear", workStep: 10, restStep: -5 } });
+
+			expect(rounds.map((r) => r.work)).toEqual([20, 30, 40, 50]);
+			expect(rounds.map((r) => r.rest)).toEqual([30, 25, 20, 15]);
+		});
+
+		it("should build a ladder with a pyramid", () => {
+			const rounds = getRoundDurations({
+				...base,
+				rounds: 7,
+				progression: { type: "pyramid", workStep: 10, restStep: 0 },
+			});
+
+			expect(rounds.map((r) => r.work)).toEqual([20, 30, 40, 50, 40, 30, 20]);
+		});
+
+		it("should never go below one second of work or zero rest", () => {
+			const rounds = getRoundDurations({ ...base, progression: { type: "linear", workStep: -10, restStep: -20 } });
+
+			expect(rounds.map((r) => r.work)).toEqual([20, 10, 1, 1]);
+			expect(rounds.map((r) => r.rest)).toEqual([30, 10, 0, 0]);
+		});
+
+		it("should use a custom table as-is, ignoring the round count", () => {
+			const table = [
+				{ work: 45, rest: 15 },
+				{ work: 30, rest: 30 },
+			];
+
+			expect(getRoundDurations({ ...base, progression: { type: "custom", rounds: table } })).toEqual(table);
+		});
+
+		it("should drive the interval program's segments", () => {
+			const segments = flattenProgram(
+				intervalProgram({
+					...intervalProfile,
+					cycles: 1,
+					progression: { type: "linear", workStep: 5, restStep: -2 },
+				}),
+			);
+
+			expect(segments.map((s) => [s.type, s.duration])).toEqual([
+				["prep", 5],
+				["work", 20], ["rest", 10],
+				["work", 25], ["rest", 8],
+				["work", 30],
+			]);
+		});
+	});
+
+	describe("exercises", () => {
+		const circuit = {
+			...intervalProfile,
+			exercises: [{ name: "Burpees", notes: "Chest to floor" }, { name: "" }, { name: "Squats" }],
+		};
+
+		it("should attach each round's exercise to its work segment in every cycle", () => {
+			const work = flattenProgram(intervalProgram(circuit)).filter((s) => s.type === "work");
+
+			expect(work.map((s) => s.exercise?.name)).toEqual([
+				"Burpees", undefined, "Squats",
+				"Burpees", undefined, "Squats",
+			]);
+			expect(work[0].exercise?.notes).toBe("Chest to floor");
+		});
+
+		it("should find the next exercise after a position", () => {
+			const segments = flattenProgram(intervalProgram(circuit));
+
+			// From prep, the first round is next; from round 1, round 2 has none so round 3 is next
+			expect(findNextExercise(segments, 0)?.name).toBe("Burpees");
+			expect(findNextExercise(segments, 1)?.name).toBe("Squats");
+			expect(findNextExercise(segments, segments.length - 1)).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,287 @@
+/**
+ * Workout Program Model
+ *
+ * A workout is an ordered list of typed segments (prep, work, rest, ...) with
+ * optional repeat blocks. The interval profile (N × work/rest) is just one
+ * generator of such a list; the timer itself only ever sees the flattened
+ * segments, so richer programs run without any timer changes.
+ *
+ * @example
+ * // 5 min warmup, 8×(20/10), 2 min rest, 8×(20/10), 5 min cooldown
+ * const tabata: RepeatBlock = {
+ *   type: "repeat",
+ *   times: 8,
+ *   items: [{ type: "work", duration: 20 }, { type: "rest", duration: 10 }],
+ * };
+ * flattenProgram([
+ *   { type: "warmup", duration: 300 },
+ *   tabata,
+ *   { type: "rest", duration: 120 },
+ *   tabata,
+ *   { type: "cooldown", duration: 300 },
+ * ]);
+ */
+
+import type { TimerProfile } from "./timerEngine";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SegmentType = "prep" | "warmup" | "work" | "rest" | "cycleRest" | "cooldown";
+
+/** A named movement for a round or segment (e.g. a circuit station) */
+export interface Exercise {
+	name: string;
+	notes?: string;
+}
+
+/** A cadence to keep (strokes, skips, pedal turns) */
+export interface Metronome {
+	/** Beats per minute */
+	bpm: number;
+	/** Accent every this-many beats (the first of each bar); unset for none */
+	accentEvery?: number;
+}
+
+/** A single timed stretch of the workout */
+export interface Segment {
+	type: SegmentType;
+	/** Seconds */
+	duration: number;
+	/** Shown instead of the default phase label (e.g. "SPRINT") */
+	label?: string;
+	exercise?: Exercise;
+	/** Ticks through the segment (work only, in the interval generator) */
+	metronome?: Metronome;
+}
+
+/** Work and rest for one round, in seconds */
+export interface RoundDurations {
+	work: number;
+	/** Unused for a cycle's last round - it ends on work */
+	rest: number;
+}
+
+/**
+ * How work/rest change from round to round. Steps are seconds per round
+ * and may be negative (e.g. rest that shrinks each round).
+ */
+export type RoundProgression =
+	| { type: "constant" }
+	/** Each round adds the steps to the previous one */
+	| { type: "linear"; workStep: number; restStep: number }
+	/** Steps up to the middle round, then back down (a ladder) */
+	| { type: "pyramid"; workStep: number; restStep: number }
+	/** Explicit durations; the table length is the number of rounds */
+	| { type: "custom"; rounds: RoundDurations[] };
+
+/** Runs its items `times` times in a row; may be nested */
+export interface RepeatBlock {
+	type: "repeat";
+	times: number;
+	items: ProgramItem[];
+}
+
+export type ProgramItem = Segment | RepeatBlock;
+
+/** A flattened segment with its place in the workout resolved */
+export interface PlannedSegment extends Segment {
+	/** Work segments are rounds; counts restart at each cycle */
+	round: number;
+	totalRounds: number;
+	/** Cycles are separated by cycleRest segments */
+	cycle: number;
+	totalCycles: number;
+}
+
+/** Where the workout is at a given elapsed second */
+export interface ProgramPosition {
+	segmentIndex: number;
+	segment: PlannedSegment;
+	timeLeft: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default display label for each segment type */
+export const SEGMENT_LABELS: Record<SegmentType, string> = {
+	prep: "GET READY",
+	warmup: "WARMUP",
+	work: "WORK",
+	rest: "REST",
+	cycleRest: "CYCLE REST",
+	cooldown: "COOLDOWN",
+};
+
+// ============================================================================
+// Generators
+// ============================================================================
+
+/**
+ * Per-round work/rest for a profile's progression. Work never drops below
+ * one second, rest never below zero.
+ */
+export function getRoundDurations(
+	profile: Pick<TimerProfile, "workTime" | "restTime" | "rounds" | "progression">,
+): RoundDurations[] {
+	const progression = profile.progression ?? { type: "constant" };
+	if (progression.type === "custom") {
+		return progression.rounds;
+	}
+
+	return Array.from({ length: profile.rounds }, (_, i) => {
+		let steps = 0;
+		if (progression.type === "linear") {
+			steps = i;
+		} else if (progression.type === "pyramid") {
+			steps = Math.min(i, profile.rounds - 1 - i);
+		}
+		const workStep = progression.type === "constant" ? 0 : progression.workStep;
+		const restStep = progression.type === "constant" ? 0 : progression.restStep;
+		return {
+			work: Math.max(1, profile.workTime + steps * workStep),
+			rest: Math.max(0, profile.restTime + steps * restStep),
+		};
+	});
+}
+
+/**
+ * Build the program for a classic interval profile:
+ * prep, then `cycles` × (`rounds` × work/rest), with a cycle rest between
+ * cycles. There's no rest after a cycle's last round - the workout ends on work.
+ * Round durations follow the profile's progression, the same in every cycle;
+ * its metronome (if any) ticks through every work segment.
+ */
+export function intervalProgram(
+	profile: Pick<
+		TimerProfile,
+		| "prepTime"
+		| "workTime"
+		| "restTime"
+		| "rounds"
+		| "cycles"
+		| "cycleRestTime"
+		| "progression"
+		| "exercises"
+		| "metronome"
+	>,
+): ProgramItem[] {
+	const rounds = getRoundDurations(profile);
+	const cycle: ProgramItem[] = rounds.flatMap(({ work, rest }, i): Segment[] => {
+		const exercise = profile.exercises?.[i];
+		const workSegment: Segment = {
+			type: "work",
+			duration: work,
+			...(exercise?.name && { exercise }),
+			...(profile.metronome && { metronome: profile.metronome }),
+		};
+		return i < rounds.length - 1 ? [workSegment, { type: "rest", duration: rest }] : [workSegment];
+	});
+
+	return [
+		{ type: "prep", duration: profile.prepTime },
+		{
+			type: "repeat",
+			times: profile.cycles - 1,
+			items: [...cycle, { type: "cycleRest", duration: profile.cycleRestTime }],
+		},
+		...cycle,
+	];
+}
+
+/** The program a profile runs: its custom program, or the interval generator */
+export function getProfileProgram(profile: TimerProfile): ProgramItem[] {
+	return profile.program ?? intervalProgram(profile);
+}
+
+// ============================================================================
+// Flattening & Lookup
+// ============================================================================
+
+function expand(items: ProgramItem[], out: Segment[]): Segment[] {
+	for (const item of items) {
+		if (item.type === "repeat") {
+			for (let i = 0; i < item.times; i++) {
+				expand(item.items, out);
+			}
+		} else {
+			out.push(item);
+		}
+	}
+	return out;
+}
+
+/**
+ * Expand repeat blocks into the ordered list of segments that actually runs,
+ * numbering rounds and cycles. Zero-length segments are dropped afterwards
+ * (so a 0s cycle rest still separates cycles, but is never entered).
+ */
+export function flattenProgram(items: ProgramItem[]): PlannedSegment[] {
+	const planned: PlannedSegment[] = [];
+	const roundsPerCycle: number[] = [0];
+	let cycle = 1;
+
+	for (const segment of expand(items, [])) {
+		if (segment.type === "work") {
+			roundsPerCycle[cycle - 1]++;
+		}
+		planned.push({
+			...segment,
+			round: Math.max(roundsPerCycle[cycle - 1], 1),
+			totalRounds: 0,
+			cycle,
+			totalCycles: 0,
+		});
+		if (segment.type === "cycleRest") {
+			cycle++;
+			roundsPerCycle.push(0);
+		}
+	}
+
+	return planned
+		.map((segment) => ({
+			...segment,
+			totalRounds: roundsPerCycle[segment.cycle - 1],
+			totalCycles: cycle,
+		}))
+		.filter((segment) => segment.duration > 0);
+}
+
+/** Total running time in seconds */
+export function programDuration(segments: PlannedSegment[]): number {
+	return segments.reduce((total, segment) => total + segment.duration, 0);
+}
+
+/** Elapsed seconds at which the segment at `index` starts */
+export function segmentStartTime(segments: PlannedSegment[], index: number): number {
+	return programDuration(segments.slice(0, index));
+}
+
+/**
+ * Resolve elapsed seconds to a position in the flattened program.
+ * Returns null once the elapsed time has run past the final segment.
+ */
+export function resolvePosition(segments: PlannedSegment[], elapsed: number): ProgramPosition | null {
+	let segmentStart = 0;
+	for (let i = 0; i < segments.length; i++) {
+		const segmentEnd = segmentStart + segments[i].duration;
+		if (elapsed < segmentEnd) {
+			return { segmentIndex: i, segment: segments[i], timeLeft: segmentEnd - elapsed };
+		}
+		segmentStart = segmentEnd;
+	}
+	return null;
+}
+
+/** The next segment from `index` (exclusive) with an exercise */
+export function findNextExercise(segments: PlannedSegment[], index: number): Exercise | undefined {
+	return segments.slice(index + 1).find((segment) => segment.exercise)?.exercise;
+}
+
+/** Display label for a segment - its own label, or the default for its type */
+export function getSegmentLabel(segment: Segment): string {
+	return segment.label ?? SEGMENT_LABELS[segment.type];
+}
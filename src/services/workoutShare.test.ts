@@ -0,0 +1,160 @@
+/**
+ * Workout Sharing Tests
+ *
+ * jsdom has neither the Web Share API nor a clipboard; both are mocked.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TimerProfile } from "./timerEngine";
+import {
+	clearSharedPayload,
+	decodeWorkout,
+	encodeWorkout,
+	getSharedPayload,
+	getShareUrl,
+	readSharedWorkout,
+	shareWorkout,
+} from "./workoutShare";
+
+vi.mock("./pwaDebugServices", () => ({ sessionRecorder: { recordStateChange: vi.fn() } }));
+
+const tabata: TimerProfile = {
+	name: "TABATA",
+	workTime: 20,
+	restTime: 10,
+	rounds: 8,
+	cycles: 1,
+	cycleRestTime: 60,
+	prepTime: 10,
+};
+
+const rowing: TimerProfile = {
+	name: "Rüdern 4×4 🚣",
+	workTime: 240,
+	restTime: 60,
+	rounds: 4,
+	cycles: 2,
+	cycleRestTime: 180,
+	prepTime: 5,
+	progression: { type: "custom", rounds: [{ work: 240, rest: 60 }, { work: 200, rest: 90 }] },
+	exercises: [{ name: "Row", notes: "Damper 5" }, { name: "" }],
+	metronome: { bpm: 24, accentEvery: 4 },
+	program: [
+		{ type: "warmup", duration: 300, label: "EASY" },
+		{
+			type: "repeat",
+			times: 4,
+			items: [
+				{ type: "work", duration: 240, exercise: { name: "Row" }, metronome: { bpm: 26 } },
+				{ type: "rest", duration: 60 },
+			],
+		},
+		{ type: "cooldown", duration: 0 },
+	],
+};
+
+function payloadOf(fields: unknown[]): string {
+	return btoa(JSON.stringify(fields)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+describe("workoutShare", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		window.history.replaceState(null, "", "/");
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		// @ts-expect-error - removing the mocks
+		delete navigator.share;
+		// @ts-expect-error - removing the mocks
+		delete navigator.clipboard;
+	});
+
+	it("should round-trip a plain interval profile", () => {
+		expect(decodeWorkout(encodeWorkout(tabata))).toEqual(tabata);
+	});
+
+	it("should round-trip programs, progressions, exercises and cadence", () => {
+		expect(decodeWorkout(encodeWorkout(rowing))).toEqual(rowing);
+	});
+
+	it("should keep links short and URL-safe", () => {
+		const payload = encodeWorkout(tabata);
+		expect(payload).toMatch(/^[\w-]+$/);
+		expect(payload.length).toBeLessThan(50);
+	});
+
+	it("should build a link on the current page", () => {
+		const url = getShareUrl(tabata, "https://timer.example/app/?x=1#old");
+		expect(url).toBe(`https://timer.example/app/?x=1#w=${encodeWorkout(tabata)}`);
+		expect(getSharedPayload(new URL(url).hash)).toBe(encodeWorkout(tabata));
+	});
+
+	it("should ignore hashes that aren't workout links", () => {
+		expect(getSharedPayload("")).toBeNull();
+		expect(getSharedPayload("#about")).toBeNull();
+		expect(getSharedPayload("#w=")).toBeNull();
+		expect(readSharedWorkout("#about")).toBeNull();
+	});
+
+	it("should reject damaged links", () => {
+		expect(() => decodeWorkout("not base64!")).toThrow("incomplete or damaged");
+		expect(() => decodeWorkout(payloadOf({ name: "x" } as never))).toThrow("incomplete or damaged");
+		expect(() => decodeWorkout(payloadOf([1, "X", 20, 10, 8, 1, 60, 10, { g: 5 }]))).toThrow("incomplete or damaged");
+	});
+
+	it("should reject links from a newer format", () => {
+		expect(() => decodeWorkout(payloadOf([2, "X", 20, 10, 8, 1, 60, 10]))).toThrow("newer version");
+	});
+
+	it("should reject invalid values with the field at fault", () => {
+		expect(() => decodeWorkout(payloadOf([1, "X", -20, 10, 8, 1, 60, 10]))).toThrow(
+			"Work time must be a whole number from 1 to 3600",
+		);
+		expect(() => decodeWorkout(payloadOf([1, "X", 20, 10, 8, 1, 60, 10, { p: ["c", 30, 1.5] }]))).toThrow(
+			"Round 1 rest must be a whole number",
+		);
+		expect(() => readSharedWorkout(`#w=${payloadOf([1, "", 20, 10, 8, 1, 60, 10])}`)).toThrow("Name can't be empty");
+	});
+
+	it("should remove the workout from the address bar", () => {
+		window.history.replaceState(null, "", `/?x=1#w=${encodeWorkout(tabata)}`);
+		clearSharedPayload();
+		expect(window.location.hash).toBe("");
+		expect(window.location.search).toBe("?x=1");
+	});
+
+	it("should share through the share sheet when there is one", async () => {
+		const share = vi.fn().mockResolvedValue(undefined);
+		Object.defineProperty(navigator, "share", { value: share, configurable: true });
+
+		expect(await shareWorkout(tabata)).toBe("shared");
+		expect(share).toHaveBeenCalledWith({ title: "TABATA - Igor Timer", url: expect.stringContaining("#w=") });
+	});
+
+	it("should report a dismissed share sheet as cancelled", async () => {
+		const share = vi.fn().mockRejectedValue(new DOMException("dismissed", "AbortError"));
+		const writeText = vi.fn();
+		Object.defineProperty(navigator, "share", { value: share, configurable: true });
+		Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+		expect(await shareWorkout(tabata)).toBe("cancelled");
+		expect(writeText).not.toHaveBeenCalled();
+	});
+
+	it("should copy the link without a share sheet", async () => {
+		const writeText = vi.fn().mockResolvedValue(undefined);
+		Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+		expect(await shareWorkout(tabata)).toBe("copied");
+		expect(decodeWorkout(getSharedPayload(new URL(writeText.mock.calls[0][0]).hash) ?? "")).toEqual(tabata);
+	});
+
+	it("should fail when it can neither share nor copy", async () => {
+		const writeText = vi.fn().mockRejectedValue(new Error("denied"));
+		Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+		await expect(shareWorkout(tabata)).rejects.toThrow("Couldn't share or copy the link");
+	});
+});
@@ -0,0 +1,290 @@
+/**
+ * Workout Sharing
+ *
+ * A timer profile - program, progression, exercises and cadence included -
+ * packed into the URL hash, so a link opens the app with the workout
+ * ready to load. The payload is compact positional JSON, base64url
+ * encoded, with its format version as the first element:
+ *
+ *   #w=<base64url([version, name, work, rest, rounds, cycles, cycleRest, prep, extras?])>
+ *
+ * `extras` holds only the optional fields that are set, under one-letter
+ * keys (see encodeExtras). Decoding rebuilds the profile and runs it
+ * through validateProfile(), so a hand-edited link can't smuggle in bad
+ * values. Bump SHARE_FORMAT_VERSION when the layout changes and keep
+ * decoding the old versions.
+ *
+ * @example
+ * const result = await shareWorkout(profile); // "shared" | "copied" | "cancelled"
+ *
+ * const shared = readSharedWorkout(location.hash); // throws with a message to show
+ * if (shared) confirmLoad(shared);
+ */
+
+import { validateProfile } from "./profileValidation";
+import { sessionRecorder } from "./pwaDebugServices";
+import type { TimerProfile } from "./timerEngine";
+import type { Exercise, Metronome, ProgramItem, RoundProgression, SegmentType } from "./workoutProgram";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShareResult = "shared" | "copied" | "cancelled";
+
+/** Events recorded to session for debugging sharing issues */
+type ShareEventType = "share:shared" | "share:copied" | "share:failed" | "share:invalid_link";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SHARE_FORMAT_VERSION = 1;
+
+const HASH_KEY = "w=";
+
+const SEGMENT_CODES: Record<SegmentType, string> = {
+	prep: "p",
+	warmup: "u",
+	work: "w",
+	rest: "r",
+	cycleRest: "c",
+	cooldown: "d",
+};
+
+const SEGMENT_TYPES = Object.fromEntries(
+	Object.entries(SEGMENT_CODES).map(([type, code]) => [code, type]),
+) as Record<string, SegmentType>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function recordEvent(type: ShareEventType, details?: Record<string, unknown>): void {
+	sessionRecorder.recordStateChange({ type, timestamp: Date.now(), details });
+}
+
+/** Drop trailing nulls so optional positions cost nothing */
+function trimmed(values: unknown[]): unknown[] {
+	let end = values.length;
+	while (end > 0 && values[end - 1] == null) end--;
+	return values.slice(0, end);
+}
+
+function toBase64Url(text: string): string {
+	const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join("");
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(payload: string): string {
+	const binary = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+	return new TextDecoder("utf-8", { fatal: true }).decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function encodeExercise({ name, notes }: Exercise): unknown[] {
+	return trimmed([name, notes]);
+}
+
+function encodeMetronome({ bpm, accentEvery }: Metronome): unknown[] {
+	return trimmed([bpm, accentEvery]);
+}
+
+function encodeProgression(progression: RoundProgression): unknown[] {
+	switch (progression.type) {
+		case "constant":
+			return ["k"];
+		case "linear":
+			return ["l", progression.workStep, progression.restStep];
+		case "pyramid":
+			return ["p", progression.workStep, progression.restStep];
+		case "custom":
+			return ["c", ...progression.rounds.flatMap(({ work, rest }) => [work, rest])];
+	}
+}
+
+/** Segments as [code, duration, label?, exercise?, metronome?]; repeats as [times, items] */
+function encodeProgram(items: ProgramItem[]): unknown[] {
+	return items.map((item) =>
+		item.type === "repeat"
+			? [item.times, encodeProgram(item.items)]
+			: trimmed([
+					SEGMENT_CODES[item.type],
+					item.duration,
+					item.label ?? null,
+					item.exercise ? encodeExercise(item.exercise) : null,
+					item.metronome ? encodeMetronome(item.metronome) : null,
+				]),
+	);
+}
+
+function encodeExtras({ progression, exercises, program, metronome }: TimerProfile): Record<string, unknown> | null {
+	const extras: Record<string, unknown> = {};
+	if (progression && progression.type !== "constant") extras.p = encodeProgression(progression);
+	if (exercises) extras.e = exercises.map(encodeExercise);
+	if (program) extras.g = encodeProgram(program);
+	if (metronome) extras.m = encodeMetronome(metronome);
+	return Object.keys(extras).length > 0 ? extras : null;
+}
+
+/** The hash payload for a profile (without the "#w=") */
+export function encodeWorkout(profile: TimerProfile): string {
+	const { name, workTime, restTime, rounds, cycles, cycleRestTime, prepTime } = profile;
+	const fields = [SHARE_FORMAT_VERSION, name, workTime, restTime, rounds, cycles, cycleRestTime, prepTime];
+	return toBase64Url(JSON.stringify(trimmed([...fields, encodeExtras(profile)])));
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+// Decoders only rebuild the shape; validateProfile() checks the values
+
+function decodeExercise(value: unknown): unknown {
+	const [name, notes] = value as unknown[];
+	return notes === undefined ? { name } : { name, notes };
+}
+
+function decodeMetronome(value: unknown): unknown {
+	const [bpm, accentEvery] = value as unknown[];
+	return accentEvery === undefined ? { bpm } : { bpm, accentEvery };
+}
+
+function decodeProgression(value: unknown): unknown {
+	const [code, ...rest] = value as unknown[];
+	switch (code) {
+		case "k":
+			return { type: "constant" };
+		case "l":
+		case "p":
+			return { type: code === "l" ? "linear" : "pyramid", workStep: rest[0], restStep: rest[1] };
+		case "c":
+			return {
+				type: "custom",
+				rounds: Array.from({ length: Math.ceil(rest.length / 2) }, (_, i) => ({
+					work: rest[i * 2],
+					rest: rest[i * 2 + 1],
+				})),
+			};
+		default:
+			return { type: code };
+	}
+}
+
+function decodeProgram(value: unknown): unknown {
+	return (value as unknown[][]).map(([first, ...rest]) => {
+		if (typeof first === "number") return { type: "repeat", times: first, items: decodeProgram(rest[0]) };
+
+		const [duration, label, exercise, metronome] = rest;
+		return {
+			type: SEGMENT_TYPES[first as string] ?? first,
+			duration,
+			...(label != null && { label }),
+			...(exercise != null && { exercise: decodeExercise(exercise) }),
+			...(metronome != null && { metronome: decodeMetronome(metronome) }),
+		};
+	});
+}
+
+/** A profile from a hash payload; throws with a message to show if the link is broken or invalid */
+export function decodeWorkout(payload: string): TimerProfile {
+	let fields: unknown[];
+	try {
+		fields = JSON.parse(fromBase64Url(payload));
+	} catch {
+		throw new Error("This workout link is incomplete or damaged");
+	}
+	if (!Array.isArray(fields) || typeof fields[0] !== "number") {
+		throw new Error("This workout link is incomplete or damaged");
+	}
+	if (fields[0] > SHARE_FORMAT_VERSION) {
+		throw new Error("This workout link needs a newer version of the app - reload to update");
+	}
+
+	const [, name, workTime, restTime, rounds, cycles, cycleRestTime, prepTime, extras] = fields;
+	const raw: Record<string, unknown> = { name, workTime, restTime, rounds, cycles, cycleRestTime, prepTime };
+	try {
+		if (extras != null) {
+			const { p, e, g, m } = extras as Record<string, unknown>;
+			if (p !== undefined) raw.progression = decodeProgression(p);
+			if (e !== undefined) raw.exercises = (e as unknown[]).map(decodeExercise);
+			if (g !== undefined) raw.program = decodeProgram(g);
+			if (m !== undefined) raw.metronome = decodeMetronome(m);
+		}
+	} catch {
+		throw new Error("This workout link is incomplete or damaged");
+	}
+	return validateProfile(raw);
+}
+
+// ============================================================================
+// Links
+// ============================================================================
+
+/** The payload from a location hash, or null if it isn't a workout link */
+export function getSharedPayload(hash: string): string | null {
+	const value = hash.replace(/^#/, "");
+	return value.startsWith(HASH_KEY) && value.length > HASH_KEY.length ? value.slice(HASH_KEY.length) : null;
+}
+
+/** This page's address with the workout in its hash */
+export function getShareUrl(profile: TimerProfile, base: string = window.location.href): string {
+	const url = new URL(base);
+	url.hash = HASH_KEY + encodeWorkout(profile);
+	return url.toString();
+}
+
+/**
+ * The workout in a location hash; null if it isn't a workout link, throws
+ * with a message to show if it's broken or invalid
+ */
+export function readSharedWorkout(hash: string): TimerProfile | null {
+	const payload = getSharedPayload(hash);
+	if (payload === null) return null;
+	try {
+		return decodeWorkout(payload);
+	} catch (error) {
+		recordEvent("share:invalid_link", { error: (error as Error).message });
+		throw error;
+	}
+}
+
+/** Remove a workout hash from the address bar, so a reload doesn't offer it again */
+export function clearSharedPayload(): void {
+	if (getSharedPayload(window.location.hash) === null) return;
+	const { pathname, search } = window.location;
+	window.history.replaceState(window.history.state, "", pathname + search);
+}
+
+/**
+ * Share a workout link through the system share sheet, or copy it to the
+ * clipboard where there isn't one. Rejects only if both are unavailable.
+ */
+export async function shareWorkout(profile: TimerProfile): Promise<ShareResult> {
+	const url = getShareUrl(profile);
+	const data: ShareData = { title: `${profile.name} - Igor Timer`, url };
+
+	if (typeof navigator.share === "function" && (navigator.canShare?.(data) ?? true)) {
+		try {
+			await navigator.share(data);
+			recordEvent("share:shared", { name: profile.name, length: url.length });
+			return "shared";
+		} catch (error) {
+			if (error instanceof DOMException && error.name === "AbortError") return "cancelled";
+			// Other failures (not allowed, busy) fall back to the clipboard
+			recordEvent("share:failed", { via: "share", error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	try {
+		await navigator.clipboard.writeText(url);
+	} catch (error) {
+		recordEvent("share:failed", { via: "clipboard", error: error instanceof Error ? error.message : String(error) });
+		throw new Error("Couldn't share or copy the link");
+	}
+	recordEvent("share:copied", { name: profile.name, length: url.length });
+	return "copied";
+}
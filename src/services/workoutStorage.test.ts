@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TimerClock, TimerProfile, TimerSession } from "./timerEngine";
+import { getIdleState } from "./timerEngine";
+import { flattenProgram, intervalProgram } from "./workoutProgram";
+import { toSavedWorkout, toTimerSession } from "./workoutStorage";
+
+const profile: TimerProfile = {
+	name: "Test",
+	workTime: 30,
+	restTime: 10,
+	rounds: 3,
+	cycles: 1,
+	cycleRestTime: 0,
+	prepTime: 5,
+};
+
+function clockAt(ms: number): TimerClock {
+	return { now: () => ms, setInterval: () => 0, clearInterval: () => {} };
+}
+
+describe("workoutStorage", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T10:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const session: TimerSession = {
+		segments: flattenProgram(intervalProgram(profile)),
+		state: { ...getIdleState([]), isPaused: true, phase: "work", segmentIndex: 1, totalElapsed: 12 },
+		startTime: 1_000,
+		pausedMs: 3_000,
+		pausedAt: 16_000,
+	};
+
+	it("should store timestamps as wall-clock time", () => {
+		// This page's clock reads 20s at 10:00:00
+		const saved = toSavedWorkout(profile, session, clockAt(20_000));
+
+		expect(saved.startedAt).toBe(Date.now() - 19_000);
+		expect(saved.pausedAt).toBe(Date.now() - 4_000);
+		expect(saved.pausedMs).toBe(3_000);
+		expect(saved.profile).toBe(profile);
+	});
+
+	it("should map wall-clock time onto a restarted clock", () => {
+		const saved = toSavedWorkout(profile, session, clockAt(20_000));
+
+		// Reloaded a minute later: the new page's clock only reads 2s
+		vi.advanceTimersByTime(60_000);
+		const restored = toTimerSession(saved, clockAt(2_000));
+
+		expect(restored.startTime).toBe(2_000 - 60_000 - 19_000);
+		expect(restored.pausedAt).toBe(2_000 - 60_000 - 4_000);
+		// Paused: elapsed time is unchanged by the reload
+		expect(restored.pausedAt! - restored.startTime - restored.pausedMs).toBe(12_000);
+	});
+});
@@ -0,0 +1,121 @@
+import { openDB, STORES } from "./database";
+import { systemClock, type TimerClock, type TimerProfile, type TimerSession } from "./timerEngine";
+import { programDuration } from "./workoutProgram";
+
+const STORE_NAME = STORES.workout;
+const KEY = "current";
+const TWO_HOURS_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * An interval workout in progress, as stored.
+ *
+ * Timestamps are wall-clock (Date.now) rather than the engine's monotonic
+ * clock, because performance.now() restarts from zero on every page load.
+ */
+export interface SavedWorkout extends Omit<TimerSession, "startTime"> {
+	profile: TimerProfile;
+	startedAt: number;
+	savedAt: number;
+}
+
+/** Convert a running session to its stored form */
+export function toSavedWorkout(
+	profile: TimerProfile,
+	session: TimerSession,
+	clock: TimerClock = systemClock,
+): SavedWorkout {
+	const wallClockOffset = Date.now() - clock.now();
+	return {
+		profile,
+		segments: session.segments,
+		state: session.state,
+		startedAt: session.startTime + wallClockOffset,
+		pausedMs: session.pausedMs,
+		pausedAt: session.pausedAt === null ? null : session.pausedAt + wallClockOffset,
+		savedAt: Date.now(),
+	};
+}
+
+/** Convert a stored workout back to a session on this page's clock */
+export function toTimerSession(workout: SavedWorkout, clock: TimerClock = systemClock): TimerSession {
+	const wallClockOffset = Date.now() - clock.now();
+	return {
+		segments: workout.segments,
+		state: workout.state,
+		startTime: workout.startedAt - wallClockOffset,
+		pausedMs: workout.pausedMs,
+		pausedAt: workout.pausedAt === null ? null : workout.pausedAt - wallClockOffset,
+	};
+}
+
+/** Whether a running workout would already have finished by now */
+function isOver(workout: SavedWorkout): boolean {
+	const elapsedMs = (workout.pausedAt ?? Date.now()) - workout.startedAt - workout.pausedMs;
+	return elapsedMs >= programDuration(workout.segments) * 1000;
+}
+
+/** The saved workout, if there's one still worth resuming */
+export async function loadWorkout(): Promise<SavedWorkout | null> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve) => {
+			const transaction = db.transaction(STORE_NAME, "readonly");
+			const store = transaction.objectStore(STORE_NAME);
+			const request = store.get(KEY);
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			request.onsuccess = () => {
+				const workout = request.result as SavedWorkout | undefined;
+				if (!workout || Date.now() - workout.savedAt > TWO_HOURS_MS || isOver(workout)) {
+					resolve(null);
+				} else {
+					resolve(workout);
+				}
+			};
+
+			request.onerror = () => resolve(null);
+		});
+	} catch {
+		return null;
+	}
+}
+
+export async function saveWorkout(workout: SavedWorkout): Promise<void> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(STORE_NAME, "readwrite");
+			const store = transaction.objectStore(STORE_NAME);
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			const request = store.put(workout, KEY);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	} catch {
+		// Silently fail - storage is best-effort
+	}
+}
+
+export async function clearWorkout(): Promise<void> {
+	try {
+		const db = await openDB();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(STORE_NAME, "readwrite");
+			const store = transaction.objectStore(STORE_NAME);
+
+			transaction.oncomplete = () => db.close();
+			transaction.onerror = () => db.close();
+
+			const request = store.delete(KEY);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	} catch {
+		// Silently fail
+	}
+}